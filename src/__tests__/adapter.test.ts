@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  adaptHostSDK,
+  detectHostBridge,
+  disposeHostEvents,
+  getHostEvents,
+  isHostInstalled,
+  type LegacyMovementHost,
+} from '../adapter';
+import { createMockMovementSDK } from '../mock';
+import { NotConnectedError, UnsupportedError } from '../errors';
+
+function legacyHost(overrides: Partial<LegacyMovementHost> = {}): LegacyMovementHost {
+  return {
+    isConnected: true,
+    address: '0xa',
+    network: 'testnet',
+    connect: async () => ({ address: '0xa', publicKey: '0xpub' }),
+    getUserInfo: async () => ({ isConnected: true, address: '0xa' }),
+    getBalance: async () => '42',
+    waitForTransaction: async hash => ({ hash, status: 'Executed' }),
+    callViewFunction: async () => '7',
+    ...overrides,
+  };
+}
+
+describe('detectHostBridge', () => {
+  it('tells legacy and current bridges apart', () => {
+    expect(detectHostBridge(legacyHost())).toMatchObject({ shape: 'legacy', version: 'legacy' });
+    expect(detectHostBridge(legacyHost({ version: '0.3.1' }))).toMatchObject({ shape: 'legacy', version: '0.3.1' });
+    expect(detectHostBridge(createMockMovementSDK({ install: false }).sdk)).toMatchObject({ shape: 'current', version: 'unknown' });
+  });
+
+  it('treats legacy bridges as installed by being present', () => {
+    expect(isHostInstalled(undefined)).toBe(false);
+    expect(isHostInstalled(legacyHost())).toBe(true);
+    const mock = createMockMovementSDK({ install: false });
+    mock.sdk.isInstalled = () => false;
+    expect(isHostInstalled(mock.sdk)).toBe(false);
+  });
+});
+
+describe('adaptHostSDK', () => {
+  it('maps the legacy contract onto the current one', async () => {
+    const sdk = adaptHostSDK(legacyHost());
+
+    expect(await sdk.view({ function: '0x1::coin::supply', type_arguments: [], function_arguments: [] })).toEqual(['7']);
+    expect(await sdk.waitForTransaction('0x1')).toMatchObject({ hash: '0x1', status: 'success' });
+    expect(await sdk.getBalance()).toBe('42');
+
+    // The public key is only known after connect()
+    expect(await sdk.getAccount()).toEqual({ address: '0xa', publicKey: '' });
+    await sdk.connect();
+    expect(await sdk.getAccount()).toEqual({ address: '0xa', publicKey: '0xpub' });
+
+    await expect(sdk.signMessage({ message: 'hi' })).rejects.toBeInstanceOf(UnsupportedError);
+    await expect(sdk.getContext()).rejects.toMatchObject({ code: 'UNSUPPORTED', method: 'getContext', hostVersion: 'legacy' });
+  });
+
+  it('reports a disconnected legacy wallet', async () => {
+    const sdk = adaptHostSDK(legacyHost({ getUserInfo: async () => ({ isConnected: false, address: null }) }));
+    await expect(sdk.getAccount()).rejects.toBeInstanceOf(NotConnectedError);
+  });
+
+  it('forwards current bridges and stubs missing methods', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const host = { ...mock.sdk, signMessage: undefined } as unknown as typeof mock.sdk;
+    const sdk = adaptHostSDK(host);
+
+    expect(await sdk.getBalance()).toBe('100000000000');
+    await expect(sdk.signMessage({ message: 'hi' })).rejects.toBeInstanceOf(UnsupportedError);
+    expect(typeof sdk.haptic).toBe('function');
+    disposeHostEvents(host);
+  });
+
+  it('reads optional members live', () => {
+    const mock = createMockMovementSDK({ install: false });
+    const sdk = adaptHostSDK(mock.sdk);
+    const haptic = mock.sdk.haptic;
+    mock.sdk.haptic = undefined;
+    expect(sdk.haptic).toBeUndefined();
+    mock.sdk.haptic = haptic;
+    expect(typeof sdk.haptic).toBe('function');
+    mock.uninstall();
+  });
+});
+
+describe('host events', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('relays host events and diffs legacy state on sync', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const events: string[] = [];
+    adaptHostSDK(mock.sdk).on('networkChanged', ({ network }) => events.push(network));
+    mock.setNetwork('mainnet');
+    expect(events).toEqual(['mainnet']);
+    mock.uninstall();
+
+    const host = legacyHost({ isConnected: false, address: null });
+    const sdk = adaptHostSDK(host);
+    const accounts: string[] = [];
+    sdk.on('accountChanged', ({ address }) => accounts.push(address));
+    Object.assign(host, { isConnected: true, address: '0xb' });
+    await sdk.connect();
+    expect(accounts).toEqual(['0xb']);
+    disposeHostEvents(host);
+  });
+
+  it('removes its host, document and window listeners on dispose', () => {
+    const documentListeners = new Set<unknown>();
+    const mediaListeners = new Set<unknown>();
+    vi.stubGlobal('document', {
+      visibilityState: 'visible',
+      addEventListener: (_: string, listener: unknown) => documentListeners.add(listener),
+      removeEventListener: (_: string, listener: unknown) => documentListeners.delete(listener),
+    });
+    vi.stubGlobal('window', {
+      matchMedia: () => ({
+        addEventListener: (_: string, listener: unknown) => mediaListeners.add(listener),
+        removeEventListener: (_: string, listener: unknown) => mediaListeners.delete(listener),
+      }),
+    });
+
+    const legacy = legacyHost();
+    getHostEvents(legacy);
+    expect([documentListeners.size, mediaListeners.size]).toEqual([1, 1]);
+
+    const mock = createMockMovementSDK({ install: false });
+    const events = getHostEvents(mock.sdk);
+    const received: string[] = [];
+    events.on('networkChanged', ({ network }) => received.push(network));
+
+    disposeHostEvents(legacy);
+    disposeHostEvents(mock.sdk);
+    mock.setNetwork('mainnet');
+    expect([documentListeners.size, mediaListeners.size]).toEqual([0, 0]);
+    expect(received).toEqual([]);
+  });
+});
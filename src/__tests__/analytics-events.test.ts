@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { defineAnalyticsEvents } from '../analytics-events';
+import type { AnalyticsAPI } from '../types';
+
+const schemas = {
+  'Checkout Started': { items: 'number', coupon: 'string?' },
+  'Payment Method Selected': { method: ['card', 'wallet'] },
+  'Onboarding Finished': {},
+} as const;
+
+const recorder = () => ({ track: vi.fn(async () => undefined) }) as unknown as AnalyticsAPI & {
+  track: ReturnType<typeof vi.fn>;
+};
+
+describe('defineAnalyticsEvents', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports schema violations', () => {
+    const { validate } = defineAnalyticsEvents(schemas);
+    expect(validate('Checkout Started', { items: 3 })).toEqual([]);
+    expect(validate('Checkout Started', { items: '3', coupon: 5, extra: true })).toEqual([
+      '"items" must be a number, got string',
+      '"coupon" must be a string, got number',
+      '"extra" is not declared',
+    ]);
+    expect(validate('Checkout Started', { items: Infinity })).toEqual(['"items" must be a finite number']);
+    expect(validate('Payment Method Selected', { method: 'cash' })).toEqual([`"method" must be one of 'card', 'wallet'`]);
+    expect(validate('Checkout Begun')).toEqual(['Unknown event "Checkout Begun"']);
+    expect(validate('toString')).toEqual(['Unknown event "toString"']);
+  });
+
+  it('sends typed events and warns about violations in debug mode only', async () => {
+    const analytics = recorder();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const events = defineAnalyticsEvents(schemas, { analytics, debug: true });
+
+    await events.track('Checkout Started', { items: 3 });
+    await events.track('Onboarding Finished');
+    // @ts-expect-error wrong property type
+    await events.track('Checkout Started', { items: '3' });
+    // @ts-expect-error undeclared event
+    await events.track('Checkout Begun', { items: 3 });
+
+    expect(analytics.track.mock.calls.map(call => call[0])).toEqual([
+      'Checkout Started',
+      'Onboarding Finished',
+      'Checkout Started',
+      'Checkout Begun',
+    ]);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    await defineAnalyticsEvents(schemas, { analytics }).track('Payment Method Selected', { method: 'cash' as 'card' });
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends nothing when disabled and can switch clients', async () => {
+    const analytics = recorder();
+    const other = recorder();
+    const events = defineAnalyticsEvents(schemas, { analytics, enabled: false });
+    await events.track('Onboarding Finished');
+    // @ts-expect-error missing required properties
+    await events.track('Checkout Started');
+    expect(analytics.track).not.toHaveBeenCalled();
+
+    await defineAnalyticsEvents(schemas, { analytics }).withAnalytics(other).track('Onboarding Finished');
+    expect(analytics.track).not.toHaveBeenCalled();
+    expect(other.track).toHaveBeenCalledWith('Onboarding Finished', {});
+  });
+});
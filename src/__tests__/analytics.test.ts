@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAnalyticsClient, type AnalyticsEvent, type AnalyticsSink } from '../analytics';
+import type { OutboxStorage } from '../outbox';
+import { createMockMovementSDK } from '../mock';
+
+function recorder(): AnalyticsSink & { events: AnalyticsEvent[] } {
+  const events: AnalyticsEvent[] = [];
+  return {
+    name: 'recorder',
+    events,
+    send: async batch => {
+      events.push(...batch);
+    },
+  };
+}
+
+function memoryStorage(initial: Record<string, string> = {}): OutboxStorage & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    remove: vi.fn(async (key: string) => {
+      data.delete(key);
+    }),
+  };
+}
+
+describe('AnalyticsClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('batches events with super-properties and sends a full batch at once', async () => {
+    const sink = recorder();
+    const analytics = createAnalyticsClient({ hostSink: false, sinks: [sink], storage: null, batchSize: 2, superProperties: { app: 'shop' } });
+
+    await analytics.track('Viewed', { item: 1 });
+    await analytics.identify('user-1', { plan: 'pro' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sink.events.map(event => [event.type, event.name])).toEqual([['track', 'Viewed'], ['identify', 'user-1']]);
+    expect(sink.events[0].properties).toMatchObject({ app: 'shop', item: 1, session_id: expect.any(String) });
+    expect(sink.events[1].properties).toEqual({ plan: 'pro' });
+    expect(analytics.getStatus().pending).toBe(0);
+    analytics.destroy();
+  });
+
+  it('retries a failing sink with backoff and keeps the events until then', async () => {
+    const send = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(undefined);
+    const analytics = createAnalyticsClient({ hostSink: false, sinks: [{ name: 'api', send }], storage: null, flushInterval: 100 });
+
+    await analytics.track('Opened');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(analytics.getStatus()).toMatchObject({ pending: 1, errors: { api: 'offline' } });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(analytics.getStatus()).toMatchObject({ pending: 0, errors: {} });
+    analytics.destroy();
+  });
+
+  it('restores the stored buffer and never overwrites it after a failed read', async () => {
+    const stored = JSON.stringify([{ id: '1', type: 'track', name: 'Stored', properties: {}, timestamp: 0, pending: ['recorder'] }]);
+    const sink = recorder();
+    const storage = memoryStorage({ 'movement:analytics': stored });
+    const restored = createAnalyticsClient({ hostSink: false, sinks: [sink], storage, flushInterval: 100 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sink.events.map(event => event.name)).toEqual(['Stored']);
+    restored.destroy();
+
+    const unreadable = memoryStorage({ 'movement:analytics': stored });
+    vi.mocked(unreadable.get).mockRejectedValueOnce(new Error('Storage unavailable'));
+    const analytics = createAnalyticsClient({ hostSink: false, sinks: [recorder()], storage: unreadable, flushInterval: 100 });
+    await analytics.track('New');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(unreadable.set).not.toHaveBeenCalled();
+    expect(unreadable.remove).not.toHaveBeenCalled();
+    expect(unreadable.data.get('movement:analytics')).toBe(stored);
+    analytics.destroy();
+  });
+
+  it('drops events on opt-out and delivers again after opt-in', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const sink = recorder();
+    const storage = memoryStorage();
+    const analytics = createAnalyticsClient({ hostSink: false, sinks: [sink], storage, flushInterval: 100 });
+    await analytics.attach(mock.sdk);
+
+    await analytics.track('Before');
+    await analytics.optOut();
+    await analytics.track('Ignored');
+    expect(analytics.getStatus()).toMatchObject({ enabled: false, pending: 0 });
+    expect(storage.data.size).toBe(0);
+
+    await analytics.optIn();
+    await analytics.track('After');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sink.events.map(event => event.name)).toEqual(['After']);
+    expect(mock.getCalls('analytics.optIn')).toHaveLength(1);
+    analytics.destroy();
+    mock.uninstall();
+  });
+});
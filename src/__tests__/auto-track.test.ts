@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enableAutoTracking, scrubPII } from '../auto-track';
+import { getButtonController } from '../buttons';
+import { createMockMovementSDK } from '../mock';
+import type { AnalyticsAPI } from '../types';
+
+const address = '0x' + 'ab'.repeat(32);
+
+function fakeAnalytics() {
+  return {
+    track: vi.fn(async () => undefined),
+    identify: vi.fn(async () => undefined),
+    trackScreen: vi.fn(async () => undefined),
+    setUserProperties: vi.fn(async () => undefined),
+    reset: vi.fn(async () => undefined),
+    isEnabled: vi.fn(async () => true),
+    optOut: vi.fn(async () => undefined),
+    optIn: vi.fn(async () => undefined),
+  } satisfies AnalyticsAPI;
+}
+
+// A window whose pushState moves location.pathname
+function fakeBrowser(pathname: string) {
+  const location = { pathname };
+  const history = {
+    state: null as unknown,
+    pushState(state: unknown, _unused: string, url?: string | URL | null) {
+      history.state = state;
+      if (url) location.pathname = String(url);
+    },
+    replaceState(state: unknown) {
+      history.state = state;
+    },
+  };
+  vi.stubGlobal('window', { location, history, addEventListener: () => undefined, removeEventListener: () => undefined });
+  return history;
+}
+
+describe('scrubPII', () => {
+  it('redacts addresses, keys and signatures', () => {
+    expect(scrubPII(`/profile/${address}`)).toBe('/profile/[redacted]');
+    expect(scrubPII('cd'.repeat(64))).toBe('[redacted]');
+    expect(scrubPII('/orders/0x1f')).toBe('/orders/0x1f');
+  });
+});
+
+describe('enableAutoTracking', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('tracks screen views and time on each screen', () => {
+    const history = fakeBrowser('/home');
+    const analytics = fakeAnalytics();
+    const stop = enableAutoTracking(analytics, null);
+
+    vi.advanceTimersByTime(1500);
+    history.pushState(null, '', `/profile/${address}`);
+    stop();
+
+    expect(analytics.trackScreen.mock.calls).toEqual([
+      ['/home', { path: '/home', previous_screen: null }],
+      ['/profile/[redacted]', { path: '/profile/[redacted]', previous_screen: '/home' }],
+    ]);
+    expect(analytics.track).toHaveBeenCalledWith('Screen Time', { screen: '/home', duration_ms: 1500 });
+  });
+
+  it('tracks wallet events by function name only', () => {
+    const mock = createMockMovementSDK({ install: false });
+    const analytics = fakeAnalytics();
+    const stop = enableAutoTracking(analytics, mock.sdk, { screens: false });
+
+    mock.emit('transactionSubmitted', { hash: '0x1', function: '0x1::coin::transfer' });
+    mock.emit('transactionConfirmed', { hash: '0x1', sender: address });
+    mock.emit('transactionFailed', { function: '0x1::coin::transfer', code: 'USER_REJECTED' });
+    mock.emit('messageSigned', { address });
+    stop();
+    mock.emit('messageSigned', { address });
+
+    expect(analytics.track.mock.calls).toEqual([
+      ['Transaction Submitted', { function: '0x1::coin::transfer' }],
+      ['Transaction Succeeded', { function: '0x1::coin::transfer' }],
+      ['Transaction Failed', { function: '0x1::coin::transfer', code: 'USER_REJECTED', stage: 'wallet' }],
+      ['Message Signed', {}],
+    ]);
+    mock.uninstall();
+  });
+
+  it('tracks only allowlisted events, including MainButton clicks', () => {
+    const mock = createMockMovementSDK({ install: false });
+    const analytics = fakeAnalytics();
+    const stop = enableAutoTracking(analytics, mock.sdk, { screens: false, allowlist: ['Main Button Clicked'] });
+
+    const handle = getButtonController(mock.sdk, 'MainButton').acquire({ text: 'Pay', onClick: () => undefined });
+    mock.clickMainButton();
+    mock.emit('messageSigned', { address });
+
+    expect(analytics.track.mock.calls).toEqual([['Main Button Clicked', { text: 'Pay' }]]);
+    handle.release();
+    stop();
+    mock.uninstall();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BcsSerializer, serializeEntryFunctionPayload, serializeMoveValue, serializeTypeTag } from '../bcs';
+import { encodeHex } from '../move-types';
+import { ValidationError } from '../errors';
+
+const hex = (bytes: Uint8Array) => encodeHex(bytes).slice(2);
+const address = (short: string) => short.padStart(64, '0');
+const str = (text: string) => text.length.toString(16).padStart(2, '0') + Buffer.from(text).toString('hex');
+
+describe('BCS', () => {
+  it('encodes ULEB128 lengths', () => {
+    const uleb = (value: number) => hex(new BcsSerializer().writeUleb128(value).toBytes());
+    expect(uleb(0)).toBe('00');
+    expect(uleb(127)).toBe('7f');
+    expect(uleb(128)).toBe('8001');
+    expect(uleb(300)).toBe('ac02');
+    expect(uleb(16384)).toBe('808001');
+  });
+
+  it('encodes primitive values', () => {
+    expect(hex(serializeMoveValue('bool', true))).toBe('01');
+    expect(hex(serializeMoveValue('u8', 255))).toBe('ff');
+    expect(hex(serializeMoveValue('u16', 258))).toBe('0201');
+    expect(hex(serializeMoveValue('u64', '1'))).toBe('0100000000000000');
+    expect(hex(serializeMoveValue('u64', 18446744073709551615n))).toBe('ff'.repeat(8));
+    expect(hex(serializeMoveValue('u128', 1n << 64n))).toBe('00'.repeat(8) + '01' + '00'.repeat(7));
+    expect(hex(serializeMoveValue('address', '0x1'))).toBe(address('1'));
+    expect(hex(serializeMoveValue('0x1::string::String', 'abc'))).toBe('03616263');
+  });
+
+  it('encodes vectors, options and objects', () => {
+    expect(hex(serializeMoveValue('vector<u8>', '0x0102'))).toBe('020102');
+    expect(hex(serializeMoveValue('vector<u8>', new Uint8Array([1, 2])))).toBe('020102');
+    expect(hex(serializeMoveValue('vector<u16>', [1, 2]))).toBe('0201000200');
+    expect(hex(serializeMoveValue('0x1::option::Option<u8>', null))).toBe('00');
+    expect(hex(serializeMoveValue('0x1::option::Option<u8>', 5))).toBe('0105');
+    expect(hex(serializeMoveValue('0x1::object::Object<0x1::fungible_asset::Metadata>', '0xa'))).toBe(address('a'));
+  });
+
+  it('rejects values that do not fit the type', () => {
+    expect(() => serializeMoveValue('u8', 256)).toThrow(ValidationError);
+    expect(() => serializeMoveValue('u64', -1)).toThrow(ValidationError);
+    expect(() => serializeMoveValue('bool', 'yes')).toThrow(ValidationError);
+  });
+
+  it('encodes type tags', () => {
+    expect(hex(serializeTypeTag('u64'))).toBe('02');
+    expect(hex(serializeTypeTag('vector<u8>'))).toBe('0601');
+    expect(hex(serializeTypeTag('0x1::aptos_coin::AptosCoin')))
+      .toBe('07' + address('1') + str('aptos_coin') + str('AptosCoin') + '00');
+  });
+
+  it('encodes an entry function payload', () => {
+    const bytes = serializeEntryFunctionPayload({
+      function: '0x1::coin::transfer',
+      type_arguments: ['0x1::aptos_coin::AptosCoin'],
+      arguments: ['0x2', '100'],
+      parameters: ['&signer', 'address', 'u64'],
+    });
+    expect(hex(bytes)).toBe(
+      '02' + address('1') + str('coin') + str('transfer') +
+      '01' + hex(serializeTypeTag('0x1::aptos_coin::AptosCoin')) +
+      '02' + '20' + address('2') + '08' + '6400000000000000'
+    );
+  });
+
+  it('requires parameter types for payloads', () => {
+    expect(() => serializeEntryFunctionPayload({ function: '0x1::coin::transfer', type_arguments: [], arguments: [] }))
+      .toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getHistoryDepth, observeHistory, onNavigate, type NavigationType } from '../history';
+import { getButtonController } from '../buttons';
+import { createMockMovementSDK, type MockMovementSDK } from '../mock';
+
+// Enough of window.history for one tab: an entry stack with back/forward
+function fakeBrowser() {
+  const entries: unknown[] = [null];
+  let index = 0;
+  const popListeners = new Set<(event: { state: unknown }) => void>();
+
+  const go = (delta: number) => {
+    index += delta;
+    popListeners.forEach(listener => listener({ state: entries[index] }));
+  };
+  const history = {
+    get state() {
+      return entries[index];
+    },
+    pushState(state: unknown) {
+      entries.splice(index + 1, entries.length, state);
+      index += 1;
+    },
+    replaceState(state: unknown) {
+      entries[index] = state;
+    },
+    back: () => go(-1),
+    forward: () => go(1),
+  };
+  const { pushState, replaceState } = history;
+
+  vi.stubGlobal('window', {
+    history,
+    addEventListener: (_: string, listener: (event: { state: unknown }) => void) => popListeners.add(listener),
+    removeEventListener: (_: string, listener: (event: { state: unknown }) => void) => popListeners.delete(listener),
+  });
+  return { history, popListeners, original: { pushState, replaceState } };
+}
+
+describe('history observation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('tracks depth through push, replace and back/forward', () => {
+    const { history } = fakeBrowser();
+    const seen: NavigationType[] = [];
+    const stop = onNavigate(type => seen.push(type));
+
+    history.pushState({ route: 'a' });
+    history.pushState(null);
+    history.replaceState({ route: 'b' });
+    expect(getHistoryDepth()).toBe(2);
+    expect(history.state).toEqual({ route: 'b', __movementDepth: 2 });
+
+    history.back();
+    expect(getHistoryDepth()).toBe(1);
+    history.back();
+    expect(getHistoryDepth()).toBe(0);
+    history.forward();
+    expect(getHistoryDepth()).toBe(1);
+    expect(seen).toEqual(['push', 'push', 'replace', 'pop', 'pop', 'pop']);
+    stop();
+  });
+
+  it('restores the History API once the last observer stops', () => {
+    const { history, popListeners, original } = fakeBrowser();
+    const stopFirst = observeHistory();
+    const stopSecond = onNavigate(() => undefined);
+    expect(history.pushState).not.toBe(original.pushState);
+
+    stopFirst();
+    stopFirst();
+    expect(popListeners.size).toBe(1);
+    stopSecond();
+    expect(history.pushState).toBe(original.pushState);
+    expect(history.replaceState).toBe(original.replaceState);
+    expect(popListeners.size).toBe(0);
+
+    history.pushState({ route: 'c' });
+    expect(history.state).toEqual({ route: 'c' });
+  });
+
+  it('keeps a wrapper added on top of its own working', () => {
+    const { history, original } = fakeBrowser();
+    const stop = observeHistory();
+    const routerPush = vi.fn();
+    const wrapped = history.pushState;
+    history.pushState = function (state: unknown) {
+      routerPush(state);
+      wrapped.call(this, state);
+    };
+
+    stop();
+    history.pushState({ route: 'd' });
+    expect(routerPush).toHaveBeenCalledOnce();
+    expect(history.state).toEqual({ route: 'd' });
+    expect(history.replaceState).toBe(original.replaceState);
+  });
+});
+
+describe('NativeButtonController', () => {
+  let mock: MockMovementSDK;
+
+  beforeEach(() => {
+    mock = createMockMovementSDK({ install: false });
+  });
+
+  afterEach(() => {
+    mock.uninstall();
+    vi.unstubAllGlobals();
+  });
+
+  it('gives the button to the highest priority, most recent owner', () => {
+    const controller = getButtonController(mock.sdk, 'MainButton');
+    const clicks: string[] = [];
+    const page = controller.acquire({ text: 'Pay', onClick: () => clicks.push('page') });
+    const dialog = controller.acquire({ text: 'Confirm', onClick: () => clicks.push('dialog') }, 1);
+    const toast = controller.acquire({ text: 'Undo', onClick: () => clicks.push('toast') });
+
+    expect(mock.buttons.MainButton).toEqual({ text: 'Confirm', visible: true });
+    mock.clickMainButton();
+    dialog.release();
+    expect(mock.buttons.MainButton.text).toBe('Undo');
+    toast.release();
+    mock.clickMainButton();
+    expect(clicks).toEqual(['dialog', 'page']);
+
+    page.release();
+    expect(mock.buttons.MainButton.visible).toBe(false);
+    expect(mock.getCalls('MainButton.onClick')).toHaveLength(1);
+  });
+
+  it('ignores clicks while disabled or loading', () => {
+    const controller = getButtonController(mock.sdk, 'MainButton');
+    const onClick = vi.fn();
+    const handle = controller.acquire({ text: 'Pay', disabled: true, onClick });
+    mock.clickMainButton();
+
+    handle.update({ text: 'Pay', loading: true, onClick });
+    expect(mock.buttons.MainButton.text).toBe('Loading…');
+    mock.clickMainButton();
+    expect(onClick).not.toHaveBeenCalled();
+
+    handle.update({ text: 'Pay', onClick });
+    mock.clickMainButton();
+    expect(onClick).toHaveBeenCalledOnce();
+    handle.release();
+  });
+
+  it('shows an auto BackButton only with in-app history and stops observing on release', () => {
+    const { history, original } = fakeBrowser();
+    const handle = getButtonController(mock.sdk, 'BackButton').acquire({ visible: 'auto' });
+    expect(mock.buttons.BackButton.visible).toBe(false);
+
+    history.pushState(null);
+    expect(mock.buttons.BackButton.visible).toBe(true);
+    mock.clickBackButton();
+    expect(getHistoryDepth()).toBe(0);
+    expect(mock.buttons.BackButton.visible).toBe(false);
+
+    handle.release();
+    expect(history.pushState).toBe(original.pushState);
+  });
+});
@@ -0,0 +1,111 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import ts from 'typescript';
+import { afterAll, describe, expect, it } from 'vitest';
+import { generateModuleBindings, toModuleABI } from '../codegen';
+import type { MoveFunctionABI, MoveModuleABI } from '../abi';
+
+const fn = (name: string, fields: Partial<MoveFunctionABI>): MoveFunctionABI => ({
+  name,
+  visibility: 'public',
+  is_entry: false,
+  is_view: false,
+  generic_type_params: [],
+  params: [],
+  return: [],
+  ...fields,
+});
+
+const abi: MoveModuleABI = {
+  address: '0xcafe',
+  name: 'shop',
+  friends: [],
+  structs: [],
+  exposed_functions: [
+    fn('buy', {
+      is_entry: true,
+      generic_type_params: [{ constraints: [] }],
+      params: ['&signer', 'address', 'u64', 'vector<u8>', '0x1::option::Option<0x1::string::String>'],
+    }),
+    fn('delete', { is_entry: true, params: ['&signer', 'u8'] }),
+    fn('stock', { is_view: true, params: ['address'], return: ['u64', 'bool', '0x1::option::Option<u128>'] }),
+    fn('price', { is_entry: true, is_view: true, params: ['u64'], return: ['u64'] }),
+    fn('internal', { params: ['u64'] }),
+  ],
+};
+
+const sdkImport = resolve(__dirname, '../index');
+const outDir = mkdtempSync(join(tmpdir(), 'movement-codegen-'));
+afterAll(() => rmSync(outDir, { recursive: true, force: true }));
+
+const writeModule = (name: string, source: string) => {
+  const file = join(outDir, `${name}.ts`);
+  writeFileSync(file, source);
+  return file;
+};
+
+const typeErrors = (files: string[]) => {
+  const program = ts.createProgram(files, {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+    jsx: ts.JsxEmit.React,
+    strict: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    noEmit: true,
+  });
+  return ts.getPreEmitDiagnostics(program)
+    .filter(diagnostic => diagnostic.file && files.includes(resolve(diagnostic.file.fileName)))
+    .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+};
+
+describe('generateModuleBindings', () => {
+  const source = generateModuleBindings(abi, { sdkImport });
+
+  it('emits builders for entry and view functions only', () => {
+    expect(source).toContain(`export const MODULE = '0xcafe::shop';`);
+    expect(source).toContain('export function buy(typeArguments: [string], arg0: string, arg1: bigint | number | string');
+    expect(source).toContain('export function delete_(arg0: number): TransactionPayload');
+    expect(source).toContain('export function stock(arg0: string): ViewPayload');
+    expect(source).toContain('export function priceView(arg0: bigint | number | string): ViewPayload');
+    expect(source).not.toContain('internal');
+  });
+
+  it('builds payloads and parses view results', async () => {
+    const shop = await import(writeModule('shop', source));
+
+    expect(shop.buy(['0x1::aptos_coin::AptosCoin'], '0x2', 5n, new Uint8Array([1, 255]), null)).toEqual({
+      function: '0xcafe::shop::buy',
+      type_arguments: ['0x1::aptos_coin::AptosCoin'],
+      arguments: ['0x2', '5', '0x01ff', null],
+      parameters: ['address', 'u64', 'vector<u8>', '0x1::option::Option<0x1::string::String>'],
+    });
+    expect(shop.stock('0x2')).toEqual({ function: '0xcafe::shop::stock', type_arguments: [], function_arguments: ['0x2'] });
+    expect(shop.stock.parse(['42', true, { vec: ['7'] }])).toEqual([42n, true, 7n]);
+    expect(shop.stock.parse(['0', false, { vec: [] }])).toEqual([0n, false, null]);
+  });
+
+  it('type-checks, and rejects mistyped arguments', () => {
+    const bindings = writeModule('typed', source);
+    const usage = writeModule('usage', [
+      `import * as shop from './typed';`,
+      `const [count, open, max]: [bigint, boolean, bigint | null] = shop.stock.parse([]);`,
+      `shop.delete_(1);`,
+      `// @ts-expect-error u8 takes a number`,
+      `shop.delete_('1');`,
+      `// @ts-expect-error generic functions take type arguments`,
+      `shop.buy('0x2', 1, '0x', null);`,
+      `export { count, open, max };`,
+    ].join('\n'));
+
+    expect(typeErrors([bindings, usage])).toEqual([]);
+  }, 60_000);
+
+  it('accepts a REST module response', () => {
+    expect(toModuleABI({ bytecode: '0x', abi })).toBe(abi);
+    expect(() => toModuleABI({ bytecode: '0x' })).toThrow('Module response has no ABI');
+  });
+});
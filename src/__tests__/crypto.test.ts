@@ -0,0 +1,109 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { deriveAddress, MULTI_ED25519_SCHEME, randomBytes, sha3_256, verifyEd25519, verifyMultiEd25519 } from '../crypto';
+import { decodeHex, encodeHex } from '../move-types';
+import { createMultiKey, createTestKey } from './helpers';
+
+const hex = (bytes: Uint8Array) => encodeHex(bytes).slice(2);
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('sha3_256', () => {
+  it('matches the FIPS 202 known-answer vectors', () => {
+    expect(hex(sha3_256(utf8('')))).toBe('a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a');
+    expect(hex(sha3_256(utf8('abc')))).toBe('3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532');
+    expect(hex(sha3_256(utf8('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))))
+      .toBe('41c0dba2a9d6240849100376a8235e2c82e1b9998a999e21db32dd97496d3376');
+    expect(hex(sha3_256(new Uint8Array(200).fill(0xa3))))
+      .toBe('79f38adec5c20307a98ef76e8324afbfd46cfd81b22e3973c65fa1bd9de31787');
+  });
+
+  it('matches Node around the 136-byte block boundary', () => {
+    for (const length of [135, 136, 137, 271, 272, 273, 1000]) {
+      const data = randomBytes(length);
+      expect(hex(sha3_256(data))).toBe(createHash('sha3-256').update(data).digest('hex'));
+    }
+  });
+});
+
+describe('verifyEd25519', () => {
+  // RFC 8032, section 7.1, tests 1 and 2
+  const vectors = [
+    {
+      publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+      message: new Uint8Array(0),
+      signature: 'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+    },
+    {
+      publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+      message: new Uint8Array([0x72]),
+      signature: '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+    },
+  ];
+
+  it('accepts the RFC 8032 vectors', async () => {
+    for (const { publicKey, message, signature } of vectors) {
+      expect(await verifyEd25519(publicKey, message, signature)).toBe(true);
+    }
+  });
+
+  it('rejects a signature over another message or by another key', async () => {
+    const [first, second] = vectors;
+    expect(await verifyEd25519(first.publicKey, second.message, first.signature)).toBe(false);
+    expect(await verifyEd25519(second.publicKey, first.message, first.signature)).toBe(false);
+  });
+
+  it('rejects tampered signatures and wrong lengths', async () => {
+    const key = createTestKey();
+    const signature = key.sign('hello');
+    expect(await verifyEd25519(key.publicKey, 'hello', signature)).toBe(true);
+
+    const tampered = decodeHex(signature);
+    tampered[10] ^= 0x01;
+    expect(await verifyEd25519(key.publicKey, 'hello', tampered)).toBe(false);
+    expect(await verifyEd25519(key.publicKey, 'hello', signature.slice(0, -2))).toBe(false);
+    expect(await verifyEd25519(key.publicKey.slice(0, -2), 'hello', signature)).toBe(false);
+  });
+});
+
+describe('verifyMultiEd25519', () => {
+  const keys = [createTestKey(), createTestKey(), createTestKey()];
+  const multi = createMultiKey(keys, 2);
+
+  it('accepts signatures from at least the threshold of members', async () => {
+    expect(await verifyMultiEd25519(multi.publicKey, 'hello', multi.sign('hello', [0, 2]))).toBe(true);
+    expect(await verifyMultiEd25519(multi.publicKey, 'hello', multi.sign('hello', [0, 1, 2]))).toBe(true);
+  });
+
+  it('rejects fewer signatures than the threshold', async () => {
+    expect(await verifyMultiEd25519(multi.publicKey, 'hello', multi.sign('hello', [1]))).toBe(false);
+  });
+
+  it('rejects a bitmap that does not match the signers', async () => {
+    const signature = decodeHex(multi.sign('hello', [0, 2]));
+    // Claim members 0 and 1 signed
+    signature[signature.length - 4] = 0b11000000;
+    expect(await verifyMultiEd25519(multi.publicKey, 'hello', signature)).toBe(false);
+  });
+
+  it('rejects signers outside the key set and a bad member signature', async () => {
+    const outside = createMultiKey([...keys, createTestKey()], 2).sign('hello', [0, 3]);
+    expect(await verifyMultiEd25519(multi.publicKey, 'hello', outside)).toBe(false);
+    expect(await verifyMultiEd25519(multi.publicKey, 'other', multi.sign('hello', [0, 1]))).toBe(false);
+  });
+
+  it('rejects a zero threshold', async () => {
+    const unguarded = createMultiKey(keys, 0);
+    expect(await verifyMultiEd25519(unguarded.publicKey, 'hello', unguarded.sign('hello', [0]))).toBe(false);
+  });
+});
+
+describe('deriveAddress', () => {
+  it('hashes the public key with the scheme byte', () => {
+    const key = createTestKey();
+    const input = Buffer.concat([Buffer.from(decodeHex(key.publicKey)), Buffer.from([0x00])]);
+    expect(deriveAddress(key.publicKey)).toBe('0x' + createHash('sha3-256').update(input).digest('hex'));
+
+    const multi = createMultiKey([key, createTestKey()], 1);
+    expect(deriveAddress(multi.publicKey, MULTI_ED25519_SCHEME)).not.toBe(deriveAddress(multi.publicKey));
+  });
+});
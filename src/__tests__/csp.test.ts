@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildCSP,
+  mergeCSP,
+  missingCSPSources,
+  parseCSP,
+  requiredCSPSources,
+  serializeCSP,
+  toMetaCSP,
+} from '../csp';
+import { SecureMovementSDK } from '../sdk';
+import { createMockMovementSDK } from '../mock';
+
+const TESTNET = 'https://testnet.movementnetwork.xyz';
+const MAINNET = 'https://mainnet.movementnetwork.xyz';
+
+describe('CSP builder', () => {
+  it('allows only the current network, or every known one', () => {
+    expect(buildCSP({}, 'testnet')['connect-src']).toContain(TESTNET);
+    expect(buildCSP({}, 'testnet')['connect-src']).not.toContain(MAINNET);
+    expect(buildCSP({}, null)['connect-src']).toEqual(expect.arrayContaining([TESTNET, MAINNET]));
+  });
+
+  it('replaces unsafe-inline with a nonce or hashes', () => {
+    expect(buildCSP()['script-src']).toContain("'unsafe-inline'");
+    expect(buildCSP({ nonce: 'abc' })['script-src']).toEqual(["'self'", "'nonce-abc'"]);
+    expect(buildCSP({ hashes: ['sha256-x'], unsafeEval: true })['script-src']).toEqual(["'self'", "'sha256-x'", "'unsafe-eval'"]);
+  });
+
+  it('adds custom sources and keeps header-only directives out of <meta>', () => {
+    const directives = buildCSP({ directives: { 'connect-src': ['https://api.example.com'], 'worker-src': ['blob:'] } }, 'testnet');
+    expect(directives['connect-src']).toContain('https://api.example.com');
+    expect(directives['worker-src']).toEqual(["'self'", 'blob:']);
+    expect(toMetaCSP(directives)).not.toHaveProperty('frame-ancestors');
+  });
+
+  it('parses and serializes policies', () => {
+    const policy = "default-src 'self'; Connect-Src 'self' https:; connect-src *";
+    expect(parseCSP(policy)).toEqual({ 'default-src': ["'self'"], 'connect-src': ["'self'", 'https:'] });
+    expect(serializeCSP(parseCSP(policy))).toBe("default-src 'self'; connect-src 'self' https:");
+  });
+
+  it('merges fetch directives through default-src', () => {
+    expect(mergeCSP({ 'default-src': ["'none'"] }, { 'img-src': ['data:'] })).toEqual({
+      'default-src': ["'none'"],
+      'img-src': ['data:'],
+    });
+    expect(mergeCSP({ 'default-src': ["'self'"] }, { 'img-src': ['data:'] })['img-src']).toEqual(["'self'", 'data:']);
+  });
+
+  it('finds the sources an app policy blocks', () => {
+    const required = requiredCSPSources({ directives: { 'img-src': ['https://cdn.example.com'] } }, 'testnet');
+    expect(missingCSPSources(parseCSP("default-src 'self'"), required)).toEqual({
+      'img-src': ['https://cdn.example.com'],
+      'connect-src': [TESTNET],
+    });
+    expect(missingCSPSources(parseCSP("default-src 'self' https:"), required)).toEqual({});
+    expect(missingCSPSources(parseCSP('script-src *'), required)).toEqual({});
+  });
+});
+
+class FakeMeta {
+  httpEquiv = '';
+  content = '';
+  attributes = new Map<string, string>();
+  setAttribute(name: string, value: string) {
+    this.attributes.set(name, value);
+  }
+}
+
+function fakeDocument(appPolicy?: string) {
+  const metas: FakeMeta[] = [];
+  if (appPolicy) {
+    metas.push(Object.assign(new FakeMeta(), { httpEquiv: 'Content-Security-Policy', content: appPolicy }));
+  }
+  const listeners = new Set<(event: object) => void>();
+  const document = {
+    head: { appendChild: (meta: FakeMeta) => metas.push(meta) },
+    createElement: () => new FakeMeta(),
+    querySelector: () => metas.find(meta => meta.attributes.has('data-movement-csp')) ?? null,
+    querySelectorAll: () => metas.filter(meta => meta.httpEquiv.toLowerCase() === 'content-security-policy'),
+    addEventListener: (_: string, listener: (event: object) => void) => listeners.add(listener),
+    removeEventListener: (_: string, listener: (event: object) => void) => listeners.delete(listener),
+  };
+  vi.stubGlobal('document', document);
+  vi.stubGlobal('window', {});
+  const violate = (blockedURI: string) => listeners.forEach(listener => listener({ effectiveDirective: 'connect-src', blockedURI }));
+  return { metas, violate };
+}
+
+describe('setupCSP', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const createSDK = () => new SecureMovementSDK(createMockMovementSDK({ install: false, network: 'testnet' }).sdk, {
+    strictMode: false,
+    persistNonces: false,
+  });
+
+  it("applies one policy for the host's network once ready", async () => {
+    const { metas } = fakeDocument();
+    const first = createSDK();
+    const second = createSDK();
+    expect(metas).toHaveLength(0);
+
+    await first.ready();
+    await second.ready();
+    expect(metas).toHaveLength(1);
+    expect(parseCSP(metas[0].content)['connect-src']).toContain(TESTNET);
+    expect(parseCSP(metas[0].content)['connect-src']).not.toContain(MAINNET);
+  });
+
+  it('logs violations to every instance', async () => {
+    const { violate } = fakeDocument();
+    const first = createSDK();
+    const second = createSDK();
+    await first.ready();
+    await second.ready();
+
+    violate('https://evil.example.com');
+    for (const sdk of [first, second]) {
+      expect(sdk.getSecurityEvents({ type: 'csp_violation' })).toHaveLength(1);
+    }
+  });
+
+  it("keeps the app's policy as the only one and reports what it blocks", async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { metas } = fakeDocument("default-src 'self'");
+    await createSDK().ready();
+    await createSDK().ready();
+
+    expect(metas).toHaveLength(1);
+    expect(metas[0].content).toBe("default-src 'self'");
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0][1]).toBe(`connect-src ${TESTNET}`);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createEncryptedStorage,
+  decryptString,
+  deriveKeyFromPassphrase,
+  deriveKeyFromSignature,
+  encryptString,
+  getKeyDerivationMessage,
+} from '../encryption';
+import { createMockMovementSDK } from '../mock';
+import { SecureMovementSDK } from '../sdk';
+import { DecryptionError, ValidationError } from '../errors';
+
+const signature = '0x' + 'ab'.repeat(64);
+const app = 'app.example.com';
+
+const reasonOf = async (run: () => Promise<unknown>) => {
+  try {
+    await run();
+  } catch (error) {
+    if (error instanceof DecryptionError) return error.reason;
+    throw error;
+  }
+  return null;
+};
+
+describe('AES-GCM string encryption', () => {
+  it('round-trips with fresh IVs', async () => {
+    const key = await deriveKeyFromSignature(signature, 'storage', app);
+    const first = await encryptString(key, 'hello', 'note');
+    const second = await encryptString(key, 'hello', 'note');
+    expect(first).not.toBe(second);
+    expect(first.startsWith(`menc1:${key.id}:`)).toBe(true);
+    expect(await decryptString([key], first, 'note')).toBe('hello');
+  });
+
+  it('derives the same key from the same signature, purpose and app only', async () => {
+    const key = await deriveKeyFromSignature(signature, 'storage', app);
+    expect((await deriveKeyFromSignature(signature, 'storage', app)).id).toBe(key.id);
+    expect((await deriveKeyFromSignature(signature, 'notes', app)).id).not.toBe(key.id);
+    expect((await deriveKeyFromSignature('0x' + 'cd'.repeat(64), 'storage', app)).id).not.toBe(key.id);
+    expect((await deriveKeyFromSignature(signature, 'storage', 'evil.example.com')).id).not.toBe(key.id);
+
+    const passphrase = await deriveKeyFromPassphrase('correct horse', { salt: '0x1', iterations: 1000 });
+    expect((await deriveKeyFromPassphrase('correct horse', { salt: '0x1', iterations: 1000 })).id).toBe(passphrase.id);
+    expect((await deriveKeyFromPassphrase('correct horse', { salt: '0x2', iterations: 1000 })).id).not.toBe(passphrase.id);
+  });
+
+  it('rejects the wrong key, context or tampered ciphertext', async () => {
+    const key = await deriveKeyFromSignature(signature, 'storage', app);
+    const other = await deriveKeyFromSignature(signature, 'other', app);
+    const ciphertext = await encryptString(key, 'secret', 'a');
+
+    expect(await reasonOf(() => decryptString([other], ciphertext, 'a'))).toBe('key_mismatch');
+    expect(await reasonOf(() => decryptString([key], ciphertext, 'b'))).toBe('corrupted');
+    expect(await reasonOf(() => decryptString([key], 'secret', 'a'))).toBe('corrupted');
+
+    const parts = ciphertext.split(':');
+    const data = Buffer.from(parts[3], 'base64');
+    data[0] ^= 1;
+    parts[3] = data.toString('base64');
+    expect(await reasonOf(() => decryptString([key], parts.join(':'), 'a'))).toBe('corrupted');
+  });
+});
+
+describe('EncryptedCloudStorage', () => {
+  it('stores only ciphertext and rotates keys', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const storage = mock.sdk.CloudStorage!;
+    const oldKey = await deriveKeyFromSignature(signature, 'storage', app);
+    const newKey = await deriveKeyFromSignature(signature, 'rotated', app);
+    const encrypted = createEncryptedStorage({ key: oldKey, storage });
+
+    await encrypted.setItem('draft', 'plans');
+    await storage.setItem('plain', 'not encrypted');
+    expect(await storage.getItem('enc:draft')).not.toContain('plans');
+    expect(await encrypted.getItem('draft')).toBe('plans');
+    expect(await encrypted.getKeys()).toEqual(['draft']);
+
+    // A value moved to another key fails authentication
+    await storage.setItem('enc:moved', (await storage.getItem('enc:draft'))!);
+    expect(await encrypted.rotateKey(newKey)).toEqual({ reencrypted: ['draft'], failed: ['moved'] });
+    expect((await storage.getItem('enc:draft'))!.split(':')[1]).toBe(newKey.id);
+    expect(await createEncryptedStorage({ key: newKey, storage }).getItem('draft')).toBe('plans');
+  });
+});
+
+describe('SecureMovementSDK.deriveEncryptionKey', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const keyFor = async (host: string) => {
+    vi.stubGlobal('window', { location: { host } });
+    const mock = createMockMovementSDK({ install: false });
+    const sdk = new SecureMovementSDK(mock.sdk, { enableCSP: false, strictMode: false, persistNonces: false });
+    const key = await sdk.deriveEncryptionKey('notes');
+    return { key, signed: mock.getCalls('signMessage')[0].args[0] };
+  };
+
+  it('derives different keys for the same account on different origins', async () => {
+    const ours = await keyFor('app.example.com');
+    const theirs = await keyFor('evil.example.com');
+    expect(ours.key.id).not.toBe(theirs.key.id);
+    expect(ours.signed).toEqual(getKeyDerivationMessage('notes', 'mock-app@app.example.com'));
+    expect((await keyFor('app.example.com')).key.id).toBe(ours.key.id);
+  });
+
+  it('requires an app identity', () => {
+    expect(() => getKeyDerivationMessage('notes', '')).toThrow(ValidationError);
+  });
+});
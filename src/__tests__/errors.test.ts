@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  HostError,
+  MovementSDKError,
+  NotInstalledError,
+  TimeoutError,
+  UserRejectedError,
+  isMovementSDKError,
+  normalizeError,
+} from '../errors';
+import { SecureMovementSDK, waitForSDK } from '../sdk';
+import { createMockMovementSDK } from '../mock';
+
+describe('normalizeError', () => {
+  it('maps user rejections by code or message', () => {
+    for (const error of [
+      Object.assign(new Error('nope'), { code: 4001 }),
+      { code: 'USER_REJECTED', message: 'x' },
+      new Error('User rejected the request'),
+      new Error('The user cancelled signing'),
+      new Error('Transaction declined by user'),
+      'Rejected.',
+    ]) {
+      expect(normalizeError(error)).toBeInstanceOf(UserRejectedError);
+    }
+  });
+
+  it('does not treat other rejections as the user', () => {
+    for (const message of ['Transaction rejected by mempool', 'Permission denied', 'Request cancelled: network changed']) {
+      expect(normalizeError(new Error(message))).toBeInstanceOf(HostError);
+    }
+  });
+
+  it('maps timeouts and keeps the cause', () => {
+    const cause = new Error('Request timed out');
+    const error = normalizeError(cause);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.cause).toBe(cause);
+    expect(normalizeError({ code: 'ETIMEDOUT' }).code).toBe('TIMEOUT');
+  });
+
+  it('passes SDK errors through and describes unknown values', () => {
+    const error = new NotInstalledError();
+    expect(normalizeError(error)).toBe(error);
+    expect(isMovementSDKError(error, 'NOT_INSTALLED')).toBe(true);
+    expect(isMovementSDKError(error, 'TIMEOUT')).toBe(false);
+    expect(normalizeError(null)).toMatchObject({ code: 'HOST_ERROR', message: 'Unknown host error' });
+  });
+
+  it('normalizes host failures from SecureMovementSDK', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const sdk = new SecureMovementSDK(mock.sdk, { enableCSP: false, strictMode: false, persistNonces: false });
+    mock.failNext('getBalance', new Error('User denied access'));
+    await expect(sdk.getBalance()).rejects.toBeInstanceOf(UserRejectedError);
+    mock.failNext('getBalance', new Error('boom'));
+    await expect(sdk.getBalance()).rejects.toMatchObject({ code: 'HOST_ERROR', message: 'boom' });
+  });
+});
+
+describe('waitForSDK', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('throws NotInstalledError without a host', async () => {
+    vi.stubGlobal('window', {});
+    await expect(waitForSDK(10)).rejects.toBeInstanceOf(NotInstalledError);
+  });
+
+  it('rethrows ready() failures as SDK errors and clears its timer', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', {});
+    const mock = createMockMovementSDK();
+    mock.failNext('ready', new Error('User cancelled'));
+
+    const error = await waitForSDK(1000, { enableCSP: false }).catch(e => e);
+    expect(error).toBeInstanceOf(UserRejectedError);
+    expect(error).toBeInstanceOf(MovementSDKError);
+    expect(vi.getTimerCount()).toBe(0);
+    mock.uninstall();
+  });
+
+  it('times out', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', {});
+    const mock = createMockMovementSDK({ latency: { ready: 5000 } });
+
+    const result = waitForSDK(100, { enableCSP: false }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await result).toBeInstanceOf(TimeoutError);
+    mock.uninstall();
+  });
+});
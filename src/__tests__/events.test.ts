@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TypedEventEmitter } from '../events';
+import { MovementStore } from '../store';
+import { SecureMovementSDK } from '../sdk';
+import { createMockAccount, createMockMovementSDK, type MockMovementSDK } from '../mock';
+
+describe('TypedEventEmitter', () => {
+  it('delivers events until unsubscribed', () => {
+    const emitter = new TypedEventEmitter<{ ping: number }>();
+    const received: number[] = [];
+    const off = emitter.on('ping', value => received.push(value));
+    emitter.once('ping', value => received.push(value * 10));
+
+    emitter.emit('ping', 1);
+    off();
+    emitter.emit('ping', 2);
+    expect(received).toEqual([1, 10]);
+    expect(emitter.listenerCount('ping')).toBe(0);
+  });
+
+  it('keeps notifying when a listener throws', () => {
+    const emitter = new TypedEventEmitter<{ ping: number }>();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const received: number[] = [];
+    emitter.on('ping', () => {
+      throw new Error('bad listener');
+    });
+    emitter.on('ping', value => received.push(value));
+
+    emitter.emit('ping', 1);
+    expect(received).toEqual([1]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('wallet events', () => {
+  let mock: MockMovementSDK;
+
+  beforeEach(async () => {
+    vi.stubGlobal('window', {});
+    mock = createMockMovementSDK({ accounts: [await createMockAccount('1'), await createMockAccount('2')] });
+  });
+
+  afterEach(() => {
+    mock.uninstall();
+    vi.unstubAllGlobals();
+  });
+
+  it('are re-emitted by SecureMovementSDK', () => {
+    const sdk = new SecureMovementSDK(mock.sdk, { enableCSP: false, persistNonces: false });
+    const received: string[] = [];
+    const off = sdk.on('accountChanged', ({ address }) => received.push(address));
+
+    mock.setAccount(1);
+    const second = mock.sdk.address;
+    off();
+    mock.setAccount(0);
+    expect(received).toEqual([second]);
+  });
+
+  it('keep the shared store current until it is destroyed', async () => {
+    const store = new MovementStore({ config: { enableCSP: false, persistNonces: false } });
+    await store.init();
+    const first = mock.sdk.address;
+    mock.setAccount(1);
+    const second = mock.sdk.address;
+    await vi.waitFor(() => expect(store.getState().account?.balance).toBe('2'));
+    expect(store.getState()).toMatchObject({ isConnected: true, address: second });
+
+    mock.setBalance(second!, '99');
+    expect(store.getState().account?.balance).toBe('99');
+    mock.setNetwork('mainnet');
+    expect(store.getState().network).toBe('mainnet');
+    mock.setConnected(false);
+    expect(store.getState()).toMatchObject({ isConnected: false, address: null, account: null });
+
+    store.destroy();
+    mock.setConnected(true);
+    expect(store.getState().isConnected).toBe(false);
+    expect(first).not.toBe(second);
+  });
+});
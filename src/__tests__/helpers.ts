@@ -0,0 +1,37 @@
+/**
+ * Test helpers: Ed25519 keys and signatures from Node's crypto, as a wallet would produce them
+ */
+
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { encodeHex } from '../move-types';
+
+export interface TestKey {
+  /** 0x-prefixed 32-byte public key */
+  publicKey: string;
+  sign: (message: string | Uint8Array) => string;
+}
+
+export function createTestKey(): TestKey {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+  return {
+    publicKey: encodeHex(new Uint8Array(raw)),
+    sign: message => encodeHex(new Uint8Array(sign(null, Buffer.from(message), privateKey))),
+  };
+}
+
+/**
+ * MultiEd25519 key (member keys then threshold) and a signature by the given members
+ */
+export function createMultiKey(keys: TestKey[], threshold: number) {
+  const publicKey = '0x' + keys.map(key => key.publicKey.slice(2)).join('') + threshold.toString(16).padStart(2, '0');
+
+  const sign = (message: string, signers: number[]) => {
+    const bitmap = new Uint8Array(4);
+    for (const index of signers) bitmap[index >> 3] |= 0x80 >> (index & 7);
+    const signatures = signers.map(index => keys[index].sign(message).slice(2)).join('');
+    return '0x' + signatures + encodeHex(bitmap).slice(2);
+  };
+
+  return { publicKey, sign };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createMockAccount, createMockMovementSDK } from '../mock';
+import { verifySignedMessage } from '../verify';
+import { deriveAddress } from '../crypto';
+
+describe('createMockMovementSDK', () => {
+  it('signs messages with a real Ed25519 key', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const result = await mock.sdk.signMessage({ message: 'Link my account', nonce: 'n-1' });
+
+    const verification = await verifySignedMessage({ message: 'Link my account', nonce: 'n-1', result });
+    expect(verification).toMatchObject({ valid: true, address: mock.sdk.address });
+    expect(deriveAddress(result.publicKey)).toBe(mock.sdk.address);
+  });
+
+  it('signs with the active account and never exposes its private key', async () => {
+    const [first, second] = [await createMockAccount(), await createMockAccount('5')];
+    const mock = createMockMovementSDK({ install: false, accounts: [first, second] });
+    mock.setAccount(1);
+
+    expect(await mock.sdk.getAccount()).toEqual({ address: second.address, publicKey: second.publicKey, balance: '5' });
+    const result = await mock.sdk.signMessage({ message: 'hi', nonce: 'n' });
+    expect(await verifySignedMessage({ message: 'hi', nonce: 'n', result, expectedAddress: second.address }))
+      .toMatchObject({ valid: true });
+    expect(await verifySignedMessage({ message: 'hi', nonce: 'n', result, expectedAddress: first.address }))
+      .toMatchObject({ valid: false });
+  });
+
+  it('cannot sign for accounts without a private key', async () => {
+    const mock = createMockMovementSDK({ install: false, accounts: [{ address: '0x1', publicKey: '0x' + '00'.repeat(32) }] });
+    await expect(mock.sdk.signMessage({ message: 'hi' })).rejects.toThrow('has no privateKey');
+  });
+
+  it('records calls and scripted failures', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    mock.failNext('getBalance', new Error('offline'));
+    await expect(mock.sdk.getBalance()).rejects.toThrow('offline');
+    expect(await mock.sdk.getBalance()).toBe('100000000000');
+    expect(mock.getCalls('getBalance').map(call => call.error?.message ?? call.result)).toEqual(['offline', '100000000000']);
+  });
+});
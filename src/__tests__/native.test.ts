@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { SecureMovementSDK } from '../sdk';
+import type { SecurityConfig } from '../security';
+import { createMockMovementSDK, type MockMovementSDKOptions } from '../mock';
+import { HostError, RateLimitError, UnsupportedError, UserRejectedError } from '../errors';
+import type { AppContext, PopupOptions } from '../types';
+
+const features: AppContext['features'] = {
+  haptics: true,
+  notifications: true,
+  camera: true,
+  biometrics: true,
+  location: true,
+};
+
+const setup = (options: Omit<MockMovementSDKOptions, 'install'> = {}, config: SecurityConfig = {}) => {
+  const mock = createMockMovementSDK({ install: false, ...options });
+  const sdk = new SecureMovementSDK(mock.sdk, { enableCSP: false, strictMode: false, persistNonces: false, ...config });
+  return { mock, sdk };
+};
+
+describe('SecureMovementSDK native APIs', () => {
+  it('calls the host when the feature is enabled', async () => {
+    const { mock, sdk } = setup();
+    await sdk.haptic({ type: 'impact', style: 'light' });
+    expect(await sdk.share({ message: 'hello' })).toEqual({ success: true });
+    expect(mock.getCalls('haptic')).toHaveLength(1);
+  });
+
+  it('rejects with UnsupportedError when the host disables a feature', async () => {
+    const { mock, sdk } = setup({ context: { features: { ...features, haptics: false, camera: false } } });
+
+    await expect(sdk.haptic({ type: 'impact', style: 'light' })).rejects.toBeInstanceOf(UnsupportedError);
+    await expect(sdk.camera!.takePicture()).rejects.toMatchObject({ method: 'camera.takePicture' });
+    expect(mock.getCalls('haptic')).toHaveLength(0);
+    await sdk.notify({ title: 'Hi', body: 'There' });
+  });
+
+  it('rejects with UnsupportedError when the host lacks a method', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const sdk = new SecureMovementSDK({ ...mock.sdk, share: undefined, clipboard: undefined }, {
+      enableCSP: false,
+      strictMode: false,
+      persistNonces: false,
+    });
+
+    const error = await sdk.share({ message: 'hello' }).catch(e => e);
+    expect(error).toBeInstanceOf(UnsupportedError);
+    expect(error.method).toBe('share');
+    expect(sdk.clipboard).toBeUndefined();
+  });
+
+  it('rate-limits notifications', async () => {
+    const { mock, sdk } = setup({}, { rateLimits: { notify: { limit: 1 } } });
+    await sdk.notify({ title: 'One', body: '1' });
+    await expect(sdk.notify({ title: 'Two', body: '2' })).rejects.toBeInstanceOf(RateLimitError);
+    expect(mock.getCalls('notify')).toHaveLength(1);
+  });
+
+  it('normalizes host errors', async () => {
+    const { mock, sdk } = setup();
+    mock.failNext('share', new Error('User cancelled'));
+    await expect(sdk.share({ message: 'hello' })).rejects.toBeInstanceOf(UserRejectedError);
+
+    mock.failNext('haptic', new Error('Engine unavailable'));
+    await expect(sdk.haptic({ type: 'impact', style: 'light' })).rejects.toBeInstanceOf(HostError);
+  });
+});
+
+describe('SecureMovementSDK capabilities', () => {
+  it('reports host members minus disabled features', async () => {
+    const { sdk } = setup({ context: { features: { ...features, location: false } } });
+    const capabilities = await sdk.getCapabilities();
+
+    expect(capabilities.supported).toMatchObject({ haptic: true, share: true, location: false });
+    expect(capabilities.features?.location).toBe(false);
+    expect(capabilities.platform).toEqual({ os: 'ios', version: '17.0' });
+    expect(capabilities.host.shape).toBe('current');
+  });
+
+  it('resolves true without a popup when everything is supported', async () => {
+    const { mock, sdk } = setup();
+    expect(await sdk.requireCapabilities(['haptic', 'camera'])).toBe(true);
+    expect(mock.getCalls('showPopup')).toHaveLength(0);
+  });
+
+  it('names the missing features and offers the update link', async () => {
+    const { mock, sdk } = setup({ context: { features: { ...features, camera: false } }, popupResult: 'update' });
+    const updateUrl = 'https://movement.xyz/wallet';
+
+    expect(await sdk.requireCapabilities(['haptic', 'camera'], { updateUrl })).toBe(false);
+    const [popup] = mock.getCalls('showPopup')[0].args as [PopupOptions];
+    expect(popup.message).toContain('(camera)');
+    expect(popup.buttons?.map(button => button.id)).toEqual(['update', 'cancel']);
+    expect(mock.getCalls('openUrl')[0].args).toEqual([updateUrl, 'external']);
+  });
+});
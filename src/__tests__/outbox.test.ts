@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOutbox, Outbox, type OutboxEntry, type OutboxStorage } from '../outbox';
+import { createMockMovementSDK } from '../mock';
+import { HostError, NotConnectedError, RateLimitError, TimeoutError, UserRejectedError } from '../errors';
+import type { TransactionPayload } from '../types';
+
+const payload: TransactionPayload = {
+  function: '0x1::aptos_account::transfer',
+  type_arguments: [],
+  arguments: ['0x2', '100'],
+};
+
+function memoryStorage(initial: Record<string, string> = {}): OutboxStorage & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    get: async key => data.get(key) ?? null,
+    set: async (key, value) => {
+      data.set(key, value);
+    },
+    remove: async key => {
+      data.delete(key);
+    },
+  };
+}
+
+const setup = (options: { storage?: OutboxStorage; maxAttempts?: number } = {}) => {
+  const mock = createMockMovementSDK({ install: false });
+  const storage = options.storage ?? memoryStorage();
+  const outbox = new Outbox(mock.sdk, { storage, autoResume: false, maxAttempts: options.maxAttempts });
+  return { mock, outbox, storage };
+};
+
+async function settle(outbox: Outbox, id: string): Promise<OutboxEntry> {
+  await outbox.flush();
+  return outbox.getEntry(id)!;
+}
+
+describe('Outbox', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('persists the intent, then submits it', async () => {
+    const { outbox, storage } = setup();
+    const entry = await outbox.enqueue(payload, { id: 'order-1' });
+    expect(entry.status).toBe('queued');
+
+    const settled = await settle(outbox, 'order-1');
+    expect(settled).toMatchObject({ status: 'submitted', attempts: 1 });
+    expect(settled.hash).toMatch(/^0x/);
+    expect(JSON.parse((await storage.get('movement:outbox'))!)[0].status).toBe('submitted');
+  });
+
+  it('ignores a repeated intent ID', async () => {
+    const { mock, outbox } = setup();
+    await outbox.enqueue(payload, { id: 'order-1' });
+    await outbox.enqueue(payload, { id: 'order-1' });
+    await outbox.flush();
+
+    expect(outbox.getEntries()).toHaveLength(1);
+    expect(mock.getCalls('sendTransaction')).toHaveLength(1);
+  });
+
+  it('retries failures from before the wallet received the payload, up to maxAttempts', async () => {
+    const { mock, outbox } = setup({ maxAttempts: 2 });
+    mock.failNext('sendTransaction', new NotConnectedError(), 1);
+    await outbox.enqueue(payload, { id: 'order-1' });
+
+    expect(await settle(outbox, 'order-1')).toMatchObject({ status: 'queued', attempts: 1 });
+    expect(await settle(outbox, 'order-1')).toMatchObject({ status: 'submitted', attempts: 2 });
+
+    mock.failNext('sendTransaction', new RateLimitError('Too many requests', 1000), 2);
+    await outbox.enqueue(payload, { id: 'order-2' });
+    await settle(outbox, 'order-2');
+    expect(await settle(outbox, 'order-2')).toMatchObject({ status: 'failed', attempts: 2, error: { code: 'RATE_LIMITED' } });
+  });
+
+  it('marks user rejections as failed until retried', async () => {
+    const { mock, outbox } = setup();
+    mock.failNext('sendTransaction', new UserRejectedError('User rejected the request'));
+    await outbox.enqueue(payload, { id: 'order-1' });
+    expect(await settle(outbox, 'order-1')).toMatchObject({ status: 'failed', error: { code: 'USER_REJECTED' } });
+
+    await outbox.retry('order-1');
+    expect(await settle(outbox, 'order-1')).toMatchObject({ status: 'submitted', attempts: 1 });
+  });
+
+  it.each([
+    ['a timeout', new TimeoutError('Request timed out')],
+    ['a host error', new HostError('Bridge crashed')],
+  ])('never resubmits after %s until retry()', async (_, error) => {
+    const { mock, outbox } = setup();
+    mock.failNext('sendTransaction', error);
+    await outbox.enqueue(payload, { id: 'order-1' });
+
+    expect((await settle(outbox, 'order-1')).status).toBe('unknown');
+    await outbox.resume();
+    expect(mock.getCalls('sendTransaction')).toHaveLength(1);
+
+    await outbox.retry('order-1');
+    expect((await settle(outbox, 'order-1')).status).toBe('submitted');
+    expect(mock.getCalls('sendTransaction')).toHaveLength(2);
+  });
+
+  it('does not resubmit an entry left awaiting the wallet by a previous session', async () => {
+    const now = Date.now();
+    const stored: OutboxEntry[] = [
+      { id: 'signing', payload, status: 'awaiting_signature', attempts: 1, createdAt: now, updatedAt: now },
+      { id: 'waiting', payload, status: 'queued', attempts: 0, createdAt: now, updatedAt: now },
+    ];
+    const storage = memoryStorage({ 'movement:outbox': JSON.stringify(stored) });
+    const mock = createMockMovementSDK({ install: false });
+
+    const outbox = createOutbox(mock.sdk, { storage, autoResume: false });
+    await outbox.flush();
+
+    expect(outbox.getEntry('signing')?.status).toBe('unknown');
+    expect(outbox.getEntry('waiting')?.status).toBe('submitted');
+    expect(mock.getCalls('sendTransaction')).toHaveLength(1);
+  });
+
+  it('keeps entries with an unknown outcome on clear()', async () => {
+    const { mock, outbox } = setup();
+    mock.failNext('sendTransaction', new TimeoutError('Request timed out'));
+    await outbox.enqueue(payload, { id: 'unknown' });
+    await outbox.enqueue(payload, { id: 'done' });
+    await outbox.flush();
+
+    await outbox.clear();
+    expect(outbox.getEntries().map(entry => entry.id)).toEqual(['unknown']);
+
+    await outbox.remove('unknown');
+    expect(outbox.getEntries()).toHaveLength(0);
+  });
+
+  it('resubmits once a rate limit resets', async () => {
+    vi.useFakeTimers();
+    const { mock, outbox } = setup();
+    mock.failNext('sendTransaction', new RateLimitError('Too many requests', 1000));
+    await outbox.enqueue(payload, { id: 'order-1' });
+
+    expect(await settle(outbox, 'order-1')).toMatchObject({ status: 'queued', error: { code: 'RATE_LIMITED' } });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(outbox.getEntry('order-1')).toMatchObject({ status: 'submitted', attempts: 2 });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('never overwrites stored entries after a failed read', async () => {
+    const now = Date.now();
+    const stored: OutboxEntry[] = [{ id: 'stored', payload, status: 'failed', attempts: 1, createdAt: now, updatedAt: now }];
+    const storage = memoryStorage({ 'movement:outbox': JSON.stringify(stored) });
+    const get = storage.get;
+    storage.get = vi.fn().mockRejectedValueOnce(new Error('Storage unavailable')).mockImplementation(get);
+    const { outbox } = setup({ storage });
+
+    await expect(outbox.enqueue(payload, { id: 'order-1' })).rejects.toMatchObject({ message: 'Storage unavailable' });
+    expect(JSON.parse(storage.data.get('movement:outbox')!)).toEqual(stored);
+
+    await outbox.enqueue(payload, { id: 'order-1' });
+    expect(outbox.getEntries().map(entry => entry.id)).toEqual(['stored', 'order-1']);
+  });
+
+  it('stops submitting once destroyed', async () => {
+    const { mock, outbox } = setup();
+    mock.setLatency({ sendTransaction: 20 });
+    await outbox.enqueue(payload, { id: 'order-1' });
+    await outbox.enqueue(payload, { id: 'order-2' });
+
+    await vi.waitFor(() => expect(outbox.getEntry('order-1')?.status).toBe('awaiting_signature'));
+    const flushed = outbox.flush();
+    outbox.destroy();
+    await flushed;
+
+    expect(outbox.getEntry('order-1')?.status).toBe('submitted');
+    expect(outbox.getEntry('order-2')?.status).toBe('queued');
+    expect(mock.getCalls('sendTransaction')).toHaveLength(1);
+  });
+});
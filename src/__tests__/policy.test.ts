@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { createSpendingPolicy, MOVE_COIN_TYPE } from '../policy';
+import { SecureMovementSDK } from '../sdk';
+import { createMockMovementSDK } from '../mock';
+import { PolicyViolationError, UserRejectedError, TimeoutError } from '../errors';
+import type { TransactionPayload } from '../types';
+
+const transfer = (amount: string, recipient = '0x2'): TransactionPayload => ({
+  function: '0x1::aptos_account::transfer',
+  type_arguments: [],
+  arguments: [recipient, amount],
+});
+
+const ruleOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PolicyViolationError) return error.rule;
+    throw error;
+  }
+  return null;
+};
+
+describe('SpendingPolicyEngine', () => {
+  it('applies deny before allow', () => {
+    const policy = createSpendingPolicy({ allow: ['0x1'], deny: ['0x1::aptos_account::transfer'] });
+    expect(ruleOf(() => policy.check([transfer('1')]))).toBe('deny');
+    expect(ruleOf(() => policy.check([{ ...transfer('1'), function: '0xcafe::shop::buy' }]))).toBe('allow');
+    expect(ruleOf(() => policy.check([{ ...transfer('1'), function: '0x1::coin::transfer' }]))).toBeNull();
+  });
+
+  it('checks recipients and per-transaction caps', () => {
+    const policy = createSpendingPolicy({
+      recipients: ['0x2'],
+      caps: { [MOVE_COIN_TYPE]: { perTransaction: '100' } },
+    });
+    expect(ruleOf(() => policy.check([transfer('1', '0x3')]))).toBe('recipients');
+    expect(ruleOf(() => policy.check([transfer('101')]))).toBe('caps.perTransaction');
+    expect(ruleOf(() => policy.check([transfer('100')]))).toBeNull();
+  });
+
+  it('counts a batch as a whole', () => {
+    const policy = createSpendingPolicy({ caps: { [MOVE_COIN_TYPE]: { perTransaction: '100' } } });
+    expect(ruleOf(() => policy.check([transfer('60'), transfer('60')]))).toBe('caps.perTransaction');
+  });
+
+  it('reserves checked spends against the session cap until released', () => {
+    const policy = createSpendingPolicy({ caps: { [MOVE_COIN_TYPE]: { perSession: '150' } } });
+
+    const first = policy.check([transfer('100')]);
+    expect(policy.getSpent(MOVE_COIN_TYPE).session).toBe(100n);
+    expect(ruleOf(() => policy.check([transfer('100')]))).toBe('caps.perSession');
+
+    policy.release(first);
+    expect(policy.getSpent(MOVE_COIN_TYPE).session).toBe(0n);
+    expect(ruleOf(() => policy.check([transfer('100')]))).toBeNull();
+  });
+
+  it('reserves against the window cap', () => {
+    const policy = createSpendingPolicy({
+      caps: { [MOVE_COIN_TYPE]: { perWindow: { amount: '100', windowMs: 60_000 } } },
+    });
+    const spends = policy.check([transfer('80')]);
+    expect(policy.getSpent(MOVE_COIN_TYPE).window).toBe(80n);
+    expect(ruleOf(() => policy.check([transfer('30')]))).toBe('caps.perWindow');
+
+    policy.release(spends);
+    expect(policy.getSpent(MOVE_COIN_TYPE).window).toBe(0n);
+  });
+
+  it('rejects transfers of an unknown asset while caps are set', () => {
+    const unknownAsset: TransactionPayload = {
+      function: '0x1::primary_fungible_store::transfer',
+      type_arguments: ['0x1::fungible_asset::Metadata'],
+      arguments: [{ not: 'an address' }, '0x2', '500'],
+    };
+    expect(ruleOf(() => createSpendingPolicy().check([unknownAsset]))).toBeNull();
+
+    const capped = createSpendingPolicy({ caps: { '*': { perTransaction: '100' } } });
+    const error = (() => {
+      try {
+        capped.check([unknownAsset]);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toMatchObject({ rule: 'caps.asset', field: 'arguments[0]' });
+
+    const allowed = createSpendingPolicy({ allowUnknownAssets: true, caps: { '*': { perTransaction: '100' } } });
+    expect(ruleOf(() => allowed.check([unknownAsset]))).toBe('caps.perTransaction');
+    expect(ruleOf(() => allowed.check([{ ...unknownAsset, arguments: [{}, '0x2', '100'] }]))).toBeNull();
+    expect(allowed.getSpent('*').session).toBe(100n);
+  });
+});
+
+describe('SecureMovementSDK spending caps', () => {
+  const setup = () => {
+    const mock = createMockMovementSDK({ install: false });
+    const sdk = new SecureMovementSDK(mock.sdk, {
+      enableCSP: false,
+      strictMode: false,
+      persistNonces: false,
+      policy: { caps: { [MOVE_COIN_TYPE]: { perSession: '150' } } },
+    });
+    return { mock, sdk };
+  };
+
+  it('does not let concurrent transactions exceed a cap together', async () => {
+    const { mock, sdk } = setup();
+    const results = await Promise.allSettled([sdk.sendTransaction(transfer('100')), sdk.sendTransaction(transfer('100'))]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(PolicyViolationError);
+    expect(mock.getCalls('sendTransaction')).toHaveLength(1);
+  });
+
+  it('releases the reservation when the user rejects', async () => {
+    const { mock, sdk } = setup();
+    mock.failNext('sendTransaction', new UserRejectedError('User rejected the request'));
+
+    await expect(sdk.sendTransaction(transfer('100'))).rejects.toBeInstanceOf(UserRejectedError);
+    await expect(sdk.sendTransaction(transfer('100'))).resolves.toMatchObject({ success: true });
+  });
+
+  it('keeps the reservation when the outcome is unknown', async () => {
+    const { mock, sdk } = setup();
+    mock.failNext('sendTransaction', new TimeoutError('Request timed out'));
+
+    await expect(sdk.sendTransaction(transfer('100'))).rejects.toBeInstanceOf(TimeoutError);
+    await expect(sdk.sendTransaction(transfer('100'))).rejects.toBeInstanceOf(PolicyViolationError);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, type RateLimitRule } from '../rate-limit';
+import { SecureMovementSDK } from '../sdk';
+import { createMockMovementSDK } from '../mock';
+import { RateLimitError } from '../errors';
+
+const rule = (overrides: Partial<RateLimitRule> = {}): RateLimitRule => ({
+  limit: 2,
+  windowMs: 1000,
+  strategy: 'fixed-window',
+  mode: 'reject',
+  maxQueueMs: 5000,
+  ...overrides,
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resets a fixed window all at once', () => {
+    const limiter = createRateLimiter(rule());
+    expect([limiter.tryAcquire('view'), limiter.tryAcquire('view'), limiter.tryAcquire('view')]).toEqual([true, true, false]);
+    expect(limiter.getRetryAfter('view')).toBe(1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(limiter.getBudget('view')).toMatchObject({ remaining: 2, retryAfterMs: 0 });
+  });
+
+  it('frees a sliding window call by call', () => {
+    const limiter = createRateLimiter(rule({ strategy: 'sliding-window' }));
+    limiter.tryAcquire('view');
+    vi.advanceTimersByTime(400);
+    limiter.tryAcquire('view');
+
+    expect(limiter.getRetryAfter('view')).toBe(600);
+    vi.advanceTimersByTime(600);
+    expect(limiter.getBudget('view').remaining).toBe(1);
+  });
+
+  it('refills a token bucket gradually', () => {
+    const limiter = createRateLimiter(rule({ strategy: 'token-bucket', limit: 4 }));
+    for (let i = 0; i < 4; i++) limiter.tryAcquire('view');
+    expect(limiter.tryAcquire('view')).toBe(false);
+    expect(limiter.getRetryAfter('view')).toBe(250);
+
+    vi.advanceTimersByTime(500);
+    expect(limiter.getBudget('view').remaining).toBe(2);
+  });
+
+  it('keeps per-method rules apart', () => {
+    const limiter = createRateLimiter(rule({ limit: 1 }), { view: { limit: 3 } });
+    expect(limiter.getRule('view').limit).toBe(3);
+    limiter.tryAcquire('connect');
+    expect(limiter.tryAcquire('connect')).toBe(false);
+    expect(limiter.tryAcquire('view')).toBe(true);
+  });
+
+  it('serves queued calls in order and gives up after maxQueueMs', async () => {
+    const limiter = createRateLimiter(rule({ limit: 1, mode: 'queue', maxQueueMs: 1500 }));
+    const budgets: number[] = [];
+    limiter.subscribe(budget => budgets.push(budget.queued));
+
+    const results = [limiter.acquire('send'), limiter.acquire('send'), limiter.acquire('send'), limiter.acquire('send')];
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(await Promise.all(results)).toEqual([true, true, false, false]);
+    expect(Math.max(...budgets)).toBe(4);
+    expect(limiter.getBudget('send').queued).toBe(0);
+  });
+});
+
+describe('SecureMovementSDK rate limits', () => {
+  it('rejects over-limit calls with retryAfterMs and logs them', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    const sdk = new SecureMovementSDK(mock.sdk, {
+      enableCSP: false,
+      strictMode: false,
+      persistNonces: false,
+      rateLimits: { connect: { limit: 1 } },
+    });
+
+    await sdk.connect();
+    const error = await sdk.connect().catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(mock.getCalls('connect')).toHaveLength(1);
+    expect(sdk.getSecurityEvents({ type: 'rate_limit' })[0].metadata).toMatchObject({ method: 'connect' });
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createAnalyticsSecuritySink,
+  createHttpSecuritySink,
+  matchesSecurityFilter,
+  redactSecurityMetadata,
+  type SecurityEventSink,
+} from '../security-events';
+import { createSecurityManager } from '../security';
+import type { AnalyticsAPI, SecurityEvent } from '../types';
+
+const event = (overrides: Partial<SecurityEvent> = {}): SecurityEvent => ({
+  id: '1',
+  type: 'rate_limit',
+  severity: 'info',
+  details: 'Too many requests',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const recorder = (minSeverity?: SecurityEventSink['minSeverity']) => {
+  const events: SecurityEvent[] = [];
+  return { events, sink: { minSeverity, send: (sent: SecurityEvent) => void events.push(sent) } };
+};
+
+describe('redactSecurityMetadata', () => {
+  it('describes sensitive values by size and keeps diagnostics', () => {
+    expect(redactSecurityMetadata({
+      function: '0x1::coin::transfer',
+      arguments: ['0x2', '100'],
+      nested: { signature: '0xabcd', amount: 5n, bytes: new Uint8Array(3) },
+    })).toEqual({
+      function: '0x1::coin::transfer',
+      arguments: '[redacted: 2 items]',
+      nested: { signature: '[redacted: 6 chars]', amount: '5', bytes: '[3 bytes]' },
+    });
+  });
+});
+
+describe('matchesSecurityFilter', () => {
+  it('filters by type, severity and time', () => {
+    const replay = event({ type: 'replay_attack', severity: 'critical' });
+    expect(matchesSecurityFilter(replay, { type: ['replay_attack', 'csp_violation'] })).toBe(true);
+    expect(matchesSecurityFilter(event(), { minSeverity: 'warning' })).toBe(false);
+    expect(matchesSecurityFilter(event(), { since: new Date('2026-06-01T00:00:00.000Z') })).toBe(false);
+  });
+});
+
+describe('SecurityManager audit log', () => {
+  it('logs redacted events with default severities and sends them to sinks by severity', () => {
+    const all = recorder();
+    const critical = recorder('critical');
+    const security = createSecurityManager({ securitySinks: [all.sink, critical.sink], redactKeys: ['email'], auditLogSize: 2 });
+
+    security.logSecurityEvent({ type: 'rate_limit', details: 'Too many connect requests' });
+    security.logSecurityEvent({ type: 'replay_attack', details: 'Nonce reused', metadata: { email: 'a@b.c', nonce: 'n1' } });
+    security.logSecurityEvent({ type: 'invalid_origin', details: 'Origin not allowed' });
+
+    expect(all.events.map(logged => logged.severity)).toEqual(['info', 'critical', 'warning']);
+    expect(critical.events.map(logged => logged.type)).toEqual(['replay_attack']);
+    expect(security.getAuditLog().map(logged => logged.type)).toEqual(['replay_attack', 'invalid_origin']);
+    expect(security.getAuditLog({ minSeverity: 'critical' })[0].metadata).toEqual({ email: '[redacted: 5 chars]', nonce: 'n1' });
+    expect(JSON.parse(security.exportAuditLog({ type: 'invalid_origin' }))).toHaveLength(1);
+
+    security.clearAuditLog();
+    expect(security.getAuditLog()).toEqual([]);
+  });
+
+  it('keeps logging when a sink fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const after = recorder();
+    const security = createSecurityManager({
+      securitySinks: [{ send: () => Promise.reject(new Error('offline')) }, after.sink],
+    });
+
+    security.logSecurityEvent({ type: 'csp_violation', details: 'Blocked script' });
+    await Promise.resolve();
+    expect(after.events).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith('[Security] Sink failed:', expect.any(Error));
+    warn.mockRestore();
+  });
+});
+
+describe('createHttpSecuritySink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('posts batches and keeps failed ones for the next flush', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetch);
+    const sink = createHttpSecuritySink({ endpoint: 'https://audit.example.com', batchSize: 2, flushInterval: 1000 });
+
+    sink.send(event({ id: '1' }));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    sink.send(event({ id: '2' }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetch.mock.calls[1][1].body).events.map((sent: SecurityEvent) => sent.id)).toEqual(['1', '2']);
+
+    await sink.flush();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createAnalyticsSecuritySink', () => {
+  it('tracks the event without metadata and scrubs the details', async () => {
+    const track = vi.fn(async () => undefined);
+    const sink = createAnalyticsSecuritySink(() => ({ track }) as unknown as AnalyticsAPI);
+    await sink.send(event({ details: `Blocked ${'0x' + 'ab'.repeat(32)}`, metadata: { origin: 'https://evil.example' } }));
+
+    expect(track).toHaveBeenCalledWith('Security Event', { type: 'rate_limit', severity: 'info', details: 'Blocked [redacted]' });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { formatSignInMessage, parseSignInMessage, verifySignIn } from '../sign-in';
+import { buildFullMessage } from '../verify';
+import { deriveAddress } from '../crypto';
+import { SecureMovementSDK } from '../sdk';
+import { createMockMovementSDK } from '../mock';
+import { ReplayError, ValidationError } from '../errors';
+import type { SignInMessage, SignMessageResult } from '../types';
+import { createTestKey, type TestKey } from './helpers';
+
+const key = createTestKey();
+const address = deriveAddress(key.publicKey);
+
+const fieldsFor = (overrides: Partial<SignInMessage> = {}): SignInMessage => ({
+  domain: 'app.example.com',
+  address,
+  statement: 'Sign in to Example',
+  uri: 'https://app.example.com/login',
+  version: '1',
+  chainId: 126,
+  nonce: 'k8Jd92hQpL3mZx7Tb',
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expirationTime: '2026-01-01T00:10:00.000Z',
+  ...overrides,
+});
+
+const signWith = (signer: TestKey, message: string, nonce: string): SignMessageResult => {
+  const fullMessage = buildFullMessage({ message, nonce });
+  return { signature: signer.sign(fullMessage), publicKey: signer.publicKey, fullMessage };
+};
+
+const signIn = (overrides: Partial<SignInMessage> = {}, signer = key) => {
+  const fields = fieldsFor(overrides);
+  const message = formatSignInMessage(fields);
+  return { message, result: signWith(signer, message, fields.nonce) };
+};
+
+const now = new Date('2026-01-01T00:05:00.000Z');
+
+describe('sign-in messages', () => {
+  it('round-trips through format and parse', () => {
+    const fields = fieldsFor({ notBefore: '2026-01-01T00:00:00.000Z', requestId: 'r1', resources: ['https://a', 'ipfs://b'] });
+    const message = formatSignInMessage(fields);
+    expect(message.split('\n')[0]).toBe('app.example.com wants you to sign in with your Movement account:');
+    expect(parseSignInMessage(message)).toEqual(fields);
+
+    const { statement: _, ...withoutStatement } = fields;
+    expect(parseSignInMessage(formatSignInMessage(withoutStatement))).toEqual(withoutStatement);
+  });
+
+  it('rejects line breaks and non sign-in text', () => {
+    expect(() => formatSignInMessage(fieldsFor({ statement: 'a\nURI: https://evil' }))).toThrow(ValidationError);
+    expect(parseSignInMessage('Hello')).toBeNull();
+    expect(parseSignInMessage(formatSignInMessage(fieldsFor()).replace(/\nNonce: .*/, ''))).toBeNull();
+  });
+});
+
+describe('verifySignIn', () => {
+  it('accepts a valid sign-in', async () => {
+    const { message, result } = signIn();
+    const verification = await verifySignIn(message, result, {
+      domain: 'app.example.com',
+      nonce: 'k8Jd92hQpL3mZx7Tb',
+      address,
+      now,
+    });
+    expect(verification).toMatchObject({ valid: true, address });
+    expect(verification.fields?.nonce).toBe('k8Jd92hQpL3mZx7Tb');
+  });
+
+  it('rejects the wrong domain, nonce or address', async () => {
+    const { message, result } = signIn();
+    expect((await verifySignIn(message, result, { domain: 'evil.example.com', now })).error)
+      .toBe('Sign-in is for app.example.com, expected evil.example.com');
+    expect((await verifySignIn(message, result, { nonce: 'other', now })).error).toBe('Nonce mismatch');
+    expect((await verifySignIn(message, result, { address: '0x2', now })).error).toBe('Unexpected address');
+  });
+
+  it('checks the time window', async () => {
+    const { message, result } = signIn({ notBefore: '2026-01-01T00:01:00.000Z' });
+    expect((await verifySignIn(message, result, { now: new Date('2026-01-01T00:10:00.000Z') })).error)
+      .toBe('Sign-in has expired');
+    expect((await verifySignIn(message, result, { now: new Date('2026-01-01T00:00:30.000Z') })).error)
+      .toBe('Sign-in is not valid yet');
+
+    const malformed = signIn({ expirationTime: 'tomorrow' });
+    expect((await verifySignIn(malformed.message, malformed.result, { now })).error).toBe('Malformed timestamp');
+  });
+
+  it('rejects tampered messages and signatures', async () => {
+    const { message, result } = signIn();
+    const flipped = result.signature.slice(0, -1) + (result.signature.endsWith('0') ? '1' : '0');
+    expect((await verifySignIn(message, { ...result, signature: flipped }, { now })).valid).toBe(false);
+
+    const edited = message.replace('Sign in to Example', 'Sign in to Evil');
+    expect((await verifySignIn(edited, result, { now })).error).toBe('Signed message does not match the message and nonce');
+    expect((await verifySignIn(edited, { ...result, fullMessage: undefined }, { now })).error).toBe('Invalid signature');
+  });
+
+  it('rejects a signer that does not own the claimed address', async () => {
+    const { message, result } = signIn({}, createTestKey());
+    expect((await verifySignIn(message, result, { now })).error).toBe('Signer does not match the expected address');
+  });
+});
+
+describe('SecureMovementSDK.signIn', () => {
+  const setup = () => {
+    const mock = createMockMovementSDK({ install: false });
+    const sdk = new SecureMovementSDK(mock.sdk, { enableCSP: false, strictMode: false, persistNonces: false });
+    return { sdk };
+  };
+  const site = { domain: 'app.example.com', uri: 'https://app.example.com/login' };
+
+  it('signs a message that verifySignIn accepts', async () => {
+    const { sdk } = setup();
+    const signed = await sdk.signIn({ ...site, statement: 'Sign in to Example' });
+    const verification = await verifySignIn(signed.message, signed, { domain: 'app.example.com', nonce: signed.fields.nonce });
+    expect(verification).toMatchObject({ valid: true, address: signed.address });
+  });
+
+  it('accepts a backend nonce once', async () => {
+    const { sdk } = setup();
+    const signed = await sdk.signIn({ ...site, nonce: 'k8Jd92hQpL3mZx7Tb' });
+    expect(signed.fields.nonce).toBe('k8Jd92hQpL3mZx7Tb');
+    await expect(sdk.signIn({ ...site, nonce: 'k8Jd92hQpL3mZx7Tb' })).rejects.toBeInstanceOf(ReplayError);
+    await expect(sdk.signIn({ ...site, nonce: '' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('shares the nonce policy with signMessage', async () => {
+    const { sdk } = setup();
+    const nonce = '0b6c9f6e-3f43-4c1e-9d58-2a5d1f0e7c11';
+    await expect(sdk.signMessage({ message: 'hello', nonce })).resolves.toHaveProperty('signature');
+    await expect(sdk.signMessage({ message: 'hello', nonce })).rejects.toBeInstanceOf(ReplayError);
+    await expect(sdk.signIn({ ...site, nonce })).rejects.toBeInstanceOf(ReplayError);
+
+    const payload = { message: 'hello' };
+    await sdk.signMessage(payload);
+    expect(payload).toHaveProperty('nonce', expect.stringMatching(/^\d+-[0-9a-f]{32}$/));
+  });
+});
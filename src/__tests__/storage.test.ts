@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createStore } from '../storage';
+import { createMockMovementSDK } from '../mock';
+import { HostError, QuotaExceededError, ValidationError } from '../errors';
+
+interface Settings {
+  theme: 'light' | 'dark';
+}
+
+const isSettings = (value: unknown): value is Settings =>
+  typeof value === 'object' && value !== null && ['light', 'dark'].includes((value as Settings).theme);
+
+const setup = (quota?: number) => {
+  const mock = createMockMovementSDK({ install: false });
+  const store = createStore<Settings>({ namespace: 'settings', schema: isSettings, quota, sdk: mock.sdk });
+  return { mock, store };
+};
+
+describe('TypedStore', () => {
+  it('validates, namespaces and migrates values', async () => {
+    const { mock, store } = setup();
+    await store.set('main', { theme: 'dark' });
+    expect(await mock.sdk.storage!.get('settings:main')).toBe('{"v":1,"d":{"theme":"dark"}}');
+    expect(await store.get('main')).toEqual({ theme: 'dark' });
+    await expect(store.set('main', { theme: 'blue' } as unknown as Settings)).rejects.toBeInstanceOf(ValidationError);
+
+    const v2 = createStore<Settings>({
+      namespace: 'settings',
+      version: 2,
+      sdk: mock.sdk,
+      migrate: old => ({ theme: (old as { dark: boolean }).dark ? 'dark' : 'light' }),
+    });
+    await mock.sdk.storage!.set('settings:old', '{"v":1,"d":{"dark":true}}');
+    expect(await v2.get('old')).toEqual({ theme: 'dark' });
+    expect(await mock.sdk.storage!.get('settings:old')).toBe('{"v":2,"d":{"theme":"dark"}}');
+  });
+
+  it('enforces the item quota across namespaces', async () => {
+    const { mock, store } = setup(2);
+    await mock.sdk.storage!.set('other:key', 'x');
+    await store.set('a', { theme: 'dark' });
+
+    await expect(store.set('b', { theme: 'dark' })).rejects.toBeInstanceOf(QuotaExceededError);
+    await store.set('a', { theme: 'light' });
+    expect(await store.usage()).toEqual({ used: 2, quota: 2 });
+  });
+
+  it('rolls back the snapshot and key count when a write fails', async () => {
+    const { mock, store } = setup(10);
+    await store.set('main', { theme: 'light' });
+
+    mock.failNext('storage.set', new DOMException('The quota has been exceeded', 'QuotaExceededError'));
+    await expect(store.set('new', { theme: 'dark' })).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(store.getSnapshot('new')).toMatchObject({ value: undefined, isLoaded: false });
+    expect((await store.usage()).used).toBe(1);
+
+    mock.failNext('storage.set', new Error('Disk quota report unavailable'));
+    await expect(store.set('main', { theme: 'dark' })).rejects.toBeInstanceOf(HostError);
+    expect(store.getSnapshot('main').value).toEqual({ theme: 'light' });
+  });
+
+  it('fails only the keys whose write failed in a batch', async () => {
+    const { mock, store } = setup();
+    mock.failNext('storage.set', new Error('write failed'));
+    const results = await Promise.allSettled([store.set('a', { theme: 'dark' }), store.set('b', { theme: 'dark' })]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+    expect(store.getSnapshot('a').value).toBeUndefined();
+    expect(await store.get('b')).toEqual({ theme: 'dark' });
+  });
+
+  it('maps CloudStorage quota errors', async () => {
+    const mock = createMockMovementSDK({ install: false });
+    for (let i = 0; i < 1024; i++) await mock.sdk.CloudStorage!.setItem(`other:${i}`, 'x');
+    const store = createStore<Settings>({ namespace: 'settings', backend: 'cloud', quota: Infinity, sdk: mock.sdk });
+    await expect(store.set('main', { theme: 'dark' })).rejects.toBeInstanceOf(QuotaExceededError);
+  });
+});
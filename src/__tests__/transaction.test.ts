@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { trackTransaction } from '../transaction';
+import { TimeoutError, UserRejectedError } from '../errors';
+import type { TransactionStatus, TransactionStatusCallback } from '../types';
+
+const status = (value: TransactionStatus['status']): TransactionStatus => ({ hash: '0xabc', status: value });
+
+describe('trackTransaction', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('follows host push updates to a final status', async () => {
+    let push: TransactionStatusCallback = () => undefined;
+    const unsubscribe = vi.fn();
+    const seen: string[] = [];
+    const result = trackTransaction({
+      waitForTransaction: vi.fn(),
+      onTransactionUpdate: (_, callback) => {
+        push = callback;
+        return unsubscribe;
+      },
+    }, '0xabc', { onStatus: update => seen.push(update.status) });
+
+    push(status('pending'));
+    push(status('failed'));
+    push(status('success'));
+    expect(await result).toEqual(status('failed'));
+    expect(seen).toEqual(['pending', 'failed']);
+    expect(unsubscribe).toHaveBeenCalledOnce();
+  });
+
+  it('polls waitForTransaction and retries transient errors', async () => {
+    const waitForTransaction = vi.fn()
+      .mockRejectedValueOnce(new Error('Transaction not found'))
+      .mockResolvedValueOnce(status('pending'))
+      .mockResolvedValueOnce(status('success'));
+    const result = trackTransaction({ waitForTransaction }, '0xabc', { pollInterval: 100 });
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(await result).toEqual(status('success'));
+    expect(waitForTransaction).toHaveBeenCalledTimes(3);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('stops on user rejection, timeout and abort', async () => {
+    const rejected = trackTransaction({ waitForTransaction: vi.fn().mockRejectedValue({ code: 4001, message: 'no' }) }, '0xabc');
+    await expect(rejected).rejects.toBeInstanceOf(UserRejectedError);
+
+    const pending = vi.fn().mockResolvedValue(status('pending'));
+    const timedOut = trackTransaction({ waitForTransaction: pending }, '0xabc', { timeout: 500, pollInterval: 100 });
+    const timedOutError = timedOut.catch(error => error);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(await timedOutError).toBeInstanceOf(TimeoutError);
+
+    const controller = new AbortController();
+    const aborted = trackTransaction({ waitForTransaction: pending }, '0xabc', { signal: controller.signal });
+    controller.abort(new Error('unmounted'));
+    await expect(aborted).rejects.toThrow('unmounted');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildFullMessage, getSignatureScheme, verifySignedMessage } from '../verify';
+import { deriveAddress, MULTI_ED25519_SCHEME } from '../crypto';
+import { createMultiKey, createTestKey } from './helpers';
+
+const message = 'Link my account';
+const nonce = 'b7c1f0e2';
+
+describe('buildFullMessage', () => {
+  it('puts the optional lines between APTOS and the message', () => {
+    expect(buildFullMessage({ message, nonce })).toBe(`APTOS\nmessage: ${message}\nnonce: ${nonce}`);
+    expect(buildFullMessage({ message, nonce, address: '0x1', application: 'app.example.com', chainId: 250 }))
+      .toBe(`APTOS\naddress: 0x1\napplication: app.example.com\nchainId: 250\nmessage: ${message}\nnonce: ${nonce}`);
+  });
+
+  it('tells signature schemes apart by key length', () => {
+    expect(getSignatureScheme('0x' + '11'.repeat(32))).toBe('ed25519');
+    expect(getSignatureScheme('0x' + '11'.repeat(65))).toBe('multi_ed25519');
+    expect(getSignatureScheme('0x' + '11'.repeat(40))).toBeNull();
+  });
+});
+
+describe('verifySignedMessage', () => {
+  const key = createTestKey();
+  const address = deriveAddress(key.publicKey);
+  const signed = (fullMessage = buildFullMessage({ message, nonce })) => ({
+    fullMessage,
+    publicKey: key.publicKey,
+    signature: key.sign(fullMessage),
+  });
+
+  it('accepts an Ed25519 signature and derives the signer', async () => {
+    expect(await verifySignedMessage({ message, nonce, result: signed(), expectedAddress: address }))
+      .toMatchObject({ valid: true, address, scheme: 'ed25519' });
+  });
+
+  it('accepts wallet-added lines that name the signer', async () => {
+    const fullMessage = buildFullMessage({ message, nonce, address, chainId: 250 });
+    expect((await verifySignedMessage({ message, nonce, result: signed(fullMessage) })).valid).toBe(true);
+
+    const other = buildFullMessage({ message, nonce, address: '0x2' });
+    expect(await verifySignedMessage({ message, nonce, result: signed(other) }))
+      .toMatchObject({ valid: false, error: 'Signed message names a different address' });
+  });
+
+  it('rejects another message, nonce, signer or a bad signature', async () => {
+    const result = signed();
+    expect((await verifySignedMessage({ message: 'Send funds', nonce, result })).valid).toBe(false);
+    expect((await verifySignedMessage({ message, nonce: 'other', result })).valid).toBe(false);
+    expect(await verifySignedMessage({ message, nonce, result, expectedAddress: '0x2' }))
+      .toMatchObject({ valid: false, error: 'Signer does not match the expected address' });
+
+    const forged = { ...result, signature: createTestKey().sign(result.fullMessage) };
+    expect(await verifySignedMessage({ message, nonce, result: forged })).toMatchObject({ valid: false, error: 'Invalid signature' });
+    expect(await verifySignedMessage({ message, nonce, result: { ...result, publicKey: '0x1234' } }))
+      .toMatchObject({ valid: false, error: 'Unsupported public key' });
+    expect(await verifySignedMessage({ message, nonce, result: { ...result, signature: '0xzz' } }))
+      .toMatchObject({ valid: false, error: 'Malformed public key or signature' });
+  });
+
+  it('accepts a MultiEd25519 signature that meets the threshold', async () => {
+    const keys = [createTestKey(), createTestKey(), createTestKey()];
+    const multi = createMultiKey(keys, 2);
+    const fullMessage = buildFullMessage({ message, nonce });
+
+    const result = { fullMessage, publicKey: multi.publicKey, signature: multi.sign(fullMessage, [0, 2]) };
+    expect(await verifySignedMessage({ message, nonce, result })).toMatchObject({
+      valid: true,
+      scheme: 'multi_ed25519',
+      address: deriveAddress(multi.publicKey, MULTI_ED25519_SCHEME),
+    });
+
+    const short = { ...result, signature: multi.sign(fullMessage, [1]) };
+    expect((await verifySignedMessage({ message, nonce, result: short })).valid).toBe(false);
+  });
+});
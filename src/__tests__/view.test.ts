@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createViewQueryClient, getViewQueryKey } from '../view';
+import { createMockMovementSDK, type MockMovementSDK } from '../mock';
+import type { ViewPayload } from '../types';
+
+const supply: ViewPayload = { function: '0x1::coin::supply', type_arguments: [], function_arguments: [] };
+
+describe('ViewQueryClient', () => {
+  let mock: MockMovementSDK;
+  let answer: number;
+
+  beforeEach(() => {
+    answer = 0;
+    mock = createMockMovementSDK({
+      install: false,
+      viewResponses: { '0x1::coin::supply': () => [String(++answer)] },
+    });
+  });
+
+  afterEach(() => {
+    mock.uninstall();
+    vi.useRealTimers();
+  });
+
+  it('keys queries by network and arguments', () => {
+    expect(getViewQueryKey(supply, 'mainnet')).not.toBe(getViewQueryKey(supply, 'testnet'));
+    expect(getViewQueryKey({ ...supply, function_arguments: [1n] })).toBe(getViewQueryKey({ ...supply, function_arguments: ['1'] }));
+  });
+
+  it('deduplicates concurrent requests and serves fresh results from cache', async () => {
+    const views = createViewQueryClient(mock.sdk);
+    const [a, b] = await Promise.all([views.fetch(supply), views.fetch(supply)]);
+    expect(a).toEqual(['1']);
+    expect(b).toBe(a);
+    expect(await views.fetch(supply)).toEqual(['1']);
+    expect(await views.fetch(supply, { force: true })).toEqual(['2']);
+    expect(mock.getCalls('view')).toHaveLength(2);
+    views.destroy();
+  });
+
+  it('never serves results from another network', async () => {
+    const views = createViewQueryClient(mock.sdk);
+    const listener = vi.fn();
+    views.subscribe(supply, listener);
+    await views.fetch(supply);
+    expect(views.getSnapshot(supply).data).toEqual(['1']);
+
+    mock.setNetwork('mainnet');
+    expect(listener).toHaveBeenCalled();
+    expect(views.getSnapshot(supply).data).toBeUndefined();
+    expect(await views.fetch(supply)).toEqual(['2']);
+    views.destroy();
+  });
+
+  it('refetches queries in use after a confirmed transaction', async () => {
+    const views = createViewQueryClient(mock.sdk);
+    views.subscribe(supply, () => undefined);
+    await views.fetch(supply);
+
+    mock.emit('transactionConfirmed', { hash: '0x1', sender: mock.sdk.address ?? null });
+    await vi.waitFor(() => expect(views.getSnapshot(supply)).toMatchObject({ data: ['2'], isStale: false }));
+    views.destroy();
+  });
+
+  it('drops entries without subscribers after gcTime', async () => {
+    vi.useFakeTimers();
+    const views = createViewQueryClient(mock.sdk, { gcTime: 1000 });
+    const unsubscribe = views.subscribe(supply, () => undefined);
+    await views.fetch(supply);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(views.getSnapshot(supply).data).toEqual(['1']);
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(views.getSnapshot(supply).data).toEqual(['1']);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(views.getSnapshot(supply).data).toBeUndefined();
+    views.destroy();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Move module ABI
+ * ABI JSON types (as returned by `/accounts/{address}/module/{name}`) and the
+ * runtime helpers used by generated bindings
+ */
+
+import { parseMoveType, isMoveOption, isMoveObject, isMoveString, encodeHex, type MoveType } from './move-types';
+
+// ============================================================================
+// ABI JSON
+// ============================================================================
+
+export interface MoveFunctionGenericTypeParam {
+  constraints: string[];
+}
+
+export interface MoveFunctionABI {
+  name: string;
+  visibility: 'public' | 'private' | 'friend';
+  is_entry: boolean;
+  is_view: boolean;
+  generic_type_params: MoveFunctionGenericTypeParam[];
+  params: string[];
+  return: string[];
+}
+
+export interface MoveStructABI {
+  name: string;
+  is_native: boolean;
+  abilities: string[];
+  generic_type_params: { constraints: string[] }[];
+  fields: { name: string; type: string }[];
+}
+
+export interface MoveModuleABI {
+  address: string;
+  name: string;
+  friends: string[];
+  exposed_functions: MoveFunctionABI[];
+  structs: MoveStructABI[];
+}
+
+/**
+ * REST response for a single module (`{ bytecode, abi }`)
+ */
+export interface MoveModuleResponse {
+  bytecode?: string;
+  abi?: MoveModuleABI;
+}
+
+// ============================================================================
+// Runtime Helpers
+// ============================================================================
+
+/**
+ * Convert a typed argument into the JSON form the host expects
+ * (bigint -> decimal string, Uint8Array -> hex string, applied recursively)
+ */
+export function encodeMoveArgument(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) return encodeHex(value);
+  if (Array.isArray(value)) return value.map(encodeMoveArgument);
+  return value;
+}
+
+function decode(type: MoveType, value: unknown): unknown {
+  switch (type.kind) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return Number(value);
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      return BigInt(value as string | number);
+    case 'bool':
+      return value === true || value === 'true';
+    case 'vector':
+      // vector<u8> is returned as a hex string
+      return type.element.kind === 'u8' && typeof value === 'string'
+        ? value
+        : (value as unknown[]).map(item => decode(type.element, item));
+    case 'reference':
+      return decode(type.type, value);
+    case 'struct':
+      if (isMoveString(type)) return String(value);
+      if (isMoveOption(type)) {
+        const vec = (value as { vec?: unknown[] } | null)?.vec ?? [];
+        return vec.length > 0 ? decode(type.typeArgs[0], vec[0]) : null;
+      }
+      if (isMoveObject(type)) return typeof value === 'string' ? value : (value as { inner?: string } | null)?.inner;
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert a JSON value returned by view() into its typed form
+ * (u64+ -> bigint, Option -> value | null, Object -> address string)
+ */
+export function decodeMoveValue(type: string | MoveType, value: unknown): unknown {
+  return decode(typeof type === 'string' ? parseMoveType(type) : type, value);
+}
@@ -0,0 +1,544 @@
+/**
+ * Host bridge adapter
+ * Detects which generation of `window.movementSDK` the wallet injected and
+ * adapts it to the stable MovementSDK interface from ./types
+ */
+
+import type {
+  MovementSDK,
+  MovementAccount,
+  TransactionPayload,
+  TransactionStatus,
+  ViewPayload,
+  HapticOptions,
+  NotificationOptions,
+  PopupOptions,
+  PopupResult,
+  MovementSDKEventMap,
+} from './types';
+import { NotConnectedError, UnsupportedError } from './errors';
+import { TypedEventEmitter } from './events';
+
+// ============================================================================
+// Legacy Host Contract (movement-sdk.d.ts)
+// ============================================================================
+
+interface LegacyButtonAPI {
+  setText(text: string): void;
+  show(): void;
+  hide(): void;
+  onClick(callback: () => void): void;
+}
+
+export interface LegacyUserInfo {
+  isConnected: boolean;
+  address: string | null;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+/**
+ * Bridge shape injected by older wallet builds, as described in movement-sdk.d.ts
+ */
+export interface LegacyMovementHost {
+  isConnected: boolean;
+  address: string | null;
+  network: string;
+  version?: string;
+  connect(): Promise<{ address: string; publicKey: string }>;
+  sendTransaction?(params: TransactionPayload): Promise<{ hash: string; success: boolean; version?: string }>;
+  signTransaction?(params: TransactionPayload): Promise<{ hash: string; success: boolean; version?: string }>;
+  getUserInfo(): Promise<LegacyUserInfo>;
+  getBalance(): Promise<string>;
+  waitForTransaction(txHash: string): Promise<{ status: string; hash: string; version?: string; error?: string }>;
+  scanQRCode?(): Promise<string>;
+  haptic?(options: HapticOptions): Promise<void>;
+  notify?(options: NotificationOptions): Promise<void>;
+  callViewFunction?(params: { function: string; type_arguments?: string[]; arguments?: unknown[] }): Promise<unknown>;
+  showPopup?(options: PopupOptions): Promise<PopupResult>;
+  showAlert?(message: string): Promise<void>;
+  showConfirm?(message: string, okText?: string, cancelText?: string): Promise<boolean>;
+  MainButton?: LegacyButtonAPI;
+  SecondaryButton?: LegacyButtonAPI;
+  BackButton?: LegacyButtonAPI;
+  CloudStorage?: MovementSDK['CloudStorage'];
+  Clipboard?: {
+    writeText(text: string): Promise<void>;
+    readText(): Promise<string>;
+  };
+  onWalletChange?(callback: (walletInfo: LegacyUserInfo) => void): void;
+}
+
+/**
+ * Aptos wallet adapter injected next to legacy bridges as `window.aptos`
+ */
+export interface LegacyAptosWalletAdapter {
+  account(): Promise<{ address: string; publicKey: string } | null>;
+  network(): Promise<{ name: string; chainId: string; url: string }>;
+  onAccountChange(callback: (account: { address: string; publicKey: string } | null) => void): () => void;
+  onBalanceChange(callback: (balance: unknown) => void): () => void;
+}
+
+export type HostBridge = MovementSDK | LegacyMovementHost;
+
+/**
+ * What adaptHostSDK returns: the stable interface, with events always available
+ */
+export type AdaptedHostSDK = MovementSDK & Required<Pick<MovementSDK, 'on'>>;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+export interface HostBridgeInfo {
+  /** Version reported by the bridge, or 'legacy' / 'unknown' when it reports none */
+  version: string;
+  /** 'current' matches ./types, 'legacy' matches movement-sdk.d.ts */
+  shape: 'current' | 'legacy';
+  /** Top-level members present on the bridge */
+  members: string[];
+}
+
+const LEGACY_MARKERS = ['getUserInfo', 'callViewFunction', 'signTransaction', 'Clipboard'];
+const CURRENT_MARKERS = ['view', 'getContext', 'clipboard', 'isInstalled'];
+
+function membersOf(host: object): string[] {
+  const members = new Set<string>();
+  for (let obj: object | null = host; obj && obj !== Object.prototype; obj = Object.getPrototypeOf(obj)) {
+    for (const key of Object.getOwnPropertyNames(obj)) {
+      if (key !== 'constructor') members.add(key);
+    }
+  }
+  return Array.from(members);
+}
+
+/**
+ * Inspect a host bridge and report its generation and version
+ */
+export function detectHostBridge(host: HostBridge): HostBridgeInfo {
+  const members = membersOf(host);
+  const field = (key: string): unknown => Reflect.get(host, key);
+  const has = (key: string) => members.includes(key) && field(key) != null;
+
+  const isLegacy = !CURRENT_MARKERS.some(has) && LEGACY_MARKERS.some(has);
+  const reported = field('version') ?? field('sdkVersion');
+
+  return {
+    version: typeof reported === 'string' && reported ? reported : isLegacy ? 'legacy' : 'unknown',
+    shape: isLegacy ? 'legacy' : 'current',
+    members,
+  };
+}
+
+/**
+ * Whether a bridge is present and reports itself as installed.
+ * Legacy bridges have no isInstalled() and are installed by being present.
+ */
+export function isHostInstalled(host: HostBridge | undefined): host is HostBridge {
+  if (!host) return false;
+  const isInstalled = (host as MovementSDK).isInstalled;
+  return typeof isInstalled === 'function' ? isInstalled.call(host) === true : true;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+interface HostState {
+  connected: boolean;
+  address: string | null;
+  network: string | null;
+}
+
+function legacyAptos(): LegacyAptosWalletAdapter | undefined {
+  return typeof window !== 'undefined'
+    ? (window as Window & { aptos?: LegacyAptosWalletAdapter }).aptos
+    : undefined;
+}
+
+/**
+ * One event hub per host bridge. Wires whatever change notifications the
+ * bridge offers (on(), onWalletChange, window.aptos listeners) and falls back
+ * to diffing bridge state on sync() and when the page becomes visible again.
+ */
+class HostEventHub {
+  readonly emitter = new TypedEventEmitter<MovementSDKEventMap>();
+  private state: HostState;
+  private disposers: Array<() => void> = [];
+
+  constructor(private host: HostBridge) {
+    this.state = this.read();
+    this.wire();
+  }
+
+  private read(): HostState {
+    return {
+      connected: !!this.host.isConnected,
+      address: this.host.address || null,
+      network: this.host.network || null,
+    };
+  }
+
+  private account(address: string | null | undefined, publicKey?: string) {
+    if (address) {
+      this.state = { ...this.state, connected: true, address };
+      this.emitter.emit('accountChanged', { address, publicKey });
+    } else if (this.state.connected) {
+      this.state = { ...this.state, connected: false, address: null };
+      this.emitter.emit('disconnected', undefined);
+    }
+  }
+
+  private wire() {
+    const host = this.host as MovementSDK & LegacyMovementHost;
+
+    // Unsubscribers returned by the host; legacy onWalletChange returns none
+    const track = (off: unknown) => {
+      if (typeof off === 'function') this.disposers.push(() => off());
+    };
+
+    if (typeof host.on === 'function') {
+      track(host.on('accountChanged', ({ address, publicKey }) => this.account(address, publicKey)));
+      track(host.on('disconnected', () => this.account(null)));
+      track(host.on('networkChanged', payload => {
+        this.state = { ...this.state, network: payload.network };
+        this.emitter.emit('networkChanged', payload);
+      }));
+      track(host.on('balanceChanged', payload => this.emitter.emit('balanceChanged', payload)));
+      track(host.on('themeChanged', payload => this.emitter.emit('themeChanged', payload)));
+    } else if (typeof host.onWalletChange === 'function') {
+      host.onWalletChange(info => this.account(info.isConnected ? info.address : null));
+    }
+
+    const aptos = legacyAptos();
+    if (aptos && typeof host.on !== 'function') {
+      track(aptos.onAccountChange?.(account => this.account(account?.address, account?.publicKey)));
+      track(aptos.onBalanceChange?.(balance => {
+        if (this.state.address) {
+          this.emitter.emit('balanceChanged', { address: this.state.address, balance: String(balance) });
+        }
+      }));
+    }
+
+    if (typeof document !== 'undefined') {
+      const onVisibility = () => {
+        if (document.visibilityState === 'visible') this.sync();
+      };
+      document.addEventListener('visibilitychange', onVisibility);
+      this.disposers.push(() => document.removeEventListener('visibilitychange', onVisibility));
+    }
+
+    if (typeof window !== 'undefined' && typeof window.matchMedia === 'function' && typeof host.on !== 'function') {
+      const getTheme = (host as MovementSDK).getTheme;
+      const query = window.matchMedia('(prefers-color-scheme: dark)');
+      const onSchemeChange = () => {
+        if (typeof getTheme === 'function') {
+          getTheme.call(host)
+            .then(theme => this.emitter.emit('themeChanged', theme))
+            .catch(() => undefined);
+        }
+      };
+      query.addEventListener?.('change', onSchemeChange);
+      this.disposers.push(() => query.removeEventListener?.('change', onSchemeChange));
+    }
+  }
+
+  /**
+   * Remove every listener the hub added to the host, document and window
+   */
+  dispose() {
+    for (const dispose of this.disposers.splice(0)) {
+      dispose();
+    }
+    this.emitter.removeAllListeners();
+  }
+
+  /**
+   * Compare bridge state with the last known state and emit any differences
+   */
+  sync() {
+    const next = this.read();
+    const prev = this.state;
+
+    if (next.connected && next.address && next.address !== prev.address) {
+      this.account(next.address);
+    } else if (!next.connected && prev.connected) {
+      this.account(null);
+    }
+
+    if (next.network && next.network !== prev.network) {
+      this.state = { ...this.state, network: next.network };
+      this.emitter.emit('networkChanged', { network: next.network });
+    }
+  }
+}
+
+const hubs = new WeakMap<object, HostEventHub>();
+
+function hubFor(host: HostBridge): HostEventHub {
+  let hub = hubs.get(host);
+  if (!hub) {
+    hub = new HostEventHub(host);
+    hubs.set(host, hub);
+  }
+  return hub;
+}
+
+/**
+ * Event emitter shared by every adapter of a host bridge
+ */
+export function getHostEvents(host: HostBridge): TypedEventEmitter<MovementSDKEventMap> {
+  return hubFor(host).emitter;
+}
+
+/**
+ * Stop listening for a host bridge's changes (e.g. when a test or an embedding
+ * page removes the bridge). Adapters created afterwards start a fresh hub.
+ */
+export function disposeHostEvents(host: HostBridge): void {
+  hubs.get(host)?.dispose();
+  hubs.delete(host);
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+function unsupported(method: string, info: HostBridgeInfo) {
+  return () => Promise.reject(new UnsupportedError(method, info.version));
+}
+
+type RequiredMethod =
+  | 'ready'
+  | 'connect'
+  | 'getAccount'
+  | 'getBalance'
+  | 'getContext'
+  | 'getTheme'
+  | 'sendTransaction'
+  | 'sendMultiAgentTransaction'
+  | 'sendFeePayerTransaction'
+  | 'sendBatchTransactions'
+  | 'sendScriptTransaction'
+  | 'view'
+  | 'signMessage'
+  | 'waitForTransaction';
+
+// Call a required method of the current interface, stubbed when a build lacks it
+function forward<K extends RequiredMethod>(host: MovementSDK, method: K, info: HostBridgeInfo): MovementSDK[K] {
+  const fn: unknown = host[method];
+  return (typeof fn === 'function'
+    ? (...args: unknown[]) => fn.apply(host, args)
+    : unsupported(method, info)) as MovementSDK[K];
+}
+
+// Optional members passed through as-is (read live, so late injection is visible)
+const OPTIONAL_MEMBERS = [
+  'scanQRCode',
+  'simulateTransaction',
+  'onTransactionUpdate',
+  'haptic',
+  'notify',
+  'share',
+  'openUrl',
+  'close',
+  'storage',
+  'camera',
+  'location',
+  'biometric',
+  'clipboard',
+  'showPopup',
+  'showAlert',
+  'showConfirm',
+  'MainButton',
+  'SecondaryButton',
+  'BackButton',
+  'CloudStorage',
+  'analytics',
+] as const satisfies ReadonlyArray<keyof MovementSDK>;
+
+function adaptCurrent(host: MovementSDK, info: HostBridgeInfo): AdaptedHostSDK {
+  const hub = hubFor(host);
+  const ready = forward(host, 'ready', info);
+  const connect = forward(host, 'connect', info);
+
+  const adapted: AdaptedHostSDK = {
+    get isConnected() {
+      return host.isConnected;
+    },
+    get address() {
+      return host.address;
+    },
+    get network() {
+      return host.network;
+    },
+    isInstalled: () => isHostInstalled(host),
+
+    // Connecting or becoming ready may change the account; let listeners know
+    ready: async () => {
+      const result = await ready();
+      hub.sync();
+      return result;
+    },
+    connect: async () => {
+      const result = await connect();
+      hub.sync();
+      return result;
+    },
+
+    getAccount: forward(host, 'getAccount', info),
+    getBalance: forward(host, 'getBalance', info),
+    getContext: forward(host, 'getContext', info),
+    getTheme: forward(host, 'getTheme', info),
+    sendTransaction: forward(host, 'sendTransaction', info),
+    sendMultiAgentTransaction: forward(host, 'sendMultiAgentTransaction', info),
+    sendFeePayerTransaction: forward(host, 'sendFeePayerTransaction', info),
+    sendBatchTransactions: forward(host, 'sendBatchTransactions', info),
+    sendScriptTransaction: forward(host, 'sendScriptTransaction', info),
+    view: forward(host, 'view', info),
+    signMessage: forward(host, 'signMessage', info),
+    waitForTransaction: forward(host, 'waitForTransaction', info),
+
+    on: hub.emitter.on.bind(hub.emitter),
+  };
+
+  for (const member of OPTIONAL_MEMBERS) {
+    Object.defineProperty(adapted, member, {
+      enumerable: true,
+      get: () => {
+        const value: unknown = host[member];
+        return typeof value === 'function' ? value.bind(host) : value;
+      },
+    });
+  }
+
+  return adapted;
+}
+
+function toTransactionStatus(result: { status: string; hash: string; error?: string }): TransactionStatus {
+  const status = result.status.toLowerCase();
+  return {
+    hash: result.hash,
+    status: status === 'success' || status === 'executed' || status === 'confirmed'
+      ? 'success'
+      : status === 'pending' || status === 'submitted'
+        ? 'pending'
+        : 'failed',
+    error: result.error,
+  };
+}
+
+function adaptLegacy(host: LegacyMovementHost, info: HostBridgeInfo): AdaptedHostSDK {
+  const hub = hubFor(host);
+
+  // Legacy getUserInfo() has no public key, so remember the one returned by connect()
+  let publicKey = '';
+
+  const submit = host.sendTransaction ?? host.signTransaction;
+  const clipboard = host.Clipboard;
+
+  const adapted: AdaptedHostSDK = {
+    get isConnected() {
+      return host.isConnected;
+    },
+    get address() {
+      return host.address ?? undefined;
+    },
+    get network() {
+      return host.network;
+    },
+
+    isInstalled: () => true,
+    ready: async () => true,
+
+    connect: async (): Promise<MovementAccount> => {
+      const account = await host.connect();
+      publicKey = account.publicKey;
+      hub.sync();
+      return { address: account.address, publicKey: account.publicKey };
+    },
+    getAccount: async (): Promise<MovementAccount> => {
+      const wallet = await legacyAptos()?.account();
+      if (wallet) {
+        return { address: wallet.address, publicKey: wallet.publicKey };
+      }
+      const user = await host.getUserInfo();
+      if (!user.isConnected || !user.address) {
+        throw new NotConnectedError();
+      }
+      return { address: user.address, publicKey };
+    },
+    getBalance: () => host.getBalance(),
+    getContext: unsupported('getContext', info),
+    getTheme: unsupported('getTheme', info),
+    scanQRCode: host.scanQRCode ? () => host.scanQRCode!() : undefined,
+
+    sendTransaction: submit
+      ? async payload => ({ ...(await submit.call(host, payload)) })
+      : unsupported('sendTransaction', info),
+    sendMultiAgentTransaction: unsupported('sendMultiAgentTransaction', info),
+    sendFeePayerTransaction: unsupported('sendFeePayerTransaction', info),
+    sendBatchTransactions: unsupported('sendBatchTransactions', info),
+    sendScriptTransaction: unsupported('sendScriptTransaction', info),
+
+    view: host.callViewFunction
+      ? async (payload: ViewPayload) => {
+        const result = await host.callViewFunction!({
+          function: payload.function,
+          type_arguments: payload.type_arguments ?? [],
+          arguments: payload.function_arguments ?? [],
+        });
+        return Array.isArray(result) ? result : [result];
+      }
+      : unsupported('view', info),
+
+    signMessage: unsupported('signMessage', info),
+
+    waitForTransaction: async hash => toTransactionStatus(await host.waitForTransaction(hash)),
+
+    haptic: host.haptic ? options => host.haptic!(options) : undefined,
+    notify: host.notify ? options => host.notify!(options) : undefined,
+
+    clipboard: clipboard
+      ? {
+        copy: text => clipboard.writeText(text),
+        paste: () => clipboard.readText(),
+      }
+      : undefined,
+
+    showPopup: host.showPopup ? options => host.showPopup!(options) : undefined,
+    showAlert: host.showAlert ? message => host.showAlert!(message) : undefined,
+    showConfirm: host.showConfirm
+      ? (message, okText, cancelText) => host.showConfirm!(message, okText, cancelText)
+      : undefined,
+
+    MainButton: host.MainButton,
+    SecondaryButton: host.SecondaryButton,
+    BackButton: host.BackButton,
+    CloudStorage: host.CloudStorage,
+
+    on: hub.emitter.on.bind(hub.emitter),
+  };
+
+  return adapted;
+}
+
+/**
+ * Adapt any supported host bridge generation to the stable MovementSDK API.
+ * Members the host does not implement reject with UnsupportedError.
+ */
+export function adaptHostSDK(host: HostBridge, info: HostBridgeInfo = detectHostBridge(host)): AdaptedHostSDK {
+  return info.shape === 'legacy'
+    ? adaptLegacy(host as LegacyMovementHost, info)
+    : adaptCurrent(host as MovementSDK, info);
+}
+
+/**
+ * The injected `window.movementSDK`, adapted to the current interface
+ */
+export function getHostSDK(): MovementSDK | null {
+  if (typeof window === 'undefined' || !window.movementSDK) {
+    return null;
+  }
+  return adaptHostSDK(window.movementSDK as HostBridge);
+}
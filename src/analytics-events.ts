@@ -0,0 +1,153 @@
+/**
+ * Analytics event registry
+ * Declare each event's name and property schema once; track() is then typed
+ * against the schema, and checks properties at runtime in debug mode
+ */
+
+import type { AnalyticsAPI, AnalyticsConfig, AnalyticsEventProperties } from './types';
+import { getDefaultMovementStore } from './store';
+
+/**
+ * A property's type: 'string', 'number' or 'boolean' (suffix '?' for optional),
+ * or the list of allowed string values
+ */
+export type AnalyticsPropertyType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'string?'
+  | 'number?'
+  | 'boolean?'
+  | readonly string[];
+
+export type AnalyticsEventSchema = Record<string, AnalyticsPropertyType>;
+
+export type AnalyticsEventSchemas = Record<string, AnalyticsEventSchema>;
+
+type PropertyValue<T> =
+  T extends 'string' | 'string?' ? string
+    : T extends 'number' | 'number?' ? number
+      : T extends 'boolean' | 'boolean?' ? boolean
+        : T extends readonly (infer Value)[] ? Value
+          : never;
+
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends `${string}?` ? K : never }[keyof S];
+
+type RequiredKeys<S> = Exclude<keyof S, OptionalKeys<S>>;
+
+/**
+ * Properties accepted for an event schema
+ */
+export type AnalyticsEventPropertiesOf<S extends AnalyticsEventSchema> =
+  & { [K in RequiredKeys<S>]: PropertyValue<S[K]> }
+  & { [K in OptionalKeys<S>]?: PropertyValue<S[K]> | null };
+
+// Properties may be left out when none are required
+type TrackArgs<S extends AnalyticsEventSchema> =
+  [RequiredKeys<S>] extends [never]
+    ? [properties?: AnalyticsEventPropertiesOf<S>]
+    : [properties: AnalyticsEventPropertiesOf<S>];
+
+export interface AnalyticsEventsConfig extends AnalyticsConfig {
+  /** Where events are sent (default: the shared analytics client) */
+  analytics?: AnalyticsAPI;
+}
+
+export interface AnalyticsEvents<S extends AnalyticsEventSchemas> {
+  readonly schemas: S;
+  /**
+   * Track a declared event. With `enabled: false` nothing is sent; with
+   * `debug: true` violations of the schema are logged (the event is still sent).
+   */
+  track: <E extends keyof S & string>(event: E, ...args: TrackArgs<S[E]>) => Promise<void>;
+  /**
+   * Schema violations of an event's properties (empty when valid)
+   */
+  validate: (event: string, properties?: AnalyticsEventProperties) => string[];
+  /**
+   * The same registry sending to another analytics client
+   */
+  withAnalytics: (analytics: AnalyticsAPI) => AnalyticsEvents<S>;
+}
+
+function checkProperty(name: string, type: AnalyticsPropertyType, value: unknown): string | null {
+  if (typeof type !== 'string') {
+    return typeof value === 'string' && type.includes(value)
+      ? null
+      : `"${name}" must be one of ${type.map(option => `'${option}'`).join(', ')}`;
+  }
+
+  const optional = type.endsWith('?');
+  if (value === undefined || value === null) {
+    return optional ? null : `"${name}" is required`;
+  }
+
+  const expected = optional ? type.slice(0, -1) : type;
+  if (typeof value !== expected) {
+    return `"${name}" must be a ${expected}, got ${typeof value}`;
+  }
+  if (expected === 'number' && !Number.isFinite(value)) {
+    return `"${name}" must be a finite number`;
+  }
+  return null;
+}
+
+/**
+ * Declare the app's analytics events
+ *
+ * @example
+ * ```ts
+ * export const events = defineAnalyticsEvents({
+ *   'Checkout Started': { items: 'number', coupon: 'string?' },
+ *   'Payment Method Selected': { method: ['card', 'wallet'] },
+ *   'Onboarding Finished': {},
+ * }, { debug: process.env.NODE_ENV !== 'production' });
+ *
+ * events.track('Checkout Started', { items: 3 });
+ * events.track('Checkout Started', { items: '3' });   // compile error
+ * events.track('Checkout Begun', { items: 3 });       // compile error
+ * ```
+ */
+export function defineAnalyticsEvents<const S extends AnalyticsEventSchemas>(
+  schemas: S,
+  config: AnalyticsEventsConfig = {}
+): AnalyticsEvents<S> {
+  const validate = (event: string, properties: AnalyticsEventProperties = {}): string[] => {
+    const schema = Object.prototype.hasOwnProperty.call(schemas, event) ? schemas[event] : undefined;
+    if (!schema) {
+      return [`Unknown event "${event}"`];
+    }
+
+    const violations: string[] = [];
+    for (const [name, type] of Object.entries(schema)) {
+      const violation = checkProperty(name, type, properties[name]);
+      if (violation) violations.push(violation);
+    }
+    for (const name of Object.keys(properties)) {
+      if (!(name in schema)) violations.push(`"${name}" is not declared`);
+    }
+    return violations;
+  };
+
+  const track = async <E extends keyof S & string>(event: E, ...[properties]: TrackArgs<S[E]>) => {
+    if (config.enabled === false) return;
+
+    const values = (properties ?? {}) as AnalyticsEventProperties;
+    if (config.debug) {
+      const violations = validate(event, values);
+      if (violations.length > 0) {
+        console.warn(`[Analytics] Event "${event}" does not match its schema:`, violations);
+      }
+    }
+
+    const analytics = config.analytics ?? getDefaultMovementStore().getState().analytics;
+    await analytics.track(event, values);
+  };
+
+  return {
+    schemas,
+    track,
+    validate,
+    withAnalytics: analytics => defineAnalyticsEvents(schemas, { ...config, analytics }),
+  };
+}
@@ -0,0 +1,522 @@
+/**
+ * Analytics client
+ * Buffers events in memory and in storage, enriches them with super-properties
+ * and delivers them in batches to the host's analytics and any custom sinks,
+ * retrying each sink with backoff. Events tracked before the bridge is ready,
+ * or while offline, are kept until they can be sent.
+ */
+
+import type {
+  MovementSDK,
+  AnalyticsAPI,
+  AnalyticsEventProperties,
+  AnalyticsUserProperties,
+} from './types';
+import type { OutboxStorage } from './outbox';
+import { encodeHex } from './move-types';
+import { randomBytes } from './crypto';
+
+export type AnalyticsEventType = 'track' | 'screen' | 'identify' | 'user_properties' | 'reset';
+
+export interface AnalyticsEvent {
+  id: string;
+  type: AnalyticsEventType;
+  /** Event name, screen name or user ID; unset for user_properties and reset */
+  name?: string;
+  properties: AnalyticsEventProperties;
+  timestamp: number;
+}
+
+export interface AnalyticsSink {
+  /** Unique name; delivery and retries are tracked per sink */
+  name: string;
+  /** Deliver a batch, oldest first. Rejecting retries the whole batch later. */
+  send: (events: AnalyticsEvent[]) => Promise<void>;
+  /** While false, events stay buffered for this sink (default always ready) */
+  isReady?: () => boolean;
+}
+
+export interface AnalyticsClientOptions {
+  /** Custom sinks, e.g. your own endpoint or a test recorder */
+  sinks?: AnalyticsSink[];
+  /** Also send to the host's analytics (default true) */
+  hostSink?: boolean;
+  /** Added to every event */
+  superProperties?: AnalyticsEventProperties;
+  /** Events per batch (default 20) */
+  batchSize?: number;
+  /** Delay before a partial batch is sent, in milliseconds (default 5000) */
+  flushInterval?: number;
+  /** Oldest events are dropped beyond this (default 500) */
+  maxBufferSize?: number;
+  /** Longest retry backoff, in milliseconds (default 60000) */
+  maxRetryDelay?: number;
+  /** Where the buffer is persisted (default localStorage; null keeps it in memory) */
+  storage?: OutboxStorage | null;
+  /** Storage key (default 'movement:analytics') */
+  storageKey?: string;
+}
+
+export interface AnalyticsStatus {
+  /** False once the user opted out (read from the host on attach) */
+  enabled: boolean;
+  /** Events not yet delivered to every sink */
+  pending: number;
+  /** Last delivery failure, per sink */
+  errors: Record<string, string>;
+}
+
+interface BufferedEvent extends AnalyticsEvent {
+  /** Sinks still waiting for this event */
+  pending: string[];
+}
+
+interface SinkState {
+  failures: number;
+  retryAt: number;
+}
+
+export const HOST_ANALYTICS_SINK = 'host';
+
+const DEFAULT_STORAGE_KEY = 'movement:analytics';
+const SESSION_KEY = 'movement:analytics-session';
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_BUFFER_SIZE = 500;
+const DEFAULT_MAX_RETRY_DELAY = 60000;
+const BASE_RETRY_DELAY = 1000;
+
+// Describe the user rather than the session, so they carry no super-properties
+const IDENTITY_EVENTS: AnalyticsEventType[] = ['identify', 'user_properties', 'reset'];
+
+const generateId = () => encodeHex(randomBytes(8)).slice(2);
+
+// One session per tab: survives reloads, not closing the app
+function getSessionId(): string {
+  try {
+    const stored = sessionStorage.getItem(SESSION_KEY);
+    if (stored) return stored;
+    const id = generateId();
+    sessionStorage.setItem(SESSION_KEY, id);
+    return id;
+  } catch {
+    return generateId();
+  }
+}
+
+function defaultStorage(): OutboxStorage | null {
+  if (typeof localStorage === 'undefined') return null;
+  return {
+    get: async key => localStorage.getItem(key),
+    set: async (key, value) => localStorage.setItem(key, value),
+    remove: async key => localStorage.removeItem(key),
+  };
+}
+
+/**
+ * A sink delivering to the host's analytics bridge (Mixpanel). The host has no
+ * batch call, so events are sent one by one; a failure mid-batch resends the
+ * batch, so delivery is at-least-once.
+ */
+export function createHostAnalyticsSink(getAnalytics: () => AnalyticsAPI | undefined): AnalyticsSink {
+  return {
+    name: HOST_ANALYTICS_SINK,
+    isReady: () => !!getAnalytics(),
+    send: async events => {
+      const analytics = getAnalytics();
+      if (!analytics) throw new Error('Host analytics is not available');
+
+      for (const event of events) {
+        switch (event.type) {
+          case 'track':
+            await analytics.track(event.name!, event.properties);
+            break;
+          case 'screen':
+            await analytics.trackScreen(event.name!, event.properties);
+            break;
+          case 'identify':
+            await analytics.identify(event.name!, event.properties);
+            break;
+          case 'user_properties':
+            await analytics.setUserProperties(event.properties);
+            break;
+          case 'reset':
+            await analytics.reset();
+            break;
+        }
+      }
+    },
+  };
+}
+
+export class AnalyticsClient implements AnalyticsAPI {
+  private buffer: BufferedEvent[] = [];
+  private sinks: AnalyticsSink[];
+  private sinkStates = new Map<string, SinkState>();
+  private superProperties: AnalyticsEventProperties;
+  private contextProperties: AnalyticsEventProperties = {};
+  private sessionId = getSessionId();
+  private enabled = true;
+  private sdk: MovementSDK | null = null;
+  private attached: Promise<void> | null = null;
+  private storage: OutboxStorage | null;
+  private storageKey: string;
+  private batchSize: number;
+  private flushInterval: number;
+  private maxBufferSize: number;
+  private maxRetryDelay: number;
+  private loaded: Promise<void>;
+  private storageLoaded = false;
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timerAt = Infinity;
+  private listeners = new Set<() => void>();
+  private status: AnalyticsStatus = { enabled: true, pending: 0, errors: {} };
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(options: AnalyticsClientOptions = {}) {
+    this.sinks = [
+      ...(options.hostSink === false ? [] : [createHostAnalyticsSink(() => this.sdk?.analytics)]),
+      ...(options.sinks ?? []),
+    ];
+    this.superProperties = { ...options.superProperties };
+    this.storage = options.storage === undefined ? defaultStorage() : options.storage;
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.maxBufferSize = options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE;
+    this.maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    this.loaded = this.load();
+
+    // Send what we have before the app is backgrounded or closed
+    if (typeof document !== 'undefined' && document.addEventListener) {
+      const onHide = () => {
+        if (document.visibilityState === 'hidden') {
+          this.flush().catch(() => undefined);
+        }
+      };
+      document.addEventListener('visibilitychange', onHide);
+      this.unsubscribers.push(() => document.removeEventListener('visibilitychange', onHide));
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (!this.storage) return;
+    let stored: string | null;
+    try {
+      stored = await this.storage.get(this.storageKey);
+      this.storageLoaded = true;
+    } catch {
+      // Storage unavailable: keep events in memory only, so the ones stored by an
+      // earlier session are not overwritten
+      stored = null;
+    }
+
+    try {
+      const events: BufferedEvent[] = stored ? JSON.parse(stored) : [];
+      const names = new Set(this.sinks.map(sink => sink.name));
+
+      // Sinks may have been removed since the events were stored
+      const restored = events
+        .map(event => ({ ...event, pending: event.pending.filter(name => names.has(name)) }))
+        .filter(event => event.pending.length > 0);
+      // The user may have opted out while they were read
+      if (this.enabled) {
+        this.buffer = [...restored, ...this.buffer].slice(-this.maxBufferSize);
+      }
+    } catch {
+      // A corrupt buffer is not worth failing analytics over
+    }
+    this.changed();
+    this.schedule(this.flushInterval);
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.storage || !this.storageLoaded) return;
+    try {
+      if (this.buffer.length === 0) {
+        await this.storage.remove(this.storageKey);
+      } else {
+        await this.storage.set(this.storageKey, JSON.stringify(this.buffer));
+      }
+    } catch {
+      // Storage full or unavailable: the events are still in memory
+    }
+  }
+
+  /**
+   * Connect to the SDK once it is ready: reads the opt-out status and the app
+   * context (for super-properties), then sends buffered events
+   */
+  attach(sdk: MovementSDK): Promise<void> {
+    if (this.sdk === sdk && this.attached) return this.attached;
+    this.sdk = sdk;
+    this.attached = this.initialize(sdk);
+    return this.attached;
+  }
+
+  private async initialize(sdk: MovementSDK): Promise<void> {
+    const [enabled, context] = await Promise.all([
+      sdk.analytics?.isEnabled().catch(() => true) ?? true,
+      sdk.getContext().catch(() => null),
+    ]);
+
+    if (context) {
+      this.contextProperties = {
+        app_id: context.app.id,
+        app_version: context.app.version,
+        platform: context.platform.os,
+        platform_version: context.platform.version,
+      };
+    }
+
+    await this.loaded;
+    if (!enabled) {
+      await this.disable();
+    } else {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  // ============================================================================
+  // AnalyticsAPI
+  // ============================================================================
+
+  async track(eventName: string, properties?: AnalyticsEventProperties): Promise<void> {
+    this.enqueue('track', eventName, properties);
+  }
+
+  async trackScreen(screenName: string, properties?: AnalyticsEventProperties): Promise<void> {
+    this.enqueue('screen', screenName, properties);
+  }
+
+  async identify(userId: string, traits?: AnalyticsUserProperties): Promise<void> {
+    this.enqueue('identify', userId, traits);
+  }
+
+  async setUserProperties(properties: AnalyticsUserProperties): Promise<void> {
+    this.enqueue('user_properties', undefined, properties);
+  }
+
+  /**
+   * Forget the user (e.g. on logout). Queued after pending events, so they are
+   * still attributed to the previous user.
+   */
+  async reset(): Promise<void> {
+    this.enqueue('reset', undefined, {});
+  }
+
+  async isEnabled(): Promise<boolean> {
+    await this.attached;
+    return this.enabled;
+  }
+
+  /**
+   * Stop tracking and drop buffered events
+   */
+  async optOut(): Promise<void> {
+    await this.disable();
+    await this.sdk?.analytics?.optOut();
+  }
+
+  async optIn(): Promise<void> {
+    this.enabled = true;
+    this.changed();
+    this.flush().catch(() => undefined);
+    await this.sdk?.analytics?.optIn();
+  }
+
+  // ============================================================================
+  // Super-properties
+  // ============================================================================
+
+  /**
+   * Add properties to every event tracked from now on
+   */
+  register(properties: AnalyticsEventProperties): void {
+    this.superProperties = { ...this.superProperties, ...properties };
+  }
+
+  unregister(name: string): void {
+    const { [name]: _removed, ...rest } = this.superProperties;
+    this.superProperties = rest;
+  }
+
+  getSuperProperties(): AnalyticsEventProperties {
+    return { session_id: this.sessionId, ...this.contextProperties, ...this.superProperties };
+  }
+
+  // ============================================================================
+  // Buffering and delivery
+  // ============================================================================
+
+  private enqueue(type: AnalyticsEventType, name: string | undefined, properties: AnalyticsEventProperties = {}) {
+    if (!this.enabled) return;
+
+    const enriched = IDENTITY_EVENTS.includes(type)
+      ? properties
+      : { ...this.getSuperProperties(), ...properties };
+
+    this.buffer.push({
+      id: generateId(),
+      type,
+      name,
+      properties: enriched,
+      timestamp: Date.now(),
+      pending: this.sinks.map(sink => sink.name),
+    });
+    if (this.buffer.length > this.maxBufferSize) {
+      this.buffer = this.buffer.slice(-this.maxBufferSize);
+    }
+
+    this.changed();
+    this.loaded.then(() => this.persist());
+    this.schedule(this.buffer.length >= this.batchSize ? 0 : this.flushInterval);
+  }
+
+  private async disable(): Promise<void> {
+    this.enabled = false;
+    this.buffer = [];
+    this.changed();
+    // Stored events go too, even ones that could not be read
+    await this.storage?.remove(this.storageKey).catch(() => undefined);
+  }
+
+  /**
+   * Send buffered events to every ready sink now (sinks backing off are skipped)
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    await this.loaded;
+    if (!this.enabled) return;
+
+    let nextRetry = Infinity;
+    for (const sink of this.sinks) {
+      const state = this.sinkStates.get(sink.name) ?? { failures: 0, retryAt: 0 };
+      if (state.retryAt > Date.now()) {
+        nextRetry = Math.min(nextRetry, state.retryAt);
+        continue;
+      }
+      if (sink.isReady && !sink.isReady()) continue;
+
+      let batch: BufferedEvent[];
+      while ((batch = this.buffer.filter(event => event.pending.includes(sink.name)).slice(0, this.batchSize)).length > 0) {
+        try {
+          await sink.send(batch.map(event => this.toSinkEvent(event)));
+        } catch (error) {
+          state.failures++;
+          state.retryAt = Date.now() + this.retryDelay(state.failures);
+          this.sinkStates.set(sink.name, state);
+          nextRetry = Math.min(nextRetry, state.retryAt);
+          this.status = {
+            ...this.status,
+            errors: { ...this.status.errors, [sink.name]: error instanceof Error ? error.message : String(error) },
+          };
+          this.changed();
+          break;
+        }
+
+        const sent = new Set(batch.map(event => event.id));
+        this.buffer = this.buffer
+          .map(event => sent.has(event.id) ? { ...event, pending: event.pending.filter(name => name !== sink.name) } : event)
+          .filter(event => event.pending.length > 0);
+        this.sinkStates.set(sink.name, { failures: 0, retryAt: 0 });
+        if (this.status.errors[sink.name]) {
+          const { [sink.name]: _cleared, ...errors } = this.status.errors;
+          this.status = { ...this.status, errors };
+        }
+        this.changed();
+        await this.persist();
+      }
+    }
+
+    if (nextRetry < Infinity) {
+      this.schedule(nextRetry - Date.now());
+    }
+  }
+
+  // Events tracked before attach() get the app context once it is known
+  private toSinkEvent({ pending: _pending, ...event }: BufferedEvent): AnalyticsEvent {
+    return IDENTITY_EVENTS.includes(event.type)
+      ? event
+      : { ...event, properties: { ...this.contextProperties, ...event.properties } };
+  }
+
+  // Exponential backoff with jitter: 1s, 2s, 4s... up to maxRetryDelay
+  private retryDelay(failures: number): number {
+    const delay = Math.min(this.maxRetryDelay, BASE_RETRY_DELAY * 2 ** (failures - 1));
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  private schedule(delay: number) {
+    if (this.buffer.length === 0) return;
+
+    const at = Date.now() + Math.max(0, delay);
+    if (this.timer && this.timerAt <= at) return;
+    if (this.timer) clearTimeout(this.timer);
+
+    this.timerAt = at;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.timerAt = Infinity;
+      this.flush().catch(() => undefined);
+    }, Math.max(0, delay));
+  }
+
+  // ============================================================================
+  // Status
+  // ============================================================================
+
+  /**
+   * Current status; the object is replaced on every change
+   */
+  getStatus = (): AnalyticsStatus => this.status;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private changed() {
+    const { status } = this;
+    if (status.enabled !== this.enabled || status.pending !== this.buffer.length) {
+      this.status = { ...status, enabled: this.enabled, pending: this.buffer.length };
+    }
+    for (const listener of Array.from(this.listeners)) {
+      listener();
+    }
+  }
+
+  destroy(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Create an analytics client. Call attach(sdk) once the SDK is ready; until
+ * then events are buffered (custom sinks are served right away).
+ *
+ * @example
+ * ```ts
+ * const analytics = createAnalyticsClient({
+ *   sinks: [{ name: 'backend', send: events => postJSON('/events', events) }],
+ * });
+ * analytics.attach(await waitForSDK());
+ * analytics.track('Checkout Started', { items: 3 });
+ * ```
+ */
+export const createAnalyticsClient = (options?: AnalyticsClientOptions) => new AnalyticsClient(options);
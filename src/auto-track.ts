@@ -0,0 +1,195 @@
+/**
+ * Automatic analytics
+ * Opt-in instrumentation on top of any AnalyticsAPI: screen views and time on
+ * screen from History API navigation, wallet lifecycle events and MainButton
+ * clicks. Property values that look like addresses or keys are redacted.
+ */
+
+import type { MovementSDK, AnalyticsAPI, AnalyticsEventProperties } from './types';
+import { onNavigate } from './history';
+import { getButtonController } from './buttons';
+
+export type AutoTrackEvent =
+  | 'Screen View'
+  | 'Screen Time'
+  | 'Wallet Connected'
+  | 'Transaction Submitted'
+  | 'Transaction Succeeded'
+  | 'Transaction Failed'
+  | 'Message Signed'
+  | 'Main Button Clicked';
+
+export interface AutoTrackOptions {
+  /** Screen views and time on screen from History API navigation (default true) */
+  screens?: boolean;
+  /** Screen name for a location, or null to skip it (default location.pathname) */
+  getScreenName?: (location: Location) => string | null;
+  /** Connect, transaction and message signing events (default true) */
+  wallet?: boolean;
+  /** Clicks on a MainButton owned through useMainButton/<MainButton> (default true) */
+  mainButton?: boolean;
+  /** Only these events are tracked (default all) */
+  allowlist?: AutoTrackEvent[];
+  /** Redact values that look like addresses, keys or signatures (default true) */
+  scrub?: boolean;
+}
+
+// 0x-prefixed hex of address length or more, or bare hex the length of a key
+const SENSITIVE_PATTERN = /0x[0-9a-fA-F]{32,}|\b[0-9a-fA-F]{64,}\b/g;
+
+// Properties the tracker fills from payloads it knows are public (contract function IDs)
+const UNSCRUBBED_PROPERTIES = ['function'];
+
+const MAX_REMEMBERED_TRANSACTIONS = 100;
+
+interface Tracker {
+  allowed: (event: AutoTrackEvent) => boolean;
+  clean: (properties: AnalyticsEventProperties) => AnalyticsEventProperties;
+  cleanText: (text: string) => string;
+  track: (event: AutoTrackEvent, properties?: AnalyticsEventProperties) => void;
+}
+
+/**
+ * Replace anything that looks like an address, public/private key or signature
+ */
+export function scrubPII(value: string): string {
+  return value.replace(SENSITIVE_PATTERN, '[redacted]');
+}
+
+function scrubProperties(properties: AnalyticsEventProperties): AnalyticsEventProperties {
+  const scrubbed: AnalyticsEventProperties = {};
+  for (const [key, value] of Object.entries(properties)) {
+    scrubbed[key] = typeof value === 'string' && !UNSCRUBBED_PROPERTIES.includes(key) ? scrubPII(value) : value;
+  }
+  return scrubbed;
+}
+
+/**
+ * Start tracking automatically. Screens are tracked from the current location
+ * on; wallet and MainButton events need the secured SDK (pass null without one).
+ *
+ * Listening for transaction outcomes makes the SDK follow every submitted
+ * transaction until it is final.
+ *
+ * @returns A function that stops tracking
+ *
+ * @example
+ * ```ts
+ * const stop = enableAutoTracking(analytics, sdk, {
+ *   getScreenName: location => location.pathname.replace(/\/\d+/g, '/:id'),
+ *   allowlist: ['Screen View', 'Transaction Succeeded'],
+ * });
+ * ```
+ */
+export function enableAutoTracking(
+  analytics: AnalyticsAPI,
+  sdk: MovementSDK | null,
+  options: AutoTrackOptions = {}
+): () => void {
+  const { allowlist, scrub = true } = options;
+  const unsubscribers: Array<() => void> = [];
+
+  const tracker: Tracker = {
+    allowed: event => !allowlist || allowlist.includes(event),
+    clean: properties => scrub ? scrubProperties(properties) : properties,
+    cleanText: text => scrub ? scrubPII(text) : text,
+    track: (event, properties = {}) => {
+      if (!tracker.allowed(event)) return;
+      analytics.track(event, tracker.clean(properties)).catch(() => undefined);
+    },
+  };
+  const { track } = tracker;
+
+  if (options.screens !== false && typeof window !== 'undefined' && window.location) {
+    unsubscribers.push(trackScreens(analytics, options, tracker));
+  }
+
+  if (sdk && options.wallet !== false && sdk.on) {
+    // transactionConfirmed only carries the hash
+    const functions = new Map<string, string | undefined>();
+
+    unsubscribers.push(
+      sdk.on('connected', () => track('Wallet Connected', { network: sdk.network ?? null })),
+      sdk.on('transactionSubmitted', ({ hash, function: fn }) => {
+        functions.set(hash, fn);
+        if (functions.size > MAX_REMEMBERED_TRANSACTIONS) {
+          functions.delete(functions.keys().next().value as string);
+        }
+        track('Transaction Submitted', { function: fn ?? 'script' });
+      }),
+      sdk.on('transactionConfirmed', ({ hash }) => {
+        track('Transaction Succeeded', { function: functions.get(hash) ?? 'script' });
+        functions.delete(hash);
+      }),
+      sdk.on('transactionFailed', ({ hash, function: fn, code }) => {
+        track('Transaction Failed', { function: fn ?? 'script', code, stage: hash ? 'chain' : 'wallet' });
+        if (hash) functions.delete(hash);
+      }),
+      sdk.on('messageSigned', () => track('Message Signed')),
+    );
+  }
+
+  if (sdk?.MainButton && options.mainButton !== false) {
+    unsubscribers.push(
+      getButtonController(sdk, 'MainButton').onClick(state => track('Main Button Clicked', { text: state.text ?? null }))
+    );
+  }
+
+  return () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    unsubscribers.length = 0;
+  };
+}
+
+// Time is reported per visible stretch, so a screen left in the background is
+// not counted and nothing is lost if the app is killed there
+function trackScreens(analytics: AnalyticsAPI, options: AutoTrackOptions, tracker: Tracker): () => void {
+  const { allowed, clean, cleanText, track } = tracker;
+  const getScreenName = options.getScreenName ?? ((location: Location) => location.pathname);
+  let screen: string | null = null;
+  let visibleSince: number | null = null;
+
+  const isVisible = () => typeof document === 'undefined' || document.visibilityState !== 'hidden';
+
+  const reportTime = () => {
+    if (screen !== null && visibleSince !== null) {
+      track('Screen Time', { screen, duration_ms: Date.now() - visibleSince });
+    }
+    visibleSince = null;
+  };
+
+  const enter = () => {
+    const name = getScreenName(window.location);
+    if (name === screen) return;
+
+    const previous = screen;
+    reportTime();
+    screen = name;
+    if (name === null) return;
+
+    visibleSince = isVisible() ? Date.now() : null;
+    if (allowed('Screen View')) {
+      const properties = clean({ path: window.location.pathname, previous_screen: previous });
+      analytics.trackScreen(cleanText(name), properties).catch(() => undefined);
+    }
+  };
+
+  const onVisibilityChange = () => {
+    if (isVisible()) {
+      visibleSince = visibleSince ?? Date.now();
+    } else {
+      reportTime();
+    }
+  };
+
+  const doc = typeof document !== 'undefined' ? document : undefined;
+  enter();
+  const unsubscribe = onNavigate(enter);
+  doc?.addEventListener('visibilitychange', onVisibilityChange);
+
+  return () => {
+    reportTime();
+    unsubscribe();
+    doc?.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+}
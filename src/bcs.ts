@@ -0,0 +1,249 @@
+/**
+ * BCS serialization
+ * Encodes Move values and entry function payloads exactly as the host signs them
+ */
+
+import type { TransactionPayload } from './types';
+import { ValidationError } from './errors';
+import {
+  parseMoveType,
+  parseTypeArgument,
+  coerceMoveArguments,
+  isMoveSigner,
+  isMoveString,
+  isMoveOption,
+  isMoveObject,
+  substituteMoveType,
+  decodeHex,
+  formatMoveType,
+  type MoveArgumentValue,
+  type MoveType,
+} from './move-types';
+
+// TypeTag enum variant indices
+const TYPE_TAG: Record<string, number> = {
+  bool: 0, u8: 1, u64: 2, u128: 3, address: 4, signer: 5, vector: 6, struct: 7, u16: 8, u32: 9, u256: 10,
+};
+
+// TransactionPayload::EntryFunction variant index
+const ENTRY_FUNCTION_VARIANT = 2;
+
+const INTEGER_BYTES: Record<string, number> = {
+  u8: 1, u16: 2, u32: 4, u64: 8, u128: 16, u256: 32,
+};
+
+/**
+ * Append-only BCS byte writer
+ */
+export class BcsSerializer {
+  private buffer = new Uint8Array(64);
+  private length = 0;
+
+  private reserve(bytes: number) {
+    if (this.length + bytes <= this.buffer.length) return;
+    const next = new Uint8Array(Math.max(this.buffer.length * 2, this.length + bytes));
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  writeFixedBytes(bytes: Uint8Array): this {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+    return this;
+  }
+
+  /** Length-prefixed byte sequence */
+  writeBytes(bytes: Uint8Array): this {
+    return this.writeUleb128(bytes.length).writeFixedBytes(bytes);
+  }
+
+  writeUleb128(value: number): this {
+    let remaining = value >>> 0;
+    do {
+      const byte = remaining & 0x7f;
+      remaining >>>= 7;
+      this.writeFixedBytes(Uint8Array.of(remaining ? byte | 0x80 : byte));
+    } while (remaining);
+    return this;
+  }
+
+  writeBool(value: boolean): this {
+    return this.writeFixedBytes(Uint8Array.of(value ? 1 : 0));
+  }
+
+  /** Little-endian unsigned integer of the given byte width */
+  writeUint(value: bigint | number, bytes: number): this {
+    let remaining = BigInt(value);
+    const out = new Uint8Array(bytes);
+    for (let i = 0; i < bytes; i++) {
+      out[i] = Number(remaining & 0xffn);
+      remaining >>= 8n;
+    }
+    return this.writeFixedBytes(out);
+  }
+
+  writeString(value: string): this {
+    return this.writeBytes(new TextEncoder().encode(value));
+  }
+
+  /** 32-byte account address (short addresses are left-padded) */
+  writeAddress(address: string): this {
+    const hex = address.replace(/^0x/, '');
+    if (hex.length > 64) {
+      throw new ValidationError(`Invalid address: ${address}`);
+    }
+    return this.writeFixedBytes(decodeHex(hex.padStart(64, '0')));
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// The value was coerced against the type, so it has that type's JSON form
+function writeValue(serializer: BcsSerializer, type: MoveType, value: MoveArgumentValue): void {
+  switch (type.kind) {
+    case 'bool':
+      serializer.writeBool(value as boolean);
+      return;
+    case 'u8':
+    case 'u16':
+    case 'u32':
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      serializer.writeUint(BigInt(value as number | string), INTEGER_BYTES[type.kind]);
+      return;
+    case 'address':
+      serializer.writeAddress(value as string);
+      return;
+    case 'vector':
+      if (type.element.kind === 'u8' && typeof value === 'string') {
+        serializer.writeBytes(decodeHex(value));
+        return;
+      }
+      serializer.writeUleb128((value as MoveArgumentValue[]).length);
+      for (const item of value as MoveArgumentValue[]) {
+        writeValue(serializer, type.element, item);
+      }
+      return;
+    case 'reference':
+      writeValue(serializer, type.type, value);
+      return;
+    case 'struct':
+      if (isMoveString(type)) {
+        serializer.writeString(value as string);
+        return;
+      }
+      if (isMoveOption(type)) {
+        // Option<T> is encoded as a vector of zero or one element
+        if (value === null || value === undefined) {
+          serializer.writeUleb128(0);
+        } else {
+          serializer.writeUleb128(1);
+          writeValue(serializer, type.typeArgs[0], value);
+        }
+        return;
+      }
+      if (isMoveObject(type)) {
+        serializer.writeAddress(value as string);
+        return;
+      }
+      break;
+  }
+  throw new ValidationError(`Cannot BCS-encode ${formatMoveType(type)}`);
+}
+
+function writeTypeTag(serializer: BcsSerializer, type: MoveType): void {
+  if (type.kind === 'reference' || type.kind === 'generic') {
+    throw new ValidationError(`Not a concrete type: ${formatMoveType(type)}`);
+  }
+  serializer.writeUleb128(TYPE_TAG[type.kind]);
+  if (type.kind === 'vector') {
+    writeTypeTag(serializer, type.element);
+  } else if (type.kind === 'struct') {
+    serializer.writeAddress(type.address).writeString(type.module).writeString(type.name);
+    serializer.writeUleb128(type.typeArgs.length);
+    type.typeArgs.forEach(arg => writeTypeTag(serializer, arg));
+  }
+}
+
+/**
+ * BCS-encode a value of the given Move type.
+ * The value is checked and coerced first, so any input accepted by
+ * coerceMoveArgument works (bigint, Uint8Array, decimal strings, ...).
+ */
+export function serializeMoveValue(type: string | MoveType, value: unknown): Uint8Array {
+  const moveType = typeof type === 'string' ? parseMoveType(type) : type;
+  const [coerced] = coerceMoveArguments([moveType], [value]);
+  const serializer = new BcsSerializer();
+  writeValue(serializer, moveType, coerced);
+  return serializer.toBytes();
+}
+
+/**
+ * BCS-encode a type tag such as `0x1::aptos_coin::AptosCoin`
+ */
+export function serializeTypeTag(type: string | MoveType): Uint8Array {
+  const serializer = new BcsSerializer();
+  writeTypeTag(serializer, typeof type === 'string' ? parseMoveType(type) : type);
+  return serializer.toBytes();
+}
+
+/**
+ * BCS-encode each entry function argument against the function's parameter types
+ * @throws ValidationError naming the offending argument
+ */
+export function serializeEntryFunctionArguments(
+  parameters: Array<string | MoveType>,
+  args: unknown[],
+  typeArguments: string[] = []
+): Uint8Array[] {
+  const typeArgs = typeArguments.map(typeArg => parseMoveType(typeArg));
+  const types = parameters
+    .map(param => (typeof param === 'string' ? parseMoveType(param) : param))
+    .filter(param => !isMoveSigner(param))
+    .map(param => substituteMoveType(param, typeArgs));
+  const coerced = coerceMoveArguments(types, args);
+
+  return types.map((type, i) => {
+    const serializer = new BcsSerializer();
+    writeValue(serializer, type, coerced[i]);
+    return serializer.toBytes();
+  });
+}
+
+/**
+ * BCS-encode an entry function payload (TransactionPayload::EntryFunction),
+ * the bytes embedded in the raw transaction the host signs.
+ * Parameter types come from `payload.parameters` unless given explicitly.
+ */
+export function serializeEntryFunctionPayload(
+  payload: TransactionPayload,
+  parameters: Array<string | MoveType> | undefined = payload.parameters
+): Uint8Array {
+  if (!parameters) {
+    throw new ValidationError('Parameter types are required to BCS-encode a payload', 'parameters');
+  }
+
+  const [address, module, name] = payload.function.split('::');
+  if (!address || !module || !name) {
+    throw new ValidationError(`Invalid transaction function format: ${payload.function}`, 'function');
+  }
+
+  const typeArgs = payload.type_arguments.map((typeArg, i) => parseTypeArgument(typeArg, `type_arguments[${i}]`));
+  const args = serializeEntryFunctionArguments(parameters, payload.arguments, payload.type_arguments);
+
+  const serializer = new BcsSerializer()
+    .writeUleb128(ENTRY_FUNCTION_VARIANT)
+    .writeAddress(address)
+    .writeString(module)
+    .writeString(name)
+    .writeUleb128(typeArgs.length);
+  typeArgs.forEach(typeArg => writeTypeTag(serializer, typeArg));
+  serializer.writeUleb128(args.length);
+  args.forEach(arg => serializer.writeBytes(arg));
+
+  return serializer.toBytes();
+}
@@ -0,0 +1,171 @@
+/**
+ * Native button arbitration
+ * The host's MainButton, SecondaryButton and BackButton are singletons whose
+ * onClick cannot be unsubscribed. A controller registers one native handler per
+ * button and hands the button to whichever owner currently holds it.
+ */
+
+import type { MovementSDK } from './types';
+import { getHistoryDepth, onNavigate } from './history';
+
+export type NativeButtonName = 'MainButton' | 'SecondaryButton' | 'BackButton';
+
+export interface NativeButtonState {
+  /** Button label (ignored by BackButton) */
+  text?: string;
+  /** Default true. BackButton also accepts 'auto': visible while there is in-app history to go back to */
+  visible?: boolean | 'auto';
+  /** Clicks are ignored while disabled */
+  disabled?: boolean;
+  /** Shows loadingText and ignores clicks */
+  loading?: boolean;
+  /** Label while loading (default 'Loading…') */
+  loadingText?: string;
+  /** Click handler. BackButton defaults to history.back() */
+  onClick?: () => void;
+}
+
+export interface NativeButtonHandle {
+  /** Replace this owner's state */
+  update: (state: NativeButtonState) => void;
+  /** Give the button back to the previous owner (or hide it) */
+  release: () => void;
+}
+
+interface Owner {
+  id: number;
+  priority: number;
+  state: NativeButtonState;
+}
+
+const DEFAULT_LOADING_TEXT = 'Loading…';
+
+export class NativeButtonController {
+  private owners: Owner[] = [];
+  private nextId = 1;
+  private attached = false;
+  private shown: { text?: string; visible: boolean } = { visible: false };
+  private unsubscribeHistory: (() => void) | null = null;
+  private clickListeners = new Set<(state: NativeButtonState) => void>();
+
+  constructor(private sdk: MovementSDK, private name: NativeButtonName) {}
+
+  /**
+   * Take the button. The highest priority owner holds it; among equals the
+   * most recent one does, and releasing it hands the button back.
+   */
+  acquire(state: NativeButtonState, priority = 0): NativeButtonHandle {
+    const owner: Owner = { id: this.nextId++, priority, state };
+    this.owners.push(owner);
+    this.apply();
+
+    return {
+      update: next => {
+        owner.state = next;
+        this.apply();
+      },
+      release: () => {
+        this.owners = this.owners.filter(candidate => candidate !== owner);
+        this.apply();
+      },
+    };
+  }
+
+  /**
+   * The state currently shown, or null when nobody holds the button
+   */
+  getOwnerState(): NativeButtonState | null {
+    return this.current()?.state ?? null;
+  }
+
+  /**
+   * Observe clicks that reach an owner (not those ignored while disabled or loading)
+   * @returns Unsubscribe function
+   */
+  onClick(listener: (state: NativeButtonState) => void): () => void {
+    this.clickListeners.add(listener);
+    return () => {
+      this.clickListeners.delete(listener);
+    };
+  }
+
+  private current(): Owner | undefined {
+    let current: Owner | undefined;
+    for (const owner of this.owners) {
+      if (!current || owner.priority >= current.priority) current = owner;
+    }
+    return current;
+  }
+
+  private readonly handleClick = () => {
+    const state = this.current()?.state;
+    if (!state || state.disabled || state.loading || !this.isVisible(state)) return;
+    this.clickListeners.forEach(listener => listener(state));
+
+    if (state.onClick) {
+      state.onClick();
+    } else if (this.name === 'BackButton' && typeof window !== 'undefined') {
+      window.history.back();
+    }
+  };
+
+  private isVisible(state: NativeButtonState): boolean {
+    return state.visible === 'auto' ? getHistoryDepth() > 0 : state.visible !== false;
+  }
+
+  private apply() {
+    const button = this.sdk[this.name];
+    if (!button) return;
+
+    if (!this.attached) {
+      this.attached = true;
+      button.onClick(this.handleClick);
+    }
+
+    const state = this.current()?.state;
+    this.watchHistory(state?.visible === 'auto');
+
+    const visible = !!state && this.isVisible(state);
+    if (state && 'setText' in button && state.text !== undefined) {
+      const text = state.loading ? state.loadingText ?? DEFAULT_LOADING_TEXT : state.text;
+      if (text !== this.shown.text) {
+        button.setText(text);
+        this.shown.text = text;
+      }
+    }
+    if (visible !== this.shown.visible) {
+      if (visible) button.show();
+      else button.hide();
+      this.shown.visible = visible;
+    }
+  }
+
+  private watchHistory(watch: boolean) {
+    if (watch && !this.unsubscribeHistory) {
+      this.unsubscribeHistory = onNavigate(() => this.apply());
+    } else if (!watch && this.unsubscribeHistory) {
+      this.unsubscribeHistory();
+      this.unsubscribeHistory = null;
+    }
+  }
+}
+
+const controllers = new WeakMap<MovementSDK, Map<NativeButtonName, NativeButtonController>>();
+
+/**
+ * The shared controller for one of an SDK's native buttons
+ */
+export function getButtonController(sdk: MovementSDK, name: NativeButtonName): NativeButtonController {
+  let byName = controllers.get(sdk);
+  if (!byName) {
+    byName = new Map();
+    controllers.set(sdk, byName);
+  }
+
+  let controller = byName.get(name);
+  if (!controller) {
+    controller = new NativeButtonController(sdk, name);
+    byName.set(name, controller);
+  }
+  return controller;
+}
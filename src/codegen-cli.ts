@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * movement-codegen
+ * Usage: movement-codegen <abi.json...> --out <dir> [--sdk-import <module>]
+ *
+ * Each input file may contain a module ABI, a `{ bytecode, abi }` REST
+ * response, or an array of either (e.g. `/accounts/{address}/modules`).
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { generateModuleBindings, toModuleABI } from './codegen';
+import type { MoveModuleABI, MoveModuleResponse } from './abi';
+
+const USAGE = 'Usage: movement-codegen <abi.json...> --out <dir> [--sdk-import <module>]';
+
+function parseArgs(argv: string[]) {
+  const files: string[] = [];
+  let out: string | undefined;
+  let sdkImport: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') {
+      out = argv[++i];
+    } else if (arg === '--sdk-import') {
+      sdkImport = argv[++i];
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else {
+      files.push(arg);
+    }
+  }
+
+  return { files, out, sdkImport };
+}
+
+function main() {
+  const { files, out, sdkImport } = parseArgs(process.argv.slice(2));
+  if (files.length === 0 || !out) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  mkdirSync(out, { recursive: true });
+
+  for (const file of files) {
+    const json = JSON.parse(readFileSync(file, 'utf8'));
+    const inputs: Array<MoveModuleABI | MoveModuleResponse> = Array.isArray(json) ? json : [json];
+
+    for (const input of inputs) {
+      const abi = toModuleABI(input);
+      const target = join(out, `${abi.name}.ts`);
+      writeFileSync(target, generateModuleBindings(abi, { sdkImport }));
+      console.log(`Generated ${target} from ${abi.address}::${abi.name}`);
+    }
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`movement-codegen: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
@@ -0,0 +1,219 @@
+/**
+ * Move ABI code generator
+ * Emits TypeScript builders for entry and view functions from module ABI JSON
+ */
+
+import type { MoveFunctionABI, MoveModuleABI, MoveModuleResponse } from './abi';
+import {
+  parseMoveType,
+  formatMoveType,
+  isMoveOption,
+  isMoveObject,
+  isMoveString,
+  isMoveSigner,
+  type MoveType,
+} from './move-types';
+
+export interface CodegenOptions {
+  /** Module the generated code imports SDK types and helpers from */
+  sdkImport?: string;
+}
+
+const DEFAULT_SDK_IMPORT = '@movement-labs/miniapp-sdk';
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+  'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try',
+  'typeof', 'var', 'void', 'while', 'with', 'let', 'static', 'yield', 'await', 'implements',
+  'interface', 'package', 'private', 'protected', 'public',
+]);
+
+function identifier(name: string): string {
+  return RESERVED_WORDS.has(name) ? `${name}_` : name;
+}
+
+/**
+ * TypeScript type accepted for an argument of the given Move type
+ */
+function inputType(type: MoveType): string {
+  switch (type.kind) {
+    case 'bool':
+      return 'boolean';
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return 'number';
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      return 'bigint | number | string';
+    case 'address':
+      return 'string';
+    case 'vector':
+      return type.element.kind === 'u8' ? 'Uint8Array | string' : `Array<${inputType(type.element)}>`;
+    case 'reference':
+      return inputType(type.type);
+    case 'struct':
+      if (isMoveString(type) || isMoveObject(type)) return 'string';
+      if (isMoveOption(type)) return `${inputType(type.typeArgs[0])} | null`;
+      return 'unknown';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * TypeScript type produced by decodeMoveValue for the given Move type
+ */
+function outputType(type: MoveType): string {
+  switch (type.kind) {
+    case 'bool':
+      return 'boolean';
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return 'number';
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      return 'bigint';
+    case 'address':
+      return 'string';
+    case 'vector':
+      return type.element.kind === 'u8' ? 'string' : `Array<${outputType(type.element)}>`;
+    case 'reference':
+      return outputType(type.type);
+    case 'struct':
+      if (isMoveString(type) || isMoveObject(type)) return 'string';
+      if (isMoveOption(type)) return `${outputType(type.typeArgs[0])} | null`;
+      return 'Record<string, any>';
+    default:
+      return 'unknown';
+  }
+}
+
+function signature(fn: MoveFunctionABI, params: MoveType[]): string {
+  const typeParams = fn.generic_type_params.length > 0
+    ? `<${fn.generic_type_params.map((_, i) => `T${i}`).join(', ')}>`
+    : '';
+  const returns = fn.return.length > 0 ? `: ${fn.return.join(', ')}` : '';
+  return `${fn.name}${typeParams}(${params.map(formatMoveType).join(', ')})${returns}`;
+}
+
+function parameterList(fn: MoveFunctionABI, params: MoveType[]): string {
+  const list: string[] = [];
+  const generics = fn.generic_type_params.length;
+  if (generics > 0) {
+    list.push(`typeArguments: [${Array(generics).fill('string').join(', ')}]`);
+  }
+  params.forEach((param, i) => list.push(`arg${i}: ${inputType(param)}`));
+  return list.join(', ');
+}
+
+function argumentList(params: MoveType[]): string {
+  return params.map((_, i) => `encodeMoveArgument(arg${i})`).join(', ');
+}
+
+function generateEntry(moduleId: string, fn: MoveFunctionABI, name: string): string {
+  const params = fn.params.map(parseMoveType).filter(param => !isMoveSigner(param));
+  const typeArguments = fn.generic_type_params.length > 0 ? 'typeArguments' : '[]';
+
+  return [
+    '/**',
+    ` * Entry function ${moduleId}::${signature(fn, fn.params.map(parseMoveType))}`,
+    ' */',
+    `export function ${name}(${parameterList(fn, params)}): TransactionPayload {`,
+    '  return {',
+    `    function: '${moduleId}::${fn.name}',`,
+    `    type_arguments: ${typeArguments},`,
+    `    arguments: [${argumentList(params)}],`,
+    `    parameters: [${params.map(param => `'${formatMoveType(param)}'`).join(', ')}],`,
+    '  };',
+    '}',
+  ].join('\n');
+}
+
+function generateView(moduleId: string, fn: MoveFunctionABI, name: string): string {
+  const params = fn.params.map(parseMoveType);
+  const returns = fn.return.map(parseMoveType);
+  const typeArguments = fn.generic_type_params.length > 0 ? 'typeArguments' : '[]';
+  const tuple = `[${returns.map(outputType).join(', ')}]`;
+  const decoded = fn.return
+    .map((type, i) => `decodeMoveValue('${type}', result[${i}]) as ${outputType(returns[i])}`)
+    .join(',\n  ');
+
+  return [
+    '/**',
+    ` * View function ${moduleId}::${signature(fn, params)}`,
+    ' */',
+    `export function ${name}(${parameterList(fn, params)}): ViewPayload {`,
+    '  return {',
+    `    function: '${moduleId}::${fn.name}',`,
+    `    type_arguments: ${typeArguments},`,
+    `    function_arguments: [${argumentList(params)}],`,
+    '  };',
+    '}',
+    '',
+    `/** Parse the result of ${name}() */`,
+    `${name}.parse = (result: any[]): ${tuple} => [`,
+    ...(decoded ? [`  ${decoded},`] : []),
+    '];',
+  ].join('\n');
+}
+
+/**
+ * Accept either a bare module ABI or the REST `{ bytecode, abi }` response
+ */
+export function toModuleABI(input: MoveModuleABI | MoveModuleResponse): MoveModuleABI {
+  const abi = 'exposed_functions' in input ? input : input.abi;
+  if (!abi) {
+    throw new Error('Module response has no ABI');
+  }
+  return abi;
+}
+
+/**
+ * Generate a TypeScript module with builders for every entry and view function
+ *
+ * @example
+ * ```ts
+ * import * as coin from './generated/coin';
+ *
+ * await sdk.sendTransaction(coin.transfer(['0x1::aptos_coin::AptosCoin'], recipient, 100n));
+ * const [balance] = coin.balance.parse(await sdk.view(coin.balance(['0x1::aptos_coin::AptosCoin'], address)));
+ * ```
+ */
+export function generateModuleBindings(
+  input: MoveModuleABI | MoveModuleResponse,
+  options: CodegenOptions = {}
+): string {
+  const abi = toModuleABI(input);
+  const moduleId = `${abi.address}::${abi.name}`;
+  const sdkImport = options.sdkImport ?? DEFAULT_SDK_IMPORT;
+
+  const entries = abi.exposed_functions.filter(fn => fn.is_entry);
+  const views = abi.exposed_functions.filter(fn => fn.is_view);
+  const entryNames = new Set(entries.map(fn => fn.name));
+
+  const sections = [
+    ...entries.map(fn => generateEntry(moduleId, fn, identifier(fn.name))),
+    // A function that is both entry and view gets a `View` suffix for its view builder
+    ...views.map(fn => generateView(moduleId, fn, identifier(entryNames.has(fn.name) ? `${fn.name}View` : fn.name))),
+  ];
+
+  return [
+    '/**',
+    ` * Generated by movement-codegen from ${moduleId}`,
+    ' * Do not edit by hand',
+    ' */',
+    '',
+    `import type { TransactionPayload, ViewPayload } from '${sdkImport}';`,
+    `import { encodeMoveArgument, decodeMoveValue } from '${sdkImport}';`,
+    '',
+    `export const MODULE = '${moduleId}';`,
+    '',
+    sections.join('\n\n'),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,44 @@
+/**
+ * Declarative native buttons
+ * Render nothing; while mounted they own the host button (see useMainButton)
+ */
+
+import {
+  useMainButton,
+  useSecondaryButton,
+  useBackButton,
+  type UseNativeButtonOptions,
+} from './hooks';
+
+export type MainButtonProps = UseNativeButtonOptions;
+export type SecondaryButtonProps = UseNativeButtonOptions;
+export type BackButtonProps = Omit<UseNativeButtonOptions, 'text' | 'loadingText'>;
+
+/**
+ * @example
+ * ```tsx
+ * <MainButton text="Checkout" disabled={cart.length === 0} loading={isLoading} onClick={checkout} />
+ * ```
+ */
+export function MainButton(props: MainButtonProps) {
+  useMainButton(props);
+  return null;
+}
+
+export function SecondaryButton(props: SecondaryButtonProps) {
+  useSecondaryButton(props);
+  return null;
+}
+
+/**
+ * Without onClick, goes back in browser history
+ *
+ * @example
+ * ```tsx
+ * <BackButton visible="auto" />
+ * ```
+ */
+export function BackButton(props: BackButtonProps) {
+  useBackButton(props);
+  return null;
+}
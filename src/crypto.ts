@@ -0,0 +1,200 @@
+/**
+ * Crypto primitives
+ * Secure randomness, SHA3-256, Ed25519 verification and account address
+ * derivation. Uses WebCrypto only, so it runs in browsers and Node >= 20.
+ */
+
+import { MovementSDKError } from './errors';
+import { decodeHex, encodeHex } from './move-types';
+
+// Authentication key scheme bytes appended to the public key before hashing
+export const ED25519_SCHEME = 0x00;
+export const MULTI_ED25519_SCHEME = 0x01;
+
+function webCrypto(): Crypto {
+  const crypto = (globalThis as { crypto?: Crypto }).crypto;
+  if (!crypto?.getRandomValues) {
+    throw new MovementSDKError('UNSUPPORTED', 'WebCrypto is not available in this runtime');
+  }
+  return crypto;
+}
+
+/**
+ * WebCrypto's SubtleCrypto
+ * @throws MovementSDKError (UNSUPPORTED) outside a secure context
+ */
+export function getSubtleCrypto(): SubtleCrypto {
+  const subtle = webCrypto().subtle;
+  if (!subtle) {
+    throw new MovementSDKError('UNSUPPORTED', 'WebCrypto subtle is not available (a secure context is required)');
+  }
+  return subtle;
+}
+
+/**
+ * Cryptographically secure random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  return webCrypto().getRandomValues(new Uint8Array(length));
+}
+
+// ============================================================================
+// SHA3-256
+// ============================================================================
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offsets indexed by x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+const rotate = (value: bigint, shift: number) =>
+  shift === 0 ? value : ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK_64;
+
+function keccakF(state: bigint[]) {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+
+  for (const constant of ROUND_CONSTANTS) {
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotate(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+      }
+    }
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = b[x + y] ^ (~b[(x + 1) % 5 + y] & MASK_64 & b[(x + 2) % 5 + y]);
+      }
+    }
+    state[0] ^= constant;
+  }
+}
+
+/**
+ * SHA3-256 digest (the hash Aptos-style chains use for addresses and signing)
+ */
+export function sha3_256(data: Uint8Array): Uint8Array {
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(data.length / rate) * rate + rate);
+  padded.set(data);
+  padded[data.length] ^= 0x06;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let lane = 0; lane < rate / 8; lane++) {
+      let value = 0n;
+      for (let i = 7; i >= 0; i--) {
+        value = (value << 8n) | BigInt(padded[offset + lane * 8 + i]);
+      }
+      state[lane] ^= value;
+    }
+    keccakF(state);
+  }
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    out[i] = Number((state[i >> 3] >> BigInt((i & 7) * 8)) & 0xffn);
+  }
+  return out;
+}
+
+// ============================================================================
+// Ed25519
+// ============================================================================
+
+// Copies into a fresh ArrayBuffer, which is what WebCrypto accepts
+const toBytes = (value: Uint8Array | string) => new Uint8Array(typeof value === 'string' ? decodeHex(value) : value);
+
+/**
+ * Verify an Ed25519 signature
+ */
+export async function verifyEd25519(
+  publicKey: Uint8Array | string,
+  message: Uint8Array | string,
+  signature: Uint8Array | string
+): Promise<boolean> {
+  const subtle = getSubtleCrypto();
+  const keyBytes = toBytes(publicKey);
+  const signatureBytes = toBytes(signature);
+  if (keyBytes.length !== 32 || signatureBytes.length !== 64) return false;
+
+  const data = typeof message === 'string' ? new TextEncoder().encode(message) : toBytes(message);
+  try {
+    const key = await subtle.importKey('raw', keyBytes, { name: 'Ed25519' }, false, ['verify']);
+    return await subtle.verify({ name: 'Ed25519' }, key, signatureBytes, data);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotSupportedError') {
+      throw new MovementSDKError('UNSUPPORTED', 'Ed25519 is not supported by this runtime\'s WebCrypto', { cause: error });
+    }
+    return false;
+  }
+}
+
+/**
+ * Verify a MultiEd25519 signature. The public key is the concatenated member
+ * keys followed by the threshold byte; the signature is the concatenated member
+ * signatures followed by a 4-byte bitmap of the keys that signed.
+ */
+export async function verifyMultiEd25519(
+  publicKey: Uint8Array | string,
+  message: Uint8Array | string,
+  signature: Uint8Array | string
+): Promise<boolean> {
+  const keyBytes = toBytes(publicKey);
+  const signatureBytes = toBytes(signature);
+  if (keyBytes.length < 33 || (keyBytes.length - 1) % 32 !== 0) return false;
+  if (signatureBytes.length < 68 || (signatureBytes.length - 4) % 64 !== 0) return false;
+
+  const keys = (keyBytes.length - 1) / 32;
+  const threshold = keyBytes[keyBytes.length - 1];
+  const bitmap = signatureBytes.subarray(signatureBytes.length - 4);
+  const signers: number[] = [];
+  for (let index = 0; index < 32; index++) {
+    if (bitmap[index >> 3] & (0x80 >> (index & 7))) signers.push(index);
+  }
+
+  const signatures = (signatureBytes.length - 4) / 64;
+  if (threshold === 0 || signers.length !== signatures || signatures < threshold) return false;
+  if (signers.some(index => index >= keys)) return false;
+
+  for (let i = 0; i < signers.length; i++) {
+    const key = keyBytes.subarray(signers[i] * 32, signers[i] * 32 + 32);
+    const memberSignature = signatureBytes.subarray(i * 64, i * 64 + 64);
+    if (!(await verifyEd25519(key, message, memberSignature))) return false;
+  }
+  return true;
+}
+
+/**
+ * Derive the account address (authentication key) of a public key:
+ * sha3_256(publicKey || scheme)
+ */
+export function deriveAddress(publicKey: Uint8Array | string, scheme = ED25519_SCHEME): string {
+  const keyBytes = toBytes(publicKey);
+  const input = new Uint8Array(keyBytes.length + 1);
+  input.set(keyBytes);
+  input[keyBytes.length] = scheme;
+  return encodeHex(sha3_256(input));
+}
@@ -0,0 +1,179 @@
+/**
+ * Content Security Policy builder
+ * Builds the SDK's policy from SecurityConfig.csp, checks the policy the app
+ * already declares for the sources the SDK needs, and parses/serializes policy strings
+ */
+
+import { getNetworkInfo, MOVEMENT_NETWORKS } from './networks';
+
+/** Directive name -> source list, e.g. { 'connect-src': ["'self'", 'https://api.example.com'] } */
+export type CSPDirectives = Record<string, string[]>;
+
+export interface CSPConfig {
+  /** Sources merged into the SDK's defaults, e.g. { 'connect-src': ['https://indexer.example.com'] } */
+  directives?: CSPDirectives;
+  /** Nonce of the app's inline scripts and styles; replaces 'unsafe-inline' */
+  nonce?: string;
+  /** Hashes of inline scripts and styles (e.g. 'sha256-...'); replace 'unsafe-inline' */
+  hashes?: string[];
+  /** Allow eval() (default false) */
+  unsafeEval?: boolean;
+  /**
+   * Only report violations. Browsers ignore report-only policies in <meta>, so
+   * nothing is injected: serve getContentSecurityPolicy() as a
+   * Content-Security-Policy-Report-Only header and the SDK logs the violations.
+   */
+  reportOnly?: boolean;
+  /**
+   * Keep the app's own <meta> policy as the only one instead of adding the
+   * SDK's next to it (default true)
+   */
+  merge?: boolean;
+}
+
+// Directives that fall back to default-src when absent
+const FETCH_DIRECTIVES = [
+  'child-src', 'connect-src', 'font-src', 'frame-src', 'img-src', 'manifest-src',
+  'media-src', 'object-src', 'script-src', 'style-src', 'worker-src',
+];
+
+// Browsers ignore these in <meta> policies (and warn about them)
+const HEADER_ONLY_DIRECTIVES = ['frame-ancestors', 'report-uri', 'report-to', 'sandbox'];
+
+const DEFAULT_DIRECTIVES: CSPDirectives = {
+  'default-src': ["'self'"],
+  'script-src': ["'self'"],
+  'style-src': ["'self'"],
+  'img-src': ["'self'", 'data:', 'https:'],
+  'font-src': ["'self'", 'data:'],
+  'connect-src': ["'self'", 'https://*.movementlabs.xyz', 'https://*.aptoslabs.com'],
+  'frame-ancestors': ["'self'"],
+};
+
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse a policy string into directives
+ */
+export function parseCSP(policy: string): CSPDirectives {
+  const directives: CSPDirectives = {};
+  for (const part of policy.split(';')) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    // The first occurrence of a directive wins, as in browsers
+    if (name && !(name.toLowerCase() in directives)) {
+      directives[name.toLowerCase()] = sources;
+    }
+  }
+  return directives;
+}
+
+/**
+ * Serialize directives into a policy string
+ */
+export function serializeCSP(directives: CSPDirectives): string {
+  return Object.entries(directives)
+    .map(([name, sources]) => [name, ...sources].join(' '))
+    .join('; ');
+}
+
+const sourcesFor = (directives: CSPDirectives, name: string): string[] | undefined =>
+  directives[name] ?? (FETCH_DIRECTIVES.includes(name) ? directives['default-src'] : undefined);
+
+/**
+ * Union of policies, directive by directive (a fetch directive missing from one
+ * policy counts as its default-src). The result allows everything each policy allows.
+ */
+export function mergeCSP(...policies: CSPDirectives[]): CSPDirectives {
+  const names = new Set(policies.flatMap(policy => Object.keys(policy)));
+  const merged: CSPDirectives = {};
+
+  for (const name of names) {
+    const sources = new Set(policies.flatMap(policy => sourcesFor(policy, name) ?? []));
+    if (sources.size > 1) sources.delete("'none'");
+    merged[name] = Array.from(sources);
+  }
+  return merged;
+}
+
+// The network's RPC origin, or every known network's when it is not known yet
+const rpcOriginsFor = (network?: string | null): string[] => {
+  const info = getNetworkInfo(network);
+  return (info ? [info] : Object.values(MOVEMENT_NETWORKS))
+    .map(({ rpcUrl }) => originOf(rpcUrl))
+    .filter((origin): origin is string => origin !== null);
+};
+
+/**
+ * The SDK's policy: safe defaults, the network's RPC origin (every known
+ * network's when it is not known yet), the nonce/hashes and custom directives
+ */
+export function buildCSP(config: CSPConfig = {}, network?: string | null): CSPDirectives {
+  const rpcOrigins = rpcOriginsFor(network);
+
+  const inline = [
+    ...(config.nonce ? [`'nonce-${config.nonce}'`] : []),
+    ...(config.hashes ?? []).map(hash => hash.startsWith("'") ? hash : `'${hash}'`),
+  ];
+  // Without a nonce or hashes, inline code can only be allowed wholesale
+  const inlineSources = inline.length > 0 ? inline : ["'unsafe-inline'"];
+
+  const sdkPolicy: CSPDirectives = {
+    ...DEFAULT_DIRECTIVES,
+    'script-src': [...DEFAULT_DIRECTIVES['script-src'], ...inlineSources, ...(config.unsafeEval ? ["'unsafe-eval'"] : [])],
+    'style-src': [...DEFAULT_DIRECTIVES['style-src'], ...inlineSources],
+    'connect-src': [...DEFAULT_DIRECTIVES['connect-src'], ...rpcOrigins],
+  };
+
+  return config.directives ? mergeCSP(sdkPolicy, config.directives) : sdkPolicy;
+}
+
+/**
+ * The SDK's policy as a header value, for serving it from your server (e.g. as
+ * Content-Security-Policy-Report-Only)
+ */
+export const getContentSecurityPolicy = (config?: CSPConfig, network?: string | null) =>
+  serializeCSP(buildCSP(config, network));
+
+/**
+ * Directives that have an effect in a <meta> policy
+ */
+export function toMetaCSP(directives: CSPDirectives): CSPDirectives {
+  return Object.fromEntries(Object.entries(directives).filter(([name]) => !HEADER_ONLY_DIRECTIVES.includes(name)));
+}
+
+/**
+ * Sources the app's policy must allow for the SDK to work: the network's RPC
+ * origin and the custom directives
+ */
+export function requiredCSPSources(config: CSPConfig = {}, network?: string | null): CSPDirectives {
+  const custom = config.directives ?? {};
+  return { ...custom, 'connect-src': [...(custom['connect-src'] ?? []), ...rpcOriginsFor(network)] };
+}
+
+// Allowed exactly, by '*' or by its scheme ('https:'); host wildcards are not matched
+function allowsSource(sources: string[], source: string): boolean {
+  if (sources.includes(source) || sources.includes('*')) return true;
+  const scheme = /^([a-z][a-z0-9+.-]*:)\/\//i.exec(source)?.[1];
+  return scheme !== undefined && sources.includes(scheme.toLowerCase());
+}
+
+/**
+ * Sources in `required` that `policy` blocks, by directive (a fetch directive
+ * missing from `policy` counts as its default-src)
+ */
+export function missingCSPSources(policy: CSPDirectives, required: CSPDirectives): CSPDirectives {
+  const missing: CSPDirectives = {};
+  for (const [name, sources] of Object.entries(required)) {
+    const allowed = sourcesFor(policy, name);
+    if (!allowed) continue;
+    const blocked = sources.filter(source => !allowsSource(allowed, source));
+    if (blocked.length > 0) missing[name] = blocked;
+  }
+  return missing;
+}
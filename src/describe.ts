@@ -0,0 +1,107 @@
+/**
+ * Transaction descriptions
+ * Turns known framework calls into readable summaries for wallet prompts
+ */
+
+import type { TransactionPayload } from './types';
+import { MOVE_COIN_TYPE, canonicalMoveId, readTransfer } from './policy';
+
+export interface AssetInfo {
+  symbol: string;
+  decimals: number;
+}
+
+export interface TransactionDescription {
+  title: string;
+  description: string;
+}
+
+export interface DescribeTransactionOptions {
+  /** Extra assets by coin type or fungible asset metadata address */
+  assets?: Record<string, AssetInfo>;
+}
+
+// MOVE as a coin and as its paired fungible asset
+export const KNOWN_ASSETS: Record<string, AssetInfo> = {
+  [MOVE_COIN_TYPE]: { symbol: 'MOVE', decimals: 8 },
+  '0xa': { symbol: 'MOVE', decimals: 8 },
+};
+
+/**
+ * Format base units with the asset's decimals, e.g. 150000000n, 8 -> '1.5'
+ */
+export function formatAmount(amount: bigint, decimals: number): string {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return (negative ? '-' : '') + whole + (fraction ? '.' + fraction : '');
+}
+
+/**
+ * Shorten an address for display, e.g. '0x1234…cdef'
+ */
+export function shortenAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+}
+
+function resolveAsset(asset: string | null, options: DescribeTransactionOptions): AssetInfo | null {
+  if (!asset) return null;
+  const known = { ...KNOWN_ASSETS, ...options.assets };
+  for (const [id, info] of Object.entries(known)) {
+    if (canonicalMoveId(id) === asset) return info;
+  }
+  return null;
+}
+
+/**
+ * Readable amount of an asset; unknown assets are shown in base units
+ */
+export function formatAssetAmount(amount: bigint, asset: string | null, options: DescribeTransactionOptions = {}): string {
+  const info = resolveAsset(asset, options);
+  if (info) return `${formatAmount(amount, info.decimals)} ${info.symbol}`;
+  if (!asset) return `${amount} units`;
+  // Coin types read as their struct name, fungible assets by metadata address
+  const name = asset.includes('::') ? asset.split('<')[0].split('::').pop() : shortenAddress(asset);
+  return `${amount} ${name}`;
+}
+
+/**
+ * Summarize framework transfers (`coin::transfer`, `aptos_account::transfer*`,
+ * `primary_fungible_store::transfer`). Returns null for other functions.
+ */
+export function describeTransaction(
+  payload: TransactionPayload,
+  options: DescribeTransactionOptions = {}
+): TransactionDescription | null {
+  const transfer = readTransfer(payload);
+  if (!transfer || transfer.amount === null) return null;
+
+  const amount = formatAssetAmount(transfer.amount, transfer.asset, options);
+  const symbol = amount.slice(amount.indexOf(' ') + 1);
+  const to = transfer.recipients.length === 1
+    ? shortenAddress(transfer.recipients[0])
+    : `${transfer.recipients.length} recipients`;
+
+  return {
+    title: `Send ${symbol}`,
+    description: `Send ${amount} to ${to}`,
+  };
+}
+
+/**
+ * Fill in a missing title/description from describeTransaction
+ */
+export function withTransactionDescription<T extends TransactionPayload>(
+  payload: T,
+  options?: DescribeTransactionOptions
+): T {
+  if (payload.title && payload.description) return payload;
+  const summary = describeTransaction(payload, options);
+  if (!summary) return payload;
+  return {
+    ...payload,
+    title: payload.title ?? summary.title,
+    description: payload.description ?? summary.description,
+  };
+}
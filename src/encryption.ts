@@ -0,0 +1,293 @@
+/**
+ * Encrypted cloud storage
+ * AES-GCM encryption of CloudStorage values with a key derived from the wallet
+ * (a deterministic signature over a fixed message) or from a passphrase, so the
+ * host's backend only ever sees ciphertext
+ */
+
+import type { MovementSDK, SignMessagePayload, EncryptionKey } from './types';
+import { DecryptionError, MovementSDKError, ValidationError, normalizeError } from './errors';
+import { decodeHex, encodeHex } from './move-types';
+import { getSubtleCrypto, randomBytes } from './crypto';
+import { adaptHostSDK, isHostInstalled } from './adapter';
+
+export type CloudStorageAPI = NonNullable<MovementSDK['CloudStorage']>;
+
+export interface EncryptedStorageOptions {
+  /** The current key, or a function returning it (called per operation, e.g. sdk.deriveEncryptionKey) */
+  key: EncryptionKey | (() => Promise<EncryptionKey>);
+  /** Older keys that can still decrypt (e.g. before rotateKey) */
+  previousKeys?: EncryptionKey[];
+  /** Underlying storage (default: window.movementSDK.CloudStorage) */
+  storage?: CloudStorageAPI;
+  /** Prefix for encrypted keys in the underlying storage (default 'enc:') */
+  prefix?: string;
+}
+
+export interface PassphraseKeyOptions {
+  /** Per-user salt, e.g. the account address */
+  salt: string | Uint8Array;
+  /** PBKDF2-SHA256 iterations (default 310000) */
+  iterations?: number;
+}
+
+const FORMAT_PREFIX = 'menc1';
+const KEY_ID_BYTES = 8;
+const IV_BYTES = 12;
+const DEFAULT_ITERATIONS = 310000;
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// First 32 bytes become the AES key, the rest its fingerprint
+async function importKeyMaterial(bits: ArrayBuffer): Promise<EncryptionKey> {
+  const bytes = new Uint8Array(bits);
+  const key = await getSubtleCrypto().importKey('raw', bytes.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { key, id: encodeHex(bytes.slice(32)).slice(2) };
+}
+
+/**
+ * The fixed message signed to derive a wallet key. Ed25519 signatures are
+ * deterministic, so the same account always derives the same key. `app`
+ * identifies the app (e.g. its host), so no other app can ask for the same
+ * signature and read its data.
+ */
+export function getKeyDerivationMessage(purpose: string, app: string): Required<Pick<SignMessagePayload, 'message' | 'nonce'>> {
+  if (!app) {
+    throw new ValidationError('Encryption keys must be bound to an app', 'app');
+  }
+  return {
+    message: `Unlock your encrypted data for ${app} (${purpose}).\n\nOnly sign this in apps you trust: the signature is the key to your data. It does not send a transaction.`,
+    nonce: `movement-encryption-key:${app}:${purpose}`,
+  };
+}
+
+/**
+ * Derive an AES-GCM key from a signature over getKeyDerivationMessage (HKDF-SHA256).
+ * The salt binds the key to the same purpose and app as the message.
+ */
+export async function deriveKeyFromSignature(signature: string, purpose: string, app: string): Promise<EncryptionKey> {
+  if (!app) {
+    throw new ValidationError('Encryption keys must be bound to an app', 'app');
+  }
+  const subtle = getSubtleCrypto();
+  const material = await subtle.importKey('raw', new Uint8Array(decodeHex(signature)), 'HKDF', false, ['deriveBits']);
+  const bits = await subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: utf8(`movement-encryption:${app}:${purpose}`), info: utf8('aes-256-gcm') },
+    material,
+    (32 + KEY_ID_BYTES) * 8
+  );
+  return importKeyMaterial(bits);
+}
+
+/**
+ * Derive an AES-GCM key from a user passphrase (PBKDF2-SHA256)
+ */
+export async function deriveKeyFromPassphrase(passphrase: string, options: PassphraseKeyOptions): Promise<EncryptionKey> {
+  if (!passphrase) {
+    throw new ValidationError('Passphrase must not be empty', 'passphrase');
+  }
+
+  const subtle = getSubtleCrypto();
+  const material = await subtle.importKey('raw', utf8(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const salt = typeof options.salt === 'string' ? utf8(options.salt) : new Uint8Array(options.salt);
+  const bits = await subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: options.iterations ?? DEFAULT_ITERATIONS },
+    material,
+    (32 + KEY_ID_BYTES) * 8
+  );
+  return importKeyMaterial(bits);
+}
+
+/**
+ * Encrypt a string. `context` (e.g. the storage key) is authenticated, so the
+ * ciphertext cannot be moved to another key.
+ */
+export async function encryptString(key: EncryptionKey, plaintext: string, context = ''): Promise<string> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await getSubtleCrypto().encrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(iv), additionalData: utf8(context) },
+    key.key,
+    utf8(plaintext)
+  );
+  return [FORMAT_PREFIX, key.id, toBase64(iv), toBase64(new Uint8Array(ciphertext))].join(':');
+}
+
+/**
+ * Decrypt a string produced by encryptString with any of the given keys
+ * @throws DecryptionError ('key_mismatch' when no key matches, 'corrupted' otherwise)
+ */
+export async function decryptString(keys: EncryptionKey[], ciphertext: string, context = ''): Promise<string> {
+  const [format, keyId, iv, data, ...rest] = ciphertext.split(':');
+  if (format !== FORMAT_PREFIX || !keyId || !iv || !data || rest.length > 0) {
+    throw new DecryptionError('Value is not encrypted or has an unknown format', 'corrupted', context || undefined);
+  }
+
+  const key = keys.find(candidate => candidate.id === keyId);
+  if (!key) {
+    throw new DecryptionError(
+      'Value was encrypted with a different key - was the wallet account changed?',
+      'key_mismatch',
+      context || undefined
+    );
+  }
+
+  try {
+    const plaintext = await getSubtleCrypto().decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(fromBase64(iv)), additionalData: utf8(context) },
+      key.key,
+      new Uint8Array(fromBase64(data))
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new DecryptionError('Value could not be decrypted (corrupted or tampered with)', 'corrupted', context || undefined);
+  }
+}
+
+function defaultCloudStorage(): CloudStorageAPI {
+  const cloud = typeof window !== 'undefined' && isHostInstalled(window.movementSDK)
+    ? adaptHostSDK(window.movementSDK!).CloudStorage
+    : undefined;
+  if (!cloud) {
+    throw new MovementSDKError('UNSUPPORTED', 'CloudStorage is not available');
+  }
+  return cloud;
+}
+
+/**
+ * CloudStorage with encrypted values. Has the same shape as CloudStorage, so it
+ * can back a typed store: `createStore({ backend: 'cloud', sdk: { CloudStorage: encrypted } })`.
+ */
+export class EncryptedCloudStorage implements CloudStorageAPI {
+  private keySource: EncryptedStorageOptions['key'];
+  private previousKeys: EncryptionKey[];
+  private storageInstance: CloudStorageAPI | null;
+  private prefix: string;
+
+  constructor(options: EncryptedStorageOptions) {
+    this.keySource = options.key;
+    this.previousKeys = options.previousKeys ?? [];
+    this.storageInstance = options.storage ?? null;
+    this.prefix = options.prefix ?? 'enc:';
+  }
+
+  private get storage(): CloudStorageAPI {
+    if (!this.storageInstance) {
+      this.storageInstance = defaultCloudStorage();
+    }
+    return this.storageInstance;
+  }
+
+  private async currentKey(): Promise<EncryptionKey> {
+    try {
+      return typeof this.keySource === 'function' ? await this.keySource() : this.keySource;
+    } catch (err) {
+      throw normalizeError(err);
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const ciphertext = await encryptString(await this.currentKey(), value, key);
+    try {
+      await this.storage.setItem(this.prefix + key, ciphertext);
+    } catch (err) {
+      throw normalizeError(err);
+    }
+  }
+
+  /**
+   * @throws DecryptionError if the value cannot be decrypted with the current or previous keys
+   */
+  async getItem(key: string): Promise<string | null> {
+    let ciphertext: string | null;
+    try {
+      ciphertext = await this.storage.getItem(this.prefix + key);
+    } catch (err) {
+      throw normalizeError(err);
+    }
+    if (ciphertext === null) return null;
+    return decryptString([await this.currentKey(), ...this.previousKeys], ciphertext, key);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.storage.removeItem(this.prefix + key);
+    } catch (err) {
+      throw normalizeError(err);
+    }
+  }
+
+  /**
+   * Keys of encrypted values (without the prefix)
+   */
+  async getKeys(): Promise<string[]> {
+    try {
+      return (await this.storage.getKeys())
+        .filter(key => key.startsWith(this.prefix))
+        .map(key => key.slice(this.prefix.length));
+    } catch (err) {
+      throw normalizeError(err);
+    }
+  }
+
+  /**
+   * Encrypt every value again under the current key (with fresh IVs).
+   * Values no key can decrypt are left untouched and listed in `failed`.
+   */
+  async reencrypt(): Promise<{ reencrypted: string[]; failed: string[] }> {
+    const reencrypted: string[] = [];
+    const failed: string[] = [];
+
+    for (const key of await this.getKeys()) {
+      try {
+        const value = await this.getItem(key);
+        if (value === null) continue;
+        await this.setItem(key, value);
+        reencrypted.push(key);
+      } catch (error) {
+        if (!(error instanceof DecryptionError)) throw error;
+        failed.push(key);
+      }
+    }
+
+    return { reencrypted, failed };
+  }
+
+  /**
+   * Switch to a new key and re-encrypt every value under it. Replaced keys can
+   * still decrypt, so values that failed to re-encrypt are not lost.
+   */
+  async rotateKey(key: EncryptionKey | (() => Promise<EncryptionKey>)) {
+    const previous = await this.currentKey();
+    this.previousKeys = [previous, ...this.previousKeys.filter(candidate => candidate.id !== previous.id)];
+    this.keySource = key;
+    return this.reencrypt();
+  }
+}
+
+/**
+ * Create encrypted CloudStorage
+ *
+ * @example
+ * ```ts
+ * const notes = createEncryptedStorage({ key: () => sdk.deriveEncryptionKey!('notes') });
+ * await notes.setItem('draft', JSON.stringify(draft));
+ * ```
+ */
+export const createEncryptedStorage = (options: EncryptedStorageOptions) => new EncryptedCloudStorage(options);
@@ -0,0 +1,200 @@
+/**
+ * Error types for Movement SDK
+ * Every failure surfaced by the SDK is a MovementSDKError with a stable code
+ */
+
+export type MovementSDKErrorCode =
+  | 'RATE_LIMITED'
+  | 'VALIDATION_FAILED'
+  | 'POLICY_VIOLATION'
+  | 'REPLAY_DETECTED'
+  | 'USER_REJECTED'
+  | 'NOT_INSTALLED'
+  | 'NOT_CONNECTED'
+  | 'TIMEOUT'
+  | 'UNSUPPORTED'
+  | 'TRANSACTION_FAILED'
+  | 'QUOTA_EXCEEDED'
+  | 'DECRYPTION_FAILED'
+  | 'HOST_ERROR';
+
+export interface MovementSDKErrorOptions {
+  /** Original error (usually the host bridge rejection) */
+  cause?: unknown;
+  /** Payload field that failed validation, e.g. 'function' or 'arguments[1]' */
+  field?: string;
+  /** Milliseconds until the call may be retried */
+  retryAfterMs?: number;
+}
+
+export class MovementSDKError extends Error {
+  readonly code: MovementSDKErrorCode;
+  readonly cause?: unknown;
+  readonly field?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(code: MovementSDKErrorCode, message: string, options: MovementSDKErrorOptions = {}) {
+    super(message);
+    this.name = 'MovementSDKError';
+    this.code = code;
+    this.cause = options.cause;
+    this.field = options.field;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class RateLimitError extends MovementSDKError {
+  constructor(message: string, retryAfterMs: number) {
+    super('RATE_LIMITED', message, { retryAfterMs });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ValidationError extends MovementSDKError {
+  constructor(message: string, field?: string) {
+    super('VALIDATION_FAILED', message, { field });
+    this.name = 'ValidationError';
+  }
+}
+
+export class PolicyViolationError extends MovementSDKError {
+  /** Spending policy rule that rejected the transaction, e.g. 'deny' or 'caps.perSession' */
+  readonly rule: string;
+
+  constructor(message: string, rule: string, field?: string) {
+    super('POLICY_VIOLATION', message, { field });
+    this.name = 'PolicyViolationError';
+    this.rule = rule;
+  }
+}
+
+export class ReplayError extends MovementSDKError {
+  constructor(message: string, field = 'nonce') {
+    super('REPLAY_DETECTED', message, { field });
+    this.name = 'ReplayError';
+  }
+}
+
+export class UserRejectedError extends MovementSDKError {
+  constructor(message = 'User rejected the request', cause?: unknown) {
+    super('USER_REJECTED', message, { cause });
+    this.name = 'UserRejectedError';
+  }
+}
+
+export class NotInstalledError extends MovementSDKError {
+  constructor(message = 'Movement SDK not found - app must run inside Movement Everything wallet') {
+    super('NOT_INSTALLED', message);
+    this.name = 'NotInstalledError';
+  }
+}
+
+export class NotConnectedError extends MovementSDKError {
+  constructor(message = 'Wallet not connected') {
+    super('NOT_CONNECTED', message);
+    this.name = 'NotConnectedError';
+  }
+}
+
+export class TimeoutError extends MovementSDKError {
+  constructor(message: string, cause?: unknown) {
+    super('TIMEOUT', message, { cause });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class UnsupportedError extends MovementSDKError {
+  readonly method: string;
+  readonly hostVersion: string;
+
+  constructor(method: string, hostVersion: string) {
+    super('UNSUPPORTED', `${method} is unsupported by host version ${hostVersion}`);
+    this.name = 'UnsupportedError';
+    this.method = method;
+    this.hostVersion = hostVersion;
+  }
+}
+
+export class TransactionFailedError extends MovementSDKError {
+  readonly hash: string;
+  readonly vmStatus?: string;
+
+  constructor(hash: string, vmStatus?: string) {
+    super('TRANSACTION_FAILED', `Transaction ${hash} failed${vmStatus ? `: ${vmStatus}` : ''}`);
+    this.name = 'TransactionFailedError';
+    this.hash = hash;
+    this.vmStatus = vmStatus;
+  }
+}
+
+export class QuotaExceededError extends MovementSDKError {
+  /** Item limit of the storage backend */
+  readonly limit: number;
+
+  constructor(message: string, limit: number, field?: string) {
+    super('QUOTA_EXCEEDED', message, { field });
+    this.name = 'QuotaExceededError';
+    this.limit = limit;
+  }
+}
+
+export class DecryptionError extends MovementSDKError {
+  /** 'key_mismatch': encrypted under another key (e.g. another account); 'corrupted': tampered or unreadable */
+  readonly reason: 'key_mismatch' | 'corrupted';
+
+  constructor(message: string, reason: 'key_mismatch' | 'corrupted', field?: string) {
+    super('DECRYPTION_FAILED', message, { field });
+    this.name = 'DecryptionError';
+    this.reason = reason;
+  }
+}
+
+export class HostError extends MovementSDKError {
+  constructor(message: string, cause?: unknown) {
+    super('HOST_ERROR', message, { cause });
+    this.name = 'HostError';
+  }
+}
+
+/**
+ * Type guard for SDK errors, optionally narrowed to a single code
+ */
+export function isMovementSDKError(error: unknown, code?: MovementSDKErrorCode): error is MovementSDKError {
+  return error instanceof MovementSDKError && (code === undefined || error.code === code);
+}
+
+// Rejection codes used by wallet bridges (EIP-1193 style numeric codes and string codes)
+const USER_REJECTED_CODES = new Set<unknown>([4001, 'USER_REJECTED', 'ACTION_REJECTED', 'REJECTED']);
+const TIMEOUT_CODES = new Set<unknown>(['TIMEOUT', 'ETIMEDOUT']);
+
+// Messages of bridges without codes: the user must be the one rejecting, since
+// e.g. "rejected by mempool" or "permission denied" are real failures
+const USER_REJECTED_PATTERN =
+  /\buser\b.*\b(rejected|denied|declined|cancell?ed)\b|\b(rejected|denied|declined|cancell?ed)\b.*\bby (the )?user\b|^(request |transaction |signature )?(rejected|declined|cancell?ed)\.?$/i;
+
+/**
+ * Normalize anything thrown by the host bridge into a MovementSDKError.
+ * The original value is preserved as `cause`.
+ */
+export function normalizeError(error: unknown): MovementSDKError {
+  if (error instanceof MovementSDKError) {
+    return error;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'string'
+      ? error
+      : (error as { message?: string } | null)?.message || 'Unknown host error';
+
+  if (USER_REJECTED_CODES.has(code) || USER_REJECTED_PATTERN.test(message.trim())) {
+    return new UserRejectedError(message, error);
+  }
+
+  if (TIMEOUT_CODES.has(code) || /time(d)? ?out/i.test(message)) {
+    return new TimeoutError(message, error);
+  }
+
+  return new HostError(message, error);
+}
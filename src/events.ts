@@ -0,0 +1,60 @@
+/**
+ * Typed event emitter used for SDK and host bridge events
+ */
+
+type Listener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  // Each set holds listeners for its own event's payload
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribe function
+   */
+  on<E extends keyof Events>(event: E, callback: Listener<Events[E]>): () => void {
+    let set = this.listeners.get(event) as Set<Listener<Events[E]>> | undefined;
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(callback);
+
+    return () => {
+      set!.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<E extends keyof Events>(event: E, callback: Listener<Events[E]>): () => void {
+    const unsubscribe = this.on(event, payload => {
+      unsubscribe();
+      callback(payload);
+    });
+    return unsubscribe;
+  }
+
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const set = this.listeners.get(event) as Set<Listener<Events[E]>> | undefined;
+    if (!set) return;
+
+    // Copy so listeners can unsubscribe while being called
+    for (const callback of Array.from(set)) {
+      try {
+        callback(payload);
+      } catch (error) {
+        console.warn('[Movement SDK] Event listener failed:', String(event), error);
+      }
+    }
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
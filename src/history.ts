@@ -0,0 +1,113 @@
+/**
+ * History API observation
+ * Wraps history.pushState/replaceState while anything observes navigation, so
+ * navigations made by any SPA router can be observed, and records each entry's
+ * depth in history.state so back/forward restore it
+ */
+
+export type NavigationType = 'push' | 'replace' | 'pop';
+
+export type NavigationListener = (type: NavigationType) => void;
+
+const DEPTH_KEY = '__movementDepth';
+
+const listeners = new Set<NavigationListener>();
+let depth = 0;
+let observers = 0;
+let unpatch: (() => void) | null = null;
+
+const readDepth = (state: unknown): number => {
+  const value = state && typeof state === 'object' ? (state as Record<string, unknown>)[DEPTH_KEY] : undefined;
+  return typeof value === 'number' ? value : 0;
+};
+
+// Routers keep their own data in history.state; add ours next to it
+const withDepth = (state: unknown, value: number): unknown =>
+  state === null || state === undefined
+    ? { [DEPTH_KEY]: value }
+    : typeof state === 'object' && !Array.isArray(state)
+      ? { ...(state as object), [DEPTH_KEY]: value }
+      : state;
+
+const notify = (type: NavigationType) => {
+  for (const listener of Array.from(listeners)) {
+    listener(type);
+  }
+};
+
+// Wrap the History API and listen for back/forward; the result undoes both
+function patchHistory(target: Window): () => void {
+  const history = target.history;
+  const { pushState, replaceState } = history;
+  let patched = true;
+  depth = readDepth(history.state);
+
+  const patchedPushState: History['pushState'] = function (this: History, state, unused, url) {
+    if (!patched) return pushState.call(this, state, unused, url);
+    pushState.call(this, withDepth(state, depth + 1), unused, url);
+    depth += 1;
+    notify('push');
+  };
+  const patchedReplaceState: History['replaceState'] = function (this: History, state, unused, url) {
+    if (!patched) return replaceState.call(this, state, unused, url);
+    replaceState.call(this, withDepth(state, depth), unused, url);
+    notify('replace');
+  };
+  const onPopState = (event: PopStateEvent) => {
+    depth = readDepth(event.state);
+    notify('pop');
+  };
+
+  history.pushState = patchedPushState;
+  history.replaceState = patchedReplaceState;
+  target.addEventListener('popstate', onPopState);
+
+  return () => {
+    patched = false;
+    // A wrapper added on top of ours stays, and passes straight through
+    if (history.pushState === patchedPushState) history.pushState = pushState;
+    if (history.replaceState === patchedReplaceState) history.replaceState = replaceState;
+    target.removeEventListener('popstate', onPopState);
+  };
+}
+
+/**
+ * Start observing navigation; a no-op outside the browser. The History API is
+ * restored once every observer has stopped.
+ * @returns Function that stops this observer
+ */
+export function observeHistory(): () => void {
+  if (typeof window === 'undefined' || !window.history) return () => undefined;
+  if (observers++ === 0) {
+    unpatch = patchHistory(window);
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    if (--observers === 0) {
+      unpatch?.();
+      unpatch = null;
+    }
+  };
+}
+
+/**
+ * Listen for pushState, replaceState and back/forward navigation
+ * @returns Unsubscribe function
+ */
+export function onNavigate(listener: NavigationListener): () => void {
+  const stop = observeHistory();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    stop();
+  };
+}
+
+/**
+ * In-app history entries behind the current one (0 until observeHistory runs;
+ * not updated while nothing observes navigation)
+ */
+export const getHistoryDepth = () => depth;
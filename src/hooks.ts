@@ -1,98 +1,77 @@
 /**
  * React Hooks for Movement SDK
+ * All hooks read from the nearest MovementProvider (or a shared default store)
  */
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo, useSyncExternalStore } from 'react';
 import type {
   MovementSDK,
   MovementAccount,
   TransactionPayload,
   TransactionResult,
+  TransactionStatus,
+  ViewPayload,
   ThemeInfo,
-  AnalyticsAPI,
   AnalyticsEventProperties,
   AnalyticsUserProperties,
+  RateLimitBudget,
+  Capabilities,
+  HostCapability,
+  RequireCapabilitiesOptions,
 } from './types';
+import {
+  MovementSDKError,
+  NotConnectedError,
+  TransactionFailedError,
+  normalizeError,
+} from './errors';
+import { useMovementState, useMovementStore } from './provider';
+import { trackTransaction } from './transaction';
+import { getExplorerUrl } from './networks';
+import { EMPTY_VIEW_SNAPSHOT, getViewQueryKey, type ViewQueryOptions } from './view';
+import type { OutboxEntry } from './outbox';
+import type { TypedStore } from './storage';
+import type { AnalyticsEvents, AnalyticsEventSchemas } from './analytics-events';
+import {
+  getButtonController,
+  type NativeButtonHandle,
+  type NativeButtonName,
+  type NativeButtonState,
+} from './buttons';
 
 export interface UseMovementSDKResult {
   sdk: MovementSDK | null;
   isConnected: boolean;
   address: string | null;
+  network: string | null;
   isLoading: boolean;
-  error: Error | null;
+  error: MovementSDKError | null;
   connect: () => Promise<void>;
   sendTransaction: (payload: TransactionPayload) => Promise<TransactionResult | null>;
 }
 
 export function useMovementSDK(): UseMovementSDKResult {
-  const [sdk, setSDK] = useState<MovementSDK | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [address, setAddress] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') {
-      setIsLoading(false);
-      setError(new Error('Window is not defined'));
-      return;
-    }
-
-    // Check if SDK is installed
-    if (!window.movementSDK?.isInstalled?.()) {
-      setIsLoading(false);
-      setError(new Error('Movement SDK not available - please open in Movement wallet'));
-      return;
-    }
-
-    // Initialize SDK using ready() pattern
-    const initSDK = async () => {
-      try {
-        if (window.movementSDK) {
-          // Wait for SDK to be ready
-          await window.movementSDK.ready();
-
-          setSDK(window.movementSDK);
-          setIsConnected(window.movementSDK.isConnected);
-          setAddress(window.movementSDK.address || null);
-          setIsLoading(false);
-        }
-      } catch (err) {
-        setError(err as Error);
-        setIsLoading(false);
-      }
-    };
-
-    initSDK();
-  }, []);
+  const store = useMovementStore();
+  const { sdk, isConnected, address, network, isLoading, error } = useMovementState();
+  const [actionError, setActionError] = useState<MovementSDKError | null>(null);
 
   const connect = useCallback(async () => {
-    if (!sdk) {
-      throw new Error('SDK not available');
-    }
-
-    try {
-      const account = await sdk.connect();
-      setIsConnected(true);
-      setAddress(account.address);
-      setError(null);
-    } catch (err) {
-      setError(err as Error);
-      throw err;
-    }
-  }, [sdk]);
+    await store.connect();
+    setActionError(null);
+  }, [store]);
 
   const sendTransaction = useCallback(async (payload: TransactionPayload): Promise<TransactionResult | null> => {
     if (!sdk || !isConnected) {
-      throw new Error('SDK not connected');
+      throw new NotConnectedError('SDK not connected');
     }
 
     try {
       const result = await sdk.sendTransaction(payload);
       return result;
     } catch (err) {
-      setError(err as Error);
-      throw err;
+      const sdkError = normalizeError(err);
+      setActionError(sdkError);
+      throw sdkError;
     }
   }, [sdk, isConnected]);
 
@@ -100,8 +79,9 @@ export function useMovementSDK(): UseMovementSDKResult {
     sdk,
     isConnected,
     address,
+    network,
     isLoading,
-    error,
+    error: actionError ?? error,
     connect,
     sendTransaction
   };
@@ -111,47 +91,11 @@ export interface UseMovementAccountResult {
   account: MovementAccount | null;
   isConnected: boolean;
   isLoading: boolean;
-  error: Error | null;
+  error: MovementSDKError | null;
 }
 
 export function useMovementAccount(): UseMovementAccountResult {
-  const [account, setAccount] = useState<MovementAccount | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {
-    const fetchAccount = async () => {
-      if (typeof window === 'undefined') {
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if SDK is installed
-      if (!window.movementSDK?.isInstalled?.()) {
-        setIsLoading(false);
-        setError(new Error('Movement SDK not available - please open in Movement wallet'));
-        return;
-      }
-
-      try {
-        // Wait for SDK to be ready
-        await window.movementSDK.ready();
-
-        if (window.movementSDK.isConnected) {
-          const acc = await window.movementSDK.getAccount();
-          setAccount(acc);
-          setIsConnected(true);
-        }
-      } catch (err) {
-        setError(err as Error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchAccount();
-  }, []);
+  const { account, isConnected, isLoading, error } = useMovementState();
 
   return {
     account,
@@ -164,53 +108,639 @@ export function useMovementAccount(): UseMovementAccountResult {
 export interface UseMovementThemeResult {
   theme: ThemeInfo | null;
   isLoading: boolean;
-  error: Error | null;
+  error: MovementSDKError | null;
 }
 
 export function useMovementTheme(): UseMovementThemeResult {
-  const [theme, setTheme] = useState<ThemeInfo | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+  const { theme, isLoading, error } = useMovementState();
+
+  return {
+    theme,
+    isLoading,
+    error
+  };
+}
+
+// ============================================================================
+// Rate Limit Hook
+// ============================================================================
+
+/**
+ * Live rate limit budget for an SDK method, e.g. to disable a button while
+ * `remaining` is 0. Null until the SDK is ready.
+ */
+export function useRateLimit(method: string): RateLimitBudget | null {
+  const { sdk } = useMovementState();
+  const [budget, setBudget] = useState<RateLimitBudget | null>(() => sdk?.getRateLimit?.(method) ?? null);
 
   useEffect(() => {
-    const fetchTheme = async () => {
-      if (typeof window === 'undefined') {
-        setIsLoading(false);
-        return;
-      }
+    if (!sdk?.getRateLimit) {
+      setBudget(null);
+      return;
+    }
 
-      // Check if SDK is installed
-      if (!window.movementSDK?.isInstalled?.()) {
-        setIsLoading(false);
-        setError(new Error('Movement SDK not available - please open in Movement wallet'));
-        return;
-      }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const refresh = () => {
+      const next = sdk.getRateLimit!(method);
+      setBudget(next);
 
-      try {
-        // Wait for SDK to be ready
-        await window.movementSDK.ready();
-
-        if (window.movementSDK.getTheme) {
-          const themeInfo = await window.movementSDK.getTheme();
-          setTheme(themeInfo);
-        }
-      } catch (err) {
-        setError(err as Error);
-      } finally {
-        setIsLoading(false);
+      // Budgets recover with time; re-read once the next call is allowed or the window resets
+      clearTimeout(timer);
+      const delay = next.remaining === 0 ? next.retryAfterMs : next.resetInMs;
+      if (delay > 0) {
+        timer = setTimeout(refresh, delay + 1);
       }
     };
 
-    fetchTheme();
-  }, []);
+    refresh();
+    const unsubscribe = sdk.onRateLimitChange?.(changed => {
+      if (changed.method === method) refresh();
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe?.();
+    };
+  }, [sdk, method]);
+
+  return budget;
+}
+
+// ============================================================================
+// Capabilities Hook
+// ============================================================================
+
+export interface UseCapabilitiesResult {
+  /** Null until the SDK is ready and the host has been inspected */
+  capabilities: Capabilities | null;
+  isLoading: boolean;
+  /** Whether a feature is usable (false while loading) */
+  has: (capability: HostCapability) => boolean;
+  /** Resolve false, after showing the "update your wallet" popup, if anything is missing */
+  require: (required: HostCapability[], options?: RequireCapabilitiesOptions) => Promise<boolean>;
+}
+
+/**
+ * Hook for host capability negotiation.
+ *
+ * @example
+ * ```tsx
+ * const { has } = useCapabilities();
+ *
+ * {has('camera') && <button onClick={scanReceipt}>Scan receipt</button>}
+ * ```
+ */
+export function useCapabilities(): UseCapabilitiesResult {
+  const { sdk, isLoading: sdkLoading } = useMovementState();
+  const [capabilities, setCapabilities] = useState<Capabilities | null>(null);
+
+  useEffect(() => {
+    if (!sdk?.getCapabilities) {
+      setCapabilities(null);
+      return;
+    }
+
+    let cancelled = false;
+    sdk.getCapabilities()
+      .then(result => {
+        if (!cancelled) setCapabilities(result);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sdk]);
+
+  const has = useCallback(
+    (capability: HostCapability) => capabilities?.supported[capability] ?? false,
+    [capabilities]
+  );
+
+  const require = useCallback(async (required: HostCapability[], options?: RequireCapabilitiesOptions) => {
+    if (!sdk?.requireCapabilities) return false;
+    return await sdk.requireCapabilities(required, options);
+  }, [sdk]);
 
   return {
-    theme,
-    isLoading,
-    error
+    capabilities,
+    isLoading: capabilities === null && (sdkLoading || !!sdk?.getCapabilities),
+    has,
+    require,
+  };
+}
+
+// ============================================================================
+// Transaction Hook
+// ============================================================================
+
+export type TransactionLifecycleStatus =
+  | 'idle'
+  | 'awaiting-signature'
+  | 'submitted'
+  | 'pending'
+  | 'success'
+  | 'failed';
+
+export interface UseTransactionOptions {
+  /**
+   * Persist the in-flight hash under this key so tracking resumes after a page reload
+   */
+  persistKey?: string;
+  /** Delay between waitForTransaction polls in milliseconds (default 2000) */
+  pollInterval?: number;
+  /** Give up waiting after this many milliseconds (default 60000) */
+  timeout?: number;
+}
+
+export interface UseTransactionResult {
+  status: TransactionLifecycleStatus;
+  hash: string | null;
+  gasUsed: string | null;
+  vmStatus: string | null;
+  /** Explorer link for the transaction on the current network */
+  explorerUrl: string | null;
+  error: MovementSDKError | null;
+  /** True from signature request until the transaction is final */
+  isLoading: boolean;
+  /** Sign, submit and track a transaction */
+  send: (payload: TransactionPayload) => Promise<TransactionStatus>;
+  /** Track an already submitted transaction */
+  track: (hash: string) => Promise<TransactionStatus>;
+  reset: () => void;
+}
+
+interface TransactionState {
+  status: TransactionLifecycleStatus;
+  hash: string | null;
+  gasUsed: string | null;
+  vmStatus: string | null;
+  error: MovementSDKError | null;
+}
+
+const IDLE_TRANSACTION: TransactionState = {
+  status: 'idle',
+  hash: null,
+  gasUsed: null,
+  vmStatus: null,
+  error: null,
+};
+
+const PENDING_TX_PREFIX = 'movement:pending-tx:';
+
+function persistedHash(key: string | undefined): string | null {
+  if (!key || typeof localStorage === 'undefined') return null;
+  return localStorage.getItem(PENDING_TX_PREFIX + key);
+}
+
+function persistHash(key: string | undefined, hash: string | null) {
+  if (!key || typeof localStorage === 'undefined') return;
+  if (hash) {
+    localStorage.setItem(PENDING_TX_PREFIX + key, hash);
+  } else {
+    localStorage.removeItem(PENDING_TX_PREFIX + key);
+  }
+}
+
+/**
+ * Hook for sending a transaction and following it to a final status.
+ *
+ * Moves through `idle → awaiting-signature → submitted → pending → success | failed`
+ * using the host's onTransactionUpdate, or polling waitForTransaction when the
+ * host has no push updates. Waiting stops when the component unmounts.
+ *
+ * @example
+ * ```tsx
+ * const { send, status, explorerUrl, error } = useTransaction({ persistKey: 'mint' });
+ *
+ * <button onClick={() => send(payload)} disabled={status !== 'idle'}>Mint</button>
+ * {status === 'success' && <a href={explorerUrl!}>View on explorer</a>}
+ * ```
+ */
+export function useTransaction(options: UseTransactionOptions = {}): UseTransactionResult {
+  const { persistKey, pollInterval, timeout } = options;
+  const { sdk, network } = useMovementState();
+  const [state, setState] = useState<TransactionState>(IDLE_TRANSACTION);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel waiting on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const follow = useCallback(async (hash: string): Promise<TransactionStatus> => {
+    if (!sdk) {
+      throw new NotConnectedError('SDK not connected');
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const final = await trackTransaction(sdk, hash, {
+        signal: controller.signal,
+        pollInterval,
+        timeout,
+        onStatus: update => {
+          if (update.status === 'pending') {
+            setState(prev => ({ ...prev, status: 'pending', gasUsed: update.gasUsed ?? prev.gasUsed }));
+          }
+        },
+      });
+
+      persistHash(persistKey, null);
+      const failed = final.status === 'failed';
+      setState(prev => ({
+        ...prev,
+        status: failed ? 'failed' : 'success',
+        gasUsed: final.gasUsed ?? prev.gasUsed,
+        vmStatus: final.error ?? prev.vmStatus,
+        error: failed ? new TransactionFailedError(hash, final.error ?? prev.vmStatus ?? undefined) : null,
+      }));
+      return final;
+    } catch (err) {
+      // Aborted by unmount, reset() or a newer transaction, which own the state now
+      if (controller.signal.aborted) {
+        throw normalizeError(err);
+      }
+      const error = normalizeError(err);
+      setState(prev => ({ ...prev, status: 'failed', error }));
+      throw error;
+    }
+  }, [sdk, persistKey, pollInterval, timeout]);
+
+  const track = useCallback(async (hash: string): Promise<TransactionStatus> => {
+    setState({ ...IDLE_TRANSACTION, status: 'pending', hash });
+    persistHash(persistKey, hash);
+    return follow(hash);
+  }, [follow, persistKey]);
+
+  const send = useCallback(async (payload: TransactionPayload): Promise<TransactionStatus> => {
+    if (!sdk) {
+      throw new NotConnectedError('SDK not connected');
+    }
+
+    setState({ ...IDLE_TRANSACTION, status: 'awaiting-signature' });
+
+    let result: TransactionResult;
+    try {
+      result = await sdk.sendTransaction(payload);
+    } catch (err) {
+      const error = normalizeError(err);
+      setState({ ...IDLE_TRANSACTION, status: 'failed', error });
+      throw error;
+    }
+
+    if (!result.success) {
+      const error = new TransactionFailedError(result.hash, result.vmStatus);
+      setState({ ...IDLE_TRANSACTION, status: 'failed', hash: result.hash, vmStatus: result.vmStatus ?? null, error });
+      throw error;
+    }
+
+    setState({ ...IDLE_TRANSACTION, status: 'submitted', hash: result.hash, vmStatus: result.vmStatus ?? null });
+    persistHash(persistKey, result.hash);
+    return follow(result.hash);
+  }, [sdk, follow, persistKey]);
+
+  // Resume tracking an in-flight transaction after a reload
+  useEffect(() => {
+    const hash = persistedHash(persistKey);
+    if (sdk && hash) {
+      track(hash).catch(() => undefined);
+    }
+  }, [sdk, persistKey, track]);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    persistHash(persistKey, null);
+    setState(IDLE_TRANSACTION);
+  }, [persistKey]);
+
+  const explorerUrl = useMemo(
+    () => (state.hash ? getExplorerUrl(state.hash, network) : null),
+    [state.hash, network]
+  );
+
+  return {
+    ...state,
+    explorerUrl,
+    isLoading: state.status === 'awaiting-signature' || state.status === 'submitted' || state.status === 'pending',
+    send,
+    track,
+    reset,
+  };
+}
+
+// ============================================================================
+// View Hook
+// ============================================================================
+
+export interface UseViewOptions<T> extends ViewQueryOptions {
+  /** Set to false to skip fetching (default true) */
+  enabled?: boolean;
+  /** Refetch every N milliseconds, ignoring the TTL */
+  refetchInterval?: number;
+  /** Map the raw return tuple to the value exposed as `data` */
+  select?: (result: unknown[]) => T;
+}
+
+export interface UseViewResult<T> {
+  data: T | undefined;
+  error: MovementSDKError | null;
+  /** No data yet and a fetch is on its way */
+  isLoading: boolean;
+  isFetching: boolean;
+  isStale: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Hook for cached, deduplicated view function calls.
+ *
+ * Components rendering the same function + type arguments + arguments share
+ * one request and one cache entry. Cached data is served while it revalidates,
+ * and is refetched after a transaction from the connected account is confirmed.
+ *
+ * @example
+ * ```tsx
+ * const { data: balance, isLoading } = useView(
+ *   { function: '0x1::coin::balance', type_arguments: ['0x1::aptos_coin::AptosCoin'], function_arguments: [address] },
+ *   { ttl: 30000, select: ([value]) => BigInt(value as string) }
+ * );
+ * ```
+ *
+ * Without `select`, `data` is the raw return tuple (`unknown[]`); to type it,
+ * map it with `select`.
+ */
+export function useView<T>(
+  payload: ViewPayload | null,
+  options: UseViewOptions<T> & Required<Pick<UseViewOptions<T>, 'select'>>
+): UseViewResult<T>;
+export function useView(payload: ViewPayload | null, options?: Omit<UseViewOptions<unknown>, 'select'>): UseViewResult<unknown[]>;
+export function useView<T>(payload: ViewPayload | null, options: UseViewOptions<T> = {}): UseViewResult<T | unknown[]> {
+  const { enabled = true, refetchInterval, ttl, invalidateOnTransaction, select } = options;
+  const { views, network, isLoading: sdkLoading } = useMovementState();
+
+  // Callers usually pass a new payload object every render; the key is its identity
+  const key = payload ? getViewQueryKey(payload, network) : null;
+  const payloadRef = useRef(payload);
+  payloadRef.current = payload;
+  const active = enabled && !!views && key !== null;
+
+  // A new key means a new query, so both callbacks change with it
+  const subscribe = useCallback((listener: () => void) => {
+    if (!enabled || !views || key === null) return () => undefined;
+    return views.subscribe(payloadRef.current!, listener, { ttl, invalidateOnTransaction });
+  }, [views, key, enabled, ttl, invalidateOnTransaction]);
+
+  const getSnapshot = useCallback(
+    () => (enabled && views && key !== null ? views.getSnapshot(payloadRef.current!) : EMPTY_VIEW_SNAPSHOT),
+    [views, key, enabled]
+  );
+
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    if (!active) return;
+
+    views!.fetch(payloadRef.current!, { ttl, invalidateOnTransaction }).catch(() => undefined);
+
+    if (!refetchInterval) return;
+    const timer = setInterval(() => {
+      views!.fetch(payloadRef.current!, { force: true }).catch(() => undefined);
+    }, refetchInterval);
+    return () => clearInterval(timer);
+  }, [views, key, active, refetchInterval, ttl, invalidateOnTransaction]);
+
+  const refetch = useCallback(async (): Promise<T | unknown[] | undefined> => {
+    if (!views || !payloadRef.current) return undefined;
+    const result = await views.fetch(payloadRef.current, { force: true });
+    return select ? select(result) : result;
+  }, [views, select]);
+
+  const data = useMemo(
+    () => (snapshot.data === undefined ? undefined : select ? select(snapshot.data) : snapshot.data),
+    [snapshot.data, select]
+  );
+
+  return {
+    data,
+    error: snapshot.error,
+    isLoading: active
+      ? snapshot.data === undefined && !snapshot.error
+      : enabled && key !== null && sdkLoading,
+    isFetching: snapshot.isFetching,
+    isStale: snapshot.isStale,
+    refetch,
   };
 }
 
+// ============================================================================
+// Outbox Hook
+// ============================================================================
+
+export interface UseOutboxResult {
+  entries: OutboxEntry[];
+  /** Entries queued or waiting on the wallet */
+  pending: OutboxEntry[];
+  /** Entries the wallet may have executed; they wait for retry() or remove() */
+  unknown: OutboxEntry[];
+  /** False until the SDK is ready, or when the provider has no outbox */
+  isEnabled: boolean;
+  /** Save an intent and submit it; reusing an intent ID returns the existing entry */
+  enqueue: (payload: TransactionPayload, options?: { id?: string }) => Promise<OutboxEntry>;
+  retry: (id: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  /** Drop submitted and failed entries (entries with an unknown outcome stay) */
+  clear: () => Promise<void>;
+}
+
+const NO_OUTBOX_ENTRIES: OutboxEntry[] = [];
+
+/**
+ * Hook for the transaction outbox enabled with `<MovementProvider outbox>`.
+ *
+ * @example
+ * ```tsx
+ * const { enqueue, pending } = useOutbox();
+ *
+ * <button onClick={() => enqueue(payload, { id: order.id })}>Pay</button>
+ * {pending.length > 0 && <Spinner />}
+ * ```
+ */
+export function useOutbox(): UseOutboxResult {
+  const { outbox } = useMovementState();
+
+  const subscribe = useCallback(
+    (listener: () => void) => (outbox ? outbox.subscribe(listener) : () => undefined),
+    [outbox]
+  );
+  const getSnapshot = useCallback(() => outbox?.getEntries() ?? NO_OUTBOX_ENTRIES, [outbox]);
+  const entries = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const pending = useMemo(
+    () => entries.filter(entry => entry.status === 'queued' || entry.status === 'awaiting_signature'),
+    [entries]
+  );
+  const unknown = useMemo(() => entries.filter(entry => entry.status === 'unknown'), [entries]);
+
+  const enqueue = useCallback(async (payload: TransactionPayload, options?: { id?: string }) => {
+    if (!outbox) {
+      throw new MovementSDKError('UNSUPPORTED', 'Outbox is not enabled (pass outbox to MovementProvider)');
+    }
+    return await outbox.enqueue(payload, options);
+  }, [outbox]);
+
+  const retry = useCallback(async (id: string) => outbox?.retry(id), [outbox]);
+  const remove = useCallback(async (id: string) => outbox?.remove(id), [outbox]);
+  const clear = useCallback(async () => outbox?.clear(), [outbox]);
+
+  return {
+    entries,
+    pending,
+    unknown,
+    isEnabled: !!outbox,
+    enqueue,
+    retry,
+    remove,
+    clear,
+  };
+}
+
+// ============================================================================
+// Storage Hook
+// ============================================================================
+
+export interface UseStoredValueResult<T> {
+  value: T | undefined;
+  /** The first read has not finished */
+  isLoading: boolean;
+  error: MovementSDKError | null;
+  set: (value: T) => Promise<void>;
+  remove: () => Promise<void>;
+  refresh: () => Promise<T | undefined>;
+}
+
+/**
+ * Hook for one key of a typed store. Every component using the same store and
+ * key sees the same value, and re-renders when any of them writes it.
+ *
+ * @example
+ * ```tsx
+ * const settings = createStore<Settings>({ namespace: 'settings', schema: isSettings });
+ *
+ * function ThemeToggle() {
+ *   const { value, set } = useStoredValue(settings, 'main');
+ *   return <Switch checked={value?.theme === 'dark'} onChange={dark => set({ ...value!, theme: dark ? 'dark' : 'light' })} />;
+ * }
+ * ```
+ */
+export function useStoredValue<T>(store: TypedStore<T>, key: string): UseStoredValueResult<T> {
+  const subscribe = useCallback((listener: () => void) => store.subscribe(key, listener), [store, key]);
+  const getSnapshot = useCallback(() => store.getSnapshot(key), [store, key]);
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    if (!store.getSnapshot(key).isLoaded) {
+      store.get(key).catch(() => undefined);
+    }
+  }, [store, key]);
+
+  const set = useCallback((value: T) => store.set(key, value), [store, key]);
+  const remove = useCallback(() => store.remove(key), [store, key]);
+  const refresh = useCallback(() => store.get(key), [store, key]);
+
+  return {
+    value: snapshot.value,
+    isLoading: !snapshot.isLoaded,
+    error: snapshot.error,
+    set,
+    remove,
+    refresh,
+  };
+}
+
+// ============================================================================
+// Native Button Hooks
+// ============================================================================
+
+export interface UseNativeButtonOptions extends NativeButtonState {
+  /** When several components use the same button, the highest priority wins (default 0); among equals the last mounted wins */
+  priority?: number;
+}
+
+function useNativeButton(name: NativeButtonName, options: UseNativeButtonOptions): void {
+  const { sdk } = useMovementState();
+  const { priority = 0, onClick, text, visible, disabled, loading, loadingText } = options;
+  const handleRef = useRef<NativeButtonHandle | null>(null);
+
+  // The native handler is registered once; always call the latest onClick
+  const onClickRef = useRef(onClick);
+  onClickRef.current = onClick;
+  const hasOnClick = !!onClick;
+
+  const state = useMemo<NativeButtonState>(() => ({
+    text,
+    visible,
+    disabled,
+    loading,
+    loadingText,
+    onClick: hasOnClick ? () => onClickRef.current?.() : undefined,
+  }), [text, visible, disabled, loading, loadingText, hasOnClick]);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    if (!sdk?.[name]) return;
+    const handle = getButtonController(sdk, name).acquire(stateRef.current, priority);
+    handleRef.current = handle;
+    return () => {
+      handleRef.current = null;
+      handle.release();
+    };
+  }, [sdk, name, priority]);
+
+  useEffect(() => {
+    handleRef.current?.update(state);
+  }, [state]);
+}
+
+/**
+ * Hook that owns the host's MainButton while the component is mounted.
+ * `disabled` and `loading` are emulated: clicks are ignored, and loading shows
+ * `loadingText`.
+ *
+ * @example
+ * ```tsx
+ * const { send, isLoading } = useTransaction();
+ * useMainButton({ text: 'Pay 5 MOVE', loading: isLoading, onClick: () => send(payment) });
+ * ```
+ */
+export function useMainButton(options: UseNativeButtonOptions): void {
+  useNativeButton('MainButton', options);
+}
+
+/**
+ * Hook that owns the host's SecondaryButton while the component is mounted
+ */
+export function useSecondaryButton(options: UseNativeButtonOptions): void {
+  useNativeButton('SecondaryButton', options);
+}
+
+/**
+ * Hook that owns the host's BackButton while the component is mounted.
+ * Without onClick it calls history.back(), so SPA routers see a normal back
+ * navigation; `visible: 'auto'` shows it only when there is in-app history.
+ *
+ * @example
+ * ```tsx
+ * useBackButton({ visible: 'auto' });
+ * ```
+ */
+export function useBackButton(options: Omit<UseNativeButtonOptions, 'text' | 'loadingText'> = {}): void {
+  useNativeButton('BackButton', options);
+}
+
 // ============================================================================
 // Analytics Hook
 // ============================================================================
@@ -242,7 +772,7 @@ export interface UseAnalyticsResult {
   reset: () => Promise<void>;
 
   /**
-   * Check if analytics is enabled
+   * False once the user opted out (read from the host on startup)
    */
   isEnabled: boolean;
 
@@ -257,7 +787,7 @@ export interface UseAnalyticsResult {
   optIn: () => Promise<void>;
 
   /**
-   * Whether SDK is available
+   * Whether the host's analytics bridge is available
    */
   isAvailable: boolean;
 }
@@ -265,8 +795,10 @@ export interface UseAnalyticsResult {
 /**
  * Hook for tracking analytics events in mini apps.
  *
- * Events are sent through the host app's analytics service (Mixpanel)
- * with automatic mini-app context enrichment.
+ * Events go through the shared analytics client: they are buffered until the
+ * bridge is ready, enriched with super-properties (session, app version,
+ * platform) and sent in batches to the host's Mixpanel and any custom sinks
+ * configured on the MovementProvider.
  *
  * @example
  * ```tsx
@@ -286,105 +818,47 @@ export interface UseAnalyticsResult {
  * ```
  */
 export function useAnalytics(): UseAnalyticsResult {
-  const [isEnabled, setIsEnabled] = useState(true);
-  const [isAvailable, setIsAvailable] = useState(false);
-
-  useEffect(() => {
-    // Check if SDK is available
-    if (typeof window !== 'undefined' && window.movementSDK?.analytics) {
-      setIsAvailable(true);
-    }
-  }, []);
-
-  const track = useCallback(async (eventName: string, properties?: AnalyticsEventProperties): Promise<void> => {
-    if (typeof window === 'undefined' || !window.movementSDK?.analytics) {
-      console.log('[Analytics] SDK not available, skipping track:', eventName);
-      return;
-    }
-
-    try {
-      await window.movementSDK.analytics.track(eventName, properties);
-    } catch (error) {
-      console.warn('[Analytics] Failed to track event:', eventName, error);
-    }
-  }, []);
-
-  const identify = useCallback(async (userId: string, traits?: AnalyticsUserProperties): Promise<void> => {
-    if (typeof window === 'undefined' || !window.movementSDK?.analytics) {
-      console.log('[Analytics] SDK not available, skipping identify');
-      return;
-    }
-
-    try {
-      await window.movementSDK.analytics.identify(userId, traits);
-    } catch (error) {
-      console.warn('[Analytics] Failed to identify user:', error);
-    }
-  }, []);
-
-  const trackScreen = useCallback(async (screenName: string, properties?: AnalyticsEventProperties): Promise<void> => {
-    if (typeof window === 'undefined' || !window.movementSDK?.analytics) {
-      console.log('[Analytics] SDK not available, skipping trackScreen:', screenName);
-      return;
-    }
+  const { sdk, analytics } = useMovementState();
+  const { enabled: isEnabled } = useSyncExternalStore(analytics.subscribe, analytics.getStatus, analytics.getStatus);
+  const isAvailable = !!sdk?.analytics;
 
-    try {
-      await window.movementSDK.analytics.trackScreen(screenName, properties);
-    } catch (error) {
-      console.warn('[Analytics] Failed to track screen:', screenName, error);
-    }
-  }, []);
+  const track = useCallback(
+    (eventName: string, properties?: AnalyticsEventProperties) => analytics.track(eventName, properties),
+    [analytics]
+  );
 
-  const setUserProperties = useCallback(async (properties: AnalyticsUserProperties): Promise<void> => {
-    if (typeof window === 'undefined' || !window.movementSDK?.analytics) {
-      console.log('[Analytics] SDK not available, skipping setUserProperties');
-      return;
-    }
+  const identify = useCallback(
+    (userId: string, traits?: AnalyticsUserProperties) => analytics.identify(userId, traits),
+    [analytics]
+  );
 
-    try {
-      await window.movementSDK.analytics.setUserProperties(properties);
-    } catch (error) {
-      console.warn('[Analytics] Failed to set user properties:', error);
-    }
-  }, []);
+  const trackScreen = useCallback(
+    (screenName: string, properties?: AnalyticsEventProperties) => analytics.trackScreen(screenName, properties),
+    [analytics]
+  );
 
-  const reset = useCallback(async (): Promise<void> => {
-    if (typeof window === 'undefined' || !window.movementSDK?.analytics) {
-      return;
-    }
+  const setUserProperties = useCallback(
+    (properties: AnalyticsUserProperties) => analytics.setUserProperties(properties),
+    [analytics]
+  );
 
-    try {
-      await window.movementSDK.analytics.reset();
-    } catch (error) {
-      console.warn('[Analytics] Failed to reset:', error);
-    }
-  }, []);
+  const reset = useCallback(() => analytics.reset(), [analytics]);
 
   const optOut = useCallback(async (): Promise<void> => {
-    if (typeof window === 'undefined' || !window.movementSDK?.analytics) {
-      return;
-    }
-
     try {
-      await window.movementSDK.analytics.optOut();
-      setIsEnabled(false);
+      await analytics.optOut();
     } catch (error) {
       console.warn('[Analytics] Failed to opt out:', error);
     }
-  }, []);
+  }, [analytics]);
 
   const optIn = useCallback(async (): Promise<void> => {
-    if (typeof window === 'undefined' || !window.movementSDK?.analytics) {
-      return;
-    }
-
     try {
-      await window.movementSDK.analytics.optIn();
-      setIsEnabled(true);
+      await analytics.optIn();
     } catch (error) {
       console.warn('[Analytics] Failed to opt in:', error);
     }
-  }, []);
+  }, [analytics]);
 
   return {
     track,
@@ -398,3 +872,18 @@ export function useAnalytics(): UseAnalyticsResult {
     isAvailable,
   };
 }
+
+/**
+ * An event registry (see defineAnalyticsEvents) sending through the nearest
+ * MovementProvider's analytics client.
+ *
+ * @example
+ * ```tsx
+ * const { track } = useAnalyticsEvents(events);
+ * track('Payment Method Selected', { method: 'card' });
+ * ```
+ */
+export function useAnalyticsEvents<S extends AnalyticsEventSchemas>(events: AnalyticsEvents<S>): AnalyticsEvents<S> {
+  const { analytics } = useMovementState();
+  return useMemo(() => events.withAnalytics(analytics), [events, analytics]);
+}
@@ -6,5 +6,35 @@
 export * from './types';
 export * from './sdk';
 export * from './hooks';
+export * from './store';
+export * from './provider';
+export * from './components';
+export * from './buttons';
+export * from './history';
 export * from './security';
+export * from './csp';
+export * from './security-events';
+export * from './policy';
+export * from './rate-limit';
+export * from './errors';
+export * from './adapter';
+export * from './networks';
+export * from './transaction';
+export * from './view';
+export * from './outbox';
+export * from './analytics';
+export * from './auto-track';
+export * from './analytics-events';
+export * from './storage';
+export * from './encryption';
+export * from './events';
+export * from './move-types';
+export * from './abi';
+export * from './bcs';
+export * from './simulation';
+export * from './describe';
+export * from './codegen';
+export * from './crypto';
+export * from './verify';
+export * from './sign-in';
 export type { SecurityConfig } from './security';
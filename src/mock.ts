@@ -0,0 +1,675 @@
+/**
+ * Mock Movement host
+ * In-memory implementation of the MovementSDK bridge for local development,
+ * Storybook and unit tests (jsdom / Vitest) outside the Movement wallet
+ */
+
+import type {
+  MovementSDK,
+  MovementAccount,
+  NetworkInfo,
+  AppContext,
+  ThemeInfo,
+  TransactionPayload,
+  TransactionResult,
+  TransactionStatus,
+  TransactionStatusCallback,
+  ViewPayload,
+  SignMessageResult,
+  MovementSDKEvent,
+  MovementSDKEventMap,
+  MovementSDKEventListener,
+  PopupOptions,
+  PopupResult,
+  CameraResult,
+  LocationResult,
+  BiometricResult,
+} from './types';
+import { NotConnectedError } from './errors';
+import { TypedEventEmitter } from './events';
+import { MOVEMENT_NETWORKS } from './networks';
+import { createStubSimulationProvider, type StubSimulationOptions } from './simulation';
+import { deriveAddress, getSubtleCrypto } from './crypto';
+import { buildFullMessage } from './verify';
+import { disposeHostEvents } from './adapter';
+import { decodeHex, encodeHex } from './move-types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Canned view response - a static return tuple or a function of the payload
+ */
+export type MockViewResponse = unknown[] | ((payload: ViewPayload) => unknown[] | Promise<unknown[]>);
+
+/**
+ * Scripted failure - a fixed error or a function of the call arguments that
+ * returns the error to throw (or undefined to let the call succeed)
+ */
+export type MockFailure = Error | ((...args: unknown[]) => Error | undefined);
+
+export interface MockCall {
+  /** Method name, dotted for namespaced APIs (e.g. 'storage.get', 'MainButton.setText') */
+  method: string;
+  args: unknown[];
+  timestamp: number;
+  result?: unknown;
+  error?: Error;
+}
+
+/**
+ * Mock wallet account. signMessage signs with `privateKey` (a 32-byte Ed25519
+ * seed), so its results pass verifySignedMessage and verifySignIn.
+ */
+export interface MockAccount extends MovementAccount {
+  privateKey?: string;
+}
+
+export interface MockMovementSDKOptions {
+  /** Accounts available in the mock wallet (defaults to one account with a fixed test key) */
+  accounts?: MockAccount[];
+  /** Index of the active account */
+  activeAccount?: number;
+  /** Start already connected (default true) */
+  connected?: boolean;
+  network?: NetworkInfo['network'];
+  /** Balances in octas keyed by address (falls back to account.balance, then '0') */
+  balances?: Record<string, string>;
+  /** Canned view responses keyed by fully qualified function name */
+  viewResponses?: Record<string, MockViewResponse>;
+  /** Failures applied to every call of a method until cleared */
+  failures?: Record<string, MockFailure>;
+  /** Artificial latency in ms for async methods, globally or per method */
+  latency?: number | Record<string, number>;
+  /** Outcome of transactions submitted to the mock (default 'success') */
+  transactionOutcome?: 'success' | 'failed';
+  theme?: ThemeInfo;
+  context?: Partial<AppContext>;
+  /** Button id returned by showPopup (defaults to the first button) */
+  popupResult?: string;
+  /** Value returned by showConfirm (default true) */
+  confirmResult?: boolean;
+  clipboard?: string;
+  qrCode?: string;
+  /** Behaviour of simulateTransaction (a local stub provider) */
+  simulation?: StubSimulationOptions;
+  /** Install on window.movementSDK (default true when window exists) */
+  install?: boolean;
+}
+
+export interface MockMovementSDK {
+  /** The mock bridge, also installed as window.movementSDK */
+  sdk: MovementSDK;
+  /** Log of every call made to the bridge, in order */
+  readonly calls: MockCall[];
+  /** Calls to a single method */
+  getCalls: (method: string) => MockCall[];
+  clearCalls: () => void;
+
+  /** Switch the active account by index or address */
+  setAccount: (account: number | string) => void;
+  setConnected: (connected: boolean) => void;
+  setBalance: (address: string, balance: string) => void;
+  setNetwork: (network: NetworkInfo['network']) => void;
+  setTheme: (theme: ThemeInfo) => void;
+  /** Emit an arbitrary wallet event to subscribers of sdk.on() */
+  emit: <E extends MovementSDKEvent>(event: E, payload: MovementSDKEventMap[E]) => void;
+  setViewResponse: (fn: string, response: MockViewResponse) => void;
+  setLatency: (latency: number | Record<string, number>) => void;
+  /** Fail every call to a method until cleared */
+  setFailure: (method: string, failure: MockFailure | null) => void;
+  /** Fail the next `times` calls to a method */
+  failNext: (method: string, error: Error, times?: number) => void;
+
+  /** Simulate the user tapping a native button */
+  clickMainButton: () => void;
+  clickSecondaryButton: () => void;
+  clickBackButton: () => void;
+  /** Native button state as last set by the app */
+  readonly buttons: {
+    MainButton: MockButtonState;
+    SecondaryButton: MockButtonState;
+    BackButton: MockButtonState;
+  };
+
+  /** Remove window.movementSDK (restores any previous value) and stop SDK listeners on the mock */
+  uninstall: () => void;
+}
+
+export interface MockButtonState {
+  text: string;
+  visible: boolean;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+function toHex(value: number, length: number): string {
+  return value.toString(16).padStart(length, '0');
+}
+
+const DEFAULT_BALANCE = '100000000000'; // 1,000 MOVE in octas
+
+// Well-known test key: never holds funds on a real network
+const DEFAULT_ACCOUNT: MockAccount = {
+  address: '0x6a490566ab3bb1edd16d5b3f5c2e3824355dc85a5f6e92f433b60e6926648ae8',
+  publicKey: '0x30fc9e94a017c96d75fc4ab5e399864c516da898ccc62030b2115a4115cff1ef',
+  privateKey: '0x297436dd9759e385bf751a01b3687ba7aec083fb9281d5440bfafc2fef238385',
+  balance: DEFAULT_BALANCE,
+};
+
+// PKCS#8 header for a raw Ed25519 seed
+const PKCS8_ED25519_PREFIX = '302e020100300506032b657004220420';
+
+async function signEd25519(seed: string, message: string): Promise<string> {
+  const subtle = getSubtleCrypto();
+  const pkcs8 = decodeHex(PKCS8_ED25519_PREFIX + seed.replace(/^0x/, ''));
+  const key = await subtle.importKey('pkcs8', new Uint8Array(pkcs8), { name: 'Ed25519' }, false, ['sign']);
+  const signature = await subtle.sign({ name: 'Ed25519' }, key, new TextEncoder().encode(message));
+  return encodeHex(new Uint8Array(signature));
+}
+
+/**
+ * Generate a mock account with a fresh Ed25519 key pair
+ *
+ * @example
+ * ```ts
+ * const mock = createMockMovementSDK({ accounts: [await createMockAccount(), await createMockAccount()] });
+ * ```
+ */
+export async function createMockAccount(balance = DEFAULT_BALANCE): Promise<MockAccount> {
+  const subtle = getSubtleCrypto();
+  const { privateKey, publicKey } = await subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const pkcs8 = new Uint8Array(await subtle.exportKey('pkcs8', privateKey));
+  const raw = new Uint8Array(await subtle.exportKey('raw', publicKey));
+  return {
+    address: deriveAddress(raw),
+    publicKey: encodeHex(raw),
+    privateKey: encodeHex(pkcs8.slice(-32)),
+    balance,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create an in-memory Movement host and install it as `window.movementSDK`.
+ *
+ * @example
+ * ```ts
+ * const mock = createMockMovementSDK({
+ *   viewResponses: { '0x1::coin::balance': ['5000'] },
+ * });
+ *
+ * const sdk = await waitForSDK();
+ * await sdk.sendTransaction(payload);
+ *
+ * expect(mock.getCalls('sendTransaction')).toHaveLength(1);
+ * mock.uninstall();
+ * ```
+ */
+export function createMockMovementSDK(options: MockMovementSDKOptions = {}): MockMovementSDK {
+  const accounts = options.accounts && options.accounts.length > 0
+    ? options.accounts
+    : [DEFAULT_ACCOUNT];
+  let network = MOVEMENT_NETWORKS[options.network ?? 'testnet'];
+  const simulator = createStubSimulationProvider(options.simulation);
+  let theme: ThemeInfo = options.theme ?? { colorScheme: 'light' };
+
+  let activeIndex = options.activeAccount ?? 0;
+  let connected = options.connected ?? true;
+  let latency = options.latency ?? 0;
+  let txCounter = 0;
+
+  const balances = new Map<string, string>(Object.entries(options.balances ?? {}));
+  const viewResponses = new Map<string, MockViewResponse>(Object.entries(options.viewResponses ?? {}));
+  const failures = new Map<string, MockFailure>(Object.entries(options.failures ?? {}));
+  const pendingFailures = new Map<string, Error[]>();
+  const transactions = new Map<string, TransactionStatus>();
+  const deviceStorage = new Map<string, string>();
+  const cloudStorage = new Map<string, string>();
+  const calls: MockCall[] = [];
+  let clipboardText = options.clipboard ?? '';
+  let analyticsEnabled = true;
+  const events = new TypedEventEmitter<MovementSDKEventMap>();
+
+  const buttons = {
+    MainButton: { text: '', visible: false },
+    SecondaryButton: { text: '', visible: false },
+    BackButton: { text: '', visible: false },
+  };
+  const buttonCallbacks: Record<keyof typeof buttons, Array<() => void>> = {
+    MainButton: [],
+    SecondaryButton: [],
+    BackButton: [],
+  };
+
+  const activeAccount = (): MockAccount => accounts[activeIndex];
+
+  const balanceOf = (address: string): string => {
+    const account = accounts.find(a => a.address === address);
+    return balances.get(address) ?? account?.balance ?? '0';
+  };
+
+  const requireConnected = () => {
+    if (!connected) {
+      throw new NotConnectedError();
+    }
+  };
+
+  const nextError = (method: string, args: unknown[]): Error | undefined => {
+    const queued = pendingFailures.get(method);
+    if (queued && queued.length > 0) {
+      return queued.shift();
+    }
+    const failure = failures.get(method);
+    if (!failure) return undefined;
+    return failure instanceof Error ? failure : failure(...args);
+  };
+
+  const delayFor = (method: string): number => {
+    if (typeof latency === 'number') return latency;
+    return latency[method] ?? 0;
+  };
+
+  // Wrap an async host method with logging, latency and scripted failures
+  function asyncMethod<A extends unknown[], R>(method: string, impl: (...args: A) => R | Promise<R>) {
+    return async (...args: A): Promise<R> => {
+      const call: MockCall = { method, args, timestamp: Date.now() };
+      calls.push(call);
+
+      const delay = delayFor(method);
+      if (delay > 0) {
+        await sleep(delay);
+      }
+
+      try {
+        const error = nextError(method, args);
+        if (error) throw error;
+        const result = await impl(...args);
+        call.result = result;
+        return result;
+      } catch (error) {
+        call.error = error as Error;
+        throw error;
+      }
+    };
+  }
+
+  // Wrap a synchronous host method with logging only
+  function syncMethod<A extends unknown[], R>(method: string, impl: (...args: A) => R) {
+    return (...args: A): R => {
+      const call: MockCall = { method, args, timestamp: Date.now() };
+      calls.push(call);
+      const result = impl(...args);
+      call.result = result;
+      return result;
+    };
+  }
+
+  const submit = (success = options.transactionOutcome !== 'failed'): TransactionResult => {
+    txCounter++;
+    const hash = '0x' + toHex(txCounter, 64);
+    transactions.set(hash, {
+      hash,
+      status: success ? 'success' : 'failed',
+      gasUsed: '100',
+      timestamp: Date.now(),
+      error: success ? undefined : 'Move abort',
+    });
+    return {
+      hash,
+      success,
+      version: String(txCounter),
+      vmStatus: success ? 'Executed successfully' : 'Move abort',
+    };
+  };
+
+  const button = (name: keyof typeof buttons) => ({
+    setText: syncMethod(`${name}.setText`, (text: string) => {
+      buttons[name].text = text;
+    }),
+    show: syncMethod(`${name}.show`, () => {
+      buttons[name].visible = true;
+    }),
+    hide: syncMethod(`${name}.hide`, () => {
+      buttons[name].visible = false;
+    }),
+    onClick: syncMethod(`${name}.onClick`, (callback: () => void) => {
+      buttonCallbacks[name].push(callback);
+    }),
+  });
+
+  const context = (): AppContext => ({
+    user: {
+      address: connected ? activeAccount().address : '',
+      publicKey: connected ? activeAccount().publicKey : '',
+      verified: connected,
+    },
+    app: { id: 'mock-app', name: 'Mock Mini App', version: '0.0.0' },
+    platform: { os: 'ios', version: '17.0' },
+    features: {
+      haptics: true,
+      notifications: true,
+      camera: true,
+      biometrics: true,
+      location: true,
+    },
+    theme,
+    ...options.context,
+  });
+
+  const sdk: MovementSDK = {
+    get isConnected() {
+      return connected;
+    },
+    get address() {
+      return connected ? activeAccount().address : undefined;
+    },
+    get network() {
+      return network.network;
+    },
+
+    isInstalled: syncMethod('isInstalled', () => true),
+    ready: asyncMethod('ready', () => true),
+
+    connect: asyncMethod('connect', () => {
+      const { address, publicKey } = activeAccount();
+      if (!connected) {
+        connected = true;
+        events.emit('accountChanged', { address, publicKey });
+      }
+      return { address, publicKey };
+    }),
+    getAccount: asyncMethod('getAccount', () => {
+      requireConnected();
+      const { address, publicKey } = activeAccount();
+      return { address, publicKey, balance: balanceOf(address) };
+    }),
+    getBalance: asyncMethod('getBalance', () => {
+      requireConnected();
+      return balanceOf(activeAccount().address);
+    }),
+    getContext: asyncMethod('getContext', () => context()),
+    getTheme: asyncMethod('getTheme', () => theme),
+    scanQRCode: asyncMethod('scanQRCode', () => options.qrCode ?? activeAccount().address),
+
+    sendTransaction: asyncMethod('sendTransaction', (_payload: TransactionPayload) => {
+      requireConnected();
+      return submit();
+    }),
+    sendMultiAgentTransaction: asyncMethod('sendMultiAgentTransaction', () => {
+      requireConnected();
+      return submit();
+    }),
+    sendFeePayerTransaction: asyncMethod('sendFeePayerTransaction', () => {
+      requireConnected();
+      return submit();
+    }),
+    sendBatchTransactions: asyncMethod('sendBatchTransactions', payload => {
+      requireConnected();
+      const results = payload.transactions.map(() => submit());
+      const successCount = results.filter(r => r.success).length;
+      return { results, successCount, failureCount: results.length - successCount };
+    }),
+    sendScriptTransaction: asyncMethod('sendScriptTransaction', () => {
+      requireConnected();
+      return submit();
+    }),
+
+    simulateTransaction: asyncMethod('simulateTransaction', (payload: TransactionPayload) =>
+      simulator.simulate(payload, { sender: activeAccount().address, network: network.network })
+    ),
+
+    view: asyncMethod('view', async (payload: ViewPayload) => {
+      const response = viewResponses.get(payload.function);
+      if (response !== undefined) {
+        return typeof response === 'function' ? await response(payload) : response;
+      }
+      if (payload.function === '0x1::coin::balance') {
+        const [address] = payload.function_arguments ?? [];
+        return [balanceOf(String(address))];
+      }
+      throw new Error(`No mock view response for ${payload.function}`);
+    }),
+
+    signMessage: asyncMethod('signMessage', async ({ message, nonce }): Promise<SignMessageResult> => {
+      requireConnected();
+      const { address, publicKey, privateKey } = activeAccount();
+      if (!privateKey) {
+        throw new Error(`Mock account ${address} has no privateKey to sign with`);
+      }
+      const fullMessage = buildFullMessage({ message, nonce: nonce ?? '' });
+      return { signature: await signEd25519(privateKey, fullMessage), publicKey, fullMessage };
+    }),
+
+    waitForTransaction: asyncMethod('waitForTransaction', (hash: string) => {
+      const status = transactions.get(hash);
+      if (!status) {
+        throw new Error(`Transaction not found: ${hash}`);
+      }
+      return status;
+    }),
+    onTransactionUpdate: syncMethod('onTransactionUpdate', (hash: string, callback: TransactionStatusCallback) => {
+      let active = true;
+      const final = transactions.get(hash);
+      setTimeout(() => {
+        if (active) callback({ hash, status: 'pending', timestamp: Date.now() });
+      }, 0);
+      setTimeout(() => {
+        if (active && final) callback(final);
+      }, Math.max(delayFor('onTransactionUpdate'), 1));
+      return () => {
+        active = false;
+      };
+    }),
+
+    haptic: asyncMethod('haptic', () => undefined),
+    notify: asyncMethod('notify', () => undefined),
+    share: asyncMethod('share', () => ({ success: true })),
+    openUrl: asyncMethod('openUrl', () => undefined),
+    close: asyncMethod('close', () => undefined),
+
+    storage: {
+      get: asyncMethod('storage.get', (key: string) => deviceStorage.get(key) ?? null),
+      set: asyncMethod('storage.set', (key: string, value: string) => {
+        deviceStorage.set(key, value);
+      }),
+      remove: asyncMethod('storage.remove', (key: string) => {
+        deviceStorage.delete(key);
+      }),
+      clear: asyncMethod('storage.clear', () => {
+        deviceStorage.clear();
+      }),
+      getAll: asyncMethod('storage.getAll', () =>
+        Array.from(deviceStorage, ([key, value]) => ({ key, value }))
+      ),
+    },
+
+    camera: {
+      takePicture: asyncMethod('camera.takePicture', (): CameraResult => ({
+        uri: 'mock://camera/picture.jpg',
+        width: 1080,
+        height: 1920,
+        type: 'image',
+      })),
+      pickImage: asyncMethod('camera.pickImage', (): CameraResult => ({
+        uri: 'mock://camera/library.jpg',
+        width: 1080,
+        height: 1080,
+        type: 'image',
+      })),
+    },
+
+    location: {
+      getCurrentPosition: asyncMethod('location.getCurrentPosition', (): LocationResult => ({
+        latitude: 37.7749,
+        longitude: -122.4194,
+        accuracy: 10,
+      })),
+      watchPosition: syncMethod('location.watchPosition', (callback: (position: LocationResult) => void) => {
+        const timer = setTimeout(() => callback({ latitude: 37.7749, longitude: -122.4194, accuracy: 10 }), 0);
+        return () => clearTimeout(timer);
+      }),
+    },
+
+    biometric: {
+      isAvailable: asyncMethod('biometric.isAvailable', () => true),
+      authenticate: asyncMethod('biometric.authenticate', (): BiometricResult => ({
+        success: true,
+        biometricType: 'FaceID',
+      })),
+    },
+
+    clipboard: {
+      copy: asyncMethod('clipboard.copy', (text: string) => {
+        clipboardText = text;
+      }),
+      paste: asyncMethod('clipboard.paste', () => clipboardText),
+    },
+
+    showPopup: asyncMethod('showPopup', (popup: PopupOptions): PopupResult => ({
+      button_id: options.popupResult ?? popup.buttons?.[0]?.id,
+    })),
+    showAlert: asyncMethod('showAlert', () => undefined),
+    showConfirm: asyncMethod('showConfirm', () => options.confirmResult ?? true),
+
+    MainButton: button('MainButton'),
+    SecondaryButton: button('SecondaryButton'),
+    BackButton: (({ show, hide, onClick }) => ({ show, hide, onClick }))(button('BackButton')),
+
+    CloudStorage: {
+      setItem: asyncMethod('CloudStorage.setItem', (key: string, value: string) => {
+        if (!cloudStorage.has(key) && cloudStorage.size >= 1024) {
+          throw new DOMException('CloudStorage quota exceeded (1024 items)', 'QuotaExceededError');
+        }
+        cloudStorage.set(key, value);
+      }),
+      getItem: asyncMethod('CloudStorage.getItem', (key: string) => cloudStorage.get(key) ?? null),
+      removeItem: asyncMethod('CloudStorage.removeItem', (key: string) => {
+        cloudStorage.delete(key);
+      }),
+      getKeys: asyncMethod('CloudStorage.getKeys', () => Array.from(cloudStorage.keys())),
+    },
+
+    analytics: {
+      track: asyncMethod('analytics.track', () => undefined),
+      identify: asyncMethod('analytics.identify', () => undefined),
+      trackScreen: asyncMethod('analytics.trackScreen', () => undefined),
+      setUserProperties: asyncMethod('analytics.setUserProperties', () => undefined),
+      reset: asyncMethod('analytics.reset', () => undefined),
+      isEnabled: asyncMethod('analytics.isEnabled', () => analyticsEnabled),
+      optOut: asyncMethod('analytics.optOut', () => {
+        analyticsEnabled = false;
+      }),
+      optIn: asyncMethod('analytics.optIn', () => {
+        analyticsEnabled = true;
+      }),
+    },
+
+    on: syncMethod('on', (event: MovementSDKEvent, callback: MovementSDKEventListener<MovementSDKEvent>) =>
+      events.on(event, callback)
+    ) as MovementSDK['on'],
+  };
+
+  const hasWindow = typeof window !== 'undefined';
+  const previous = hasWindow ? window.movementSDK : undefined;
+  if (hasWindow && options.install !== false) {
+    window.movementSDK = sdk;
+  }
+
+  const click = (name: keyof typeof buttons) => {
+    for (const callback of buttonCallbacks[name]) {
+      callback();
+    }
+  };
+
+  return {
+    sdk,
+    calls,
+    getCalls: method => calls.filter(call => call.method === method),
+    clearCalls: () => {
+      calls.length = 0;
+    },
+
+    setAccount: account => {
+      const index = typeof account === 'number'
+        ? account
+        : accounts.findIndex(a => a.address === account);
+      if (index < 0 || index >= accounts.length) {
+        throw new Error(`Unknown mock account: ${account}`);
+      }
+      if (index === activeIndex) return;
+      activeIndex = index;
+      if (connected) {
+        const { address, publicKey } = activeAccount();
+        events.emit('accountChanged', { address, publicKey });
+      }
+    },
+    setConnected: value => {
+      if (value === connected) return;
+      connected = value;
+      if (connected) {
+        const { address, publicKey } = activeAccount();
+        events.emit('accountChanged', { address, publicKey });
+      } else {
+        events.emit('disconnected', undefined);
+      }
+    },
+    setBalance: (address, balance) => {
+      balances.set(address, balance);
+      if (connected && address === activeAccount().address) {
+        events.emit('balanceChanged', { address, balance });
+      }
+    },
+    setNetwork: value => {
+      network = MOVEMENT_NETWORKS[value];
+      events.emit('networkChanged', { network: network.network, chainId: network.chainId });
+    },
+    setTheme: value => {
+      theme = value;
+      events.emit('themeChanged', value);
+    },
+    emit: (event, payload) => events.emit(event, payload),
+    setViewResponse: (fn, response) => {
+      viewResponses.set(fn, response);
+    },
+    setLatency: value => {
+      latency = value;
+    },
+    setFailure: (method, failure) => {
+      if (failure) {
+        failures.set(method, failure);
+      } else {
+        failures.delete(method);
+      }
+    },
+    failNext: (method, error, times = 1) => {
+      const queue = pendingFailures.get(method) ?? [];
+      for (let i = 0; i < times; i++) {
+        queue.push(error);
+      }
+      pendingFailures.set(method, queue);
+    },
+
+    clickMainButton: () => click('MainButton'),
+    clickSecondaryButton: () => click('SecondaryButton'),
+    clickBackButton: () => click('BackButton'),
+    buttons,
+
+    uninstall: () => {
+      if (hasWindow && window.movementSDK === sdk) {
+        window.movementSDK = previous;
+      }
+      disposeHostEvents(sdk);
+    },
+  };
+}
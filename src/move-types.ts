@@ -0,0 +1,372 @@
+/**
+ * Move type system
+ * Parses Move type strings as they appear in ABIs and type_arguments
+ */
+
+import { ValidationError } from './errors';
+
+export type MoveIntegerType = 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'u256';
+
+export type MoveType =
+  | { kind: 'bool' }
+  | { kind: MoveIntegerType }
+  | { kind: 'address' }
+  | { kind: 'signer' }
+  | { kind: 'reference'; mutable: boolean; type: MoveType }
+  | { kind: 'vector'; element: MoveType }
+  | { kind: 'struct'; address: string; module: string; name: string; typeArgs: MoveType[] }
+  | { kind: 'generic'; index: number };
+
+/**
+ * An argument in the JSON form the host expects (see coerceMoveArgument)
+ */
+export type MoveArgumentValue = boolean | number | string | null | MoveArgumentValue[];
+
+export const MOVE_INTEGER_TYPES: readonly MoveIntegerType[] = ['u8', 'u16', 'u32', 'u64', 'u128', 'u256'];
+
+const PRIMITIVES = new Set<string>(['bool', 'address', 'signer', ...MOVE_INTEGER_TYPES]);
+
+/**
+ * Normalize an address for comparison: lower case, no leading zeros ('0x0001' -> '0x1')
+ */
+export function normalizeAddress(address: string): string {
+  const hex = address.toLowerCase().replace(/^0x/, '').replace(/^0+/, '');
+  return '0x' + (hex || '0');
+}
+
+function tokenize(input: string): string[] {
+  const tokens = input.match(/&mut\b|&|<|>|,|::|[A-Za-z0-9_]+|\S/g);
+  return tokens ?? [];
+}
+
+class TypeParser {
+  private tokens: string[];
+  private pos = 0;
+
+  constructor(private input: string) {
+    this.tokens = tokenize(input);
+  }
+
+  private fail(): never {
+    throw new ValidationError(`Invalid Move type: ${this.input}`);
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.pos++];
+    if (token === undefined) this.fail();
+    return token;
+  }
+
+  private expect(token: string) {
+    if (this.next() !== token) this.fail();
+  }
+
+  parse(): MoveType {
+    const token = this.next();
+
+    if (token === '&' || token === '&mut') {
+      return { kind: 'reference', mutable: token === '&mut', type: this.parse() };
+    }
+
+    if (token === 'vector') {
+      this.expect('<');
+      const element = this.parse();
+      this.expect('>');
+      return { kind: 'vector', element };
+    }
+
+    if (PRIMITIVES.has(token)) {
+      return { kind: token } as MoveType;
+    }
+
+    const generic = /^T(\d+)$/.exec(token);
+    if (generic) {
+      return { kind: 'generic', index: Number(generic[1]) };
+    }
+
+    if (/^0x[0-9a-fA-F]+$|^\d+$/.test(token)) {
+      this.expect('::');
+      const module = this.next();
+      this.expect('::');
+      const name = this.next();
+      const typeArgs: MoveType[] = [];
+
+      if (this.peek() === '<') {
+        this.next();
+        typeArgs.push(this.parse());
+        while (this.peek() === ',') {
+          this.next();
+          typeArgs.push(this.parse());
+        }
+        this.expect('>');
+      }
+
+      const address = token.startsWith('0x') ? token : '0x' + token;
+      return { kind: 'struct', address, module, name, typeArgs };
+    }
+
+    return this.fail();
+  }
+
+  end() {
+    if (this.pos !== this.tokens.length) this.fail();
+  }
+}
+
+/**
+ * Parse a Move type string such as `vector<0x1::option::Option<u64>>`
+ * @throws ValidationError if the string is not a valid Move type
+ */
+export function parseMoveType(input: string): MoveType {
+  const parser = new TypeParser(input);
+  const type = parser.parse();
+  parser.end();
+  return type;
+}
+
+/**
+ * Format a parsed type back to its canonical string form
+ */
+export function formatMoveType(type: MoveType): string {
+  switch (type.kind) {
+    case 'reference':
+      return (type.mutable ? '&mut ' : '&') + formatMoveType(type.type);
+    case 'vector':
+      return `vector<${formatMoveType(type.element)}>`;
+    case 'struct': {
+      const args = type.typeArgs.length > 0 ? `<${type.typeArgs.map(formatMoveType).join(', ')}>` : '';
+      return `${type.address}::${type.module}::${type.name}${args}`;
+    }
+    case 'generic':
+      return `T${type.index}`;
+    default:
+      return type.kind;
+  }
+}
+
+/**
+ * Whether a type is the given struct, e.g. isMoveStruct(t, '0x1', 'string', 'String')
+ */
+export function isMoveStruct(type: MoveType, address: string, module: string, name: string): boolean {
+  return type.kind === 'struct'
+    && normalizeAddress(type.address) === normalizeAddress(address)
+    && type.module === module
+    && type.name === name;
+}
+
+export const isMoveString = (type: MoveType) => isMoveStruct(type, '0x1', 'string', 'String');
+export const isMoveOption = (type: MoveType) => isMoveStruct(type, '0x1', 'option', 'Option');
+export const isMoveObject = (type: MoveType) => isMoveStruct(type, '0x1', 'object', 'Object');
+
+// ============================================================================
+// Argument Checking
+// ============================================================================
+
+const INTEGER_BITS: Record<MoveIntegerType, number> = {
+  u8: 8, u16: 16, u32: 32, u64: 64, u128: 128, u256: 256,
+};
+
+/**
+ * Parse an integer argument (bigint, safe integer or decimal string)
+ * Returns null instead of throwing on anything else
+ */
+export function parseMoveInteger(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return Number.isSafeInteger(value) ? BigInt(value) : null;
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) return BigInt(value.trim());
+  return null;
+}
+
+/**
+ * Whether a string is a valid account address (0x followed by 1-64 hex digits)
+ */
+export function isMoveAddress(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{1,64}$/.test(value);
+}
+
+/**
+ * Replace generic type parameters (T0, T1, ...) with concrete type arguments
+ */
+export function substituteMoveType(type: MoveType, typeArgs: MoveType[]): MoveType {
+  switch (type.kind) {
+    case 'generic':
+      return typeArgs[type.index] ?? type;
+    case 'reference':
+      return { ...type, type: substituteMoveType(type.type, typeArgs) };
+    case 'vector':
+      return { ...type, element: substituteMoveType(type.element, typeArgs) };
+    case 'struct':
+      return { ...type, typeArgs: type.typeArgs.map(arg => substituteMoveType(arg, typeArgs)) };
+    default:
+      return type;
+  }
+}
+
+/**
+ * Whether a type is signer or &signer (supplied by the wallet, never an argument)
+ */
+export function isMoveSigner(type: MoveType): boolean {
+  return type.kind === 'signer' || (type.kind === 'reference' && type.type.kind === 'signer');
+}
+
+/**
+ * Check a single argument against its Move type and coerce it to the JSON
+ * form the host expects: u8-u32 as numbers, u64+ as decimal strings,
+ * vector<u8> as a hex string, Option<T> as the value or null.
+ * @throws ValidationError naming the offending field
+ */
+export function coerceMoveArgument(type: MoveType, value: unknown, field = 'argument'): MoveArgumentValue {
+  const invalid = (expected: string): never => {
+    throw new ValidationError(`Expected ${expected} for ${field}, got ${describeValue(value)}`, field);
+  };
+
+  switch (type.kind) {
+    case 'bool':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return invalid('bool');
+
+    case 'u8':
+    case 'u16':
+    case 'u32':
+    case 'u64':
+    case 'u128':
+    case 'u256': {
+      const int = parseMoveInteger(value);
+      if (int === null || int < 0n || int >= 1n << BigInt(INTEGER_BITS[type.kind])) {
+        return invalid(type.kind);
+      }
+      return INTEGER_BITS[type.kind] <= 32 ? Number(int) : int.toString();
+    }
+
+    case 'address':
+      if (!isMoveAddress(value)) return invalid('address');
+      return value.toLowerCase();
+
+    case 'vector':
+      if (type.element.kind === 'u8') {
+        if (value instanceof Uint8Array) return encodeHex(value);
+        if (typeof value === 'string' && /^0x([0-9a-fA-F]{2})*$/.test(value)) return value.toLowerCase();
+        if (!Array.isArray(value)) return invalid('vector<u8> (Uint8Array or hex string)');
+      }
+      if (!Array.isArray(value)) return invalid(formatMoveType(type));
+      return value.map((item, i) => coerceMoveArgument(type.element, item, `${field}[${i}]`));
+
+    case 'reference':
+      return coerceMoveArgument(type.type, value, field);
+
+    case 'struct':
+      if (isMoveString(type)) {
+        if (typeof value !== 'string') return invalid('String');
+        return value;
+      }
+      if (isMoveOption(type)) {
+        if (value === null || value === undefined) return null;
+        return coerceMoveArgument(type.typeArgs[0], value, field);
+      }
+      if (isMoveObject(type)) {
+        if (!isMoveAddress(value)) return invalid('Object address');
+        return value.toLowerCase();
+      }
+      throw new ValidationError(`${formatMoveType(type)} cannot be passed as an argument (${field})`, field);
+
+    case 'signer':
+      throw new ValidationError(`signer cannot be passed as an argument (${field})`, field);
+
+    case 'generic':
+      throw new ValidationError(`Missing type argument T${type.index} for ${field}`, field);
+  }
+}
+
+/**
+ * Check and coerce entry function arguments against the function's parameter
+ * types (leading signer parameters are skipped)
+ * @throws ValidationError naming the offending field
+ */
+export function coerceMoveArguments(
+  parameters: Array<string | MoveType>,
+  args: unknown[],
+  typeArguments: string[] = []
+): MoveArgumentValue[] {
+  const typeArgs = typeArguments.map((typeArg, i) => parseTypeArgument(typeArg, `type_arguments[${i}]`));
+  const types = parameters
+    .map(param => (typeof param === 'string' ? parseMoveType(param) : param))
+    .filter(param => !isMoveSigner(param))
+    .map(param => substituteMoveType(param, typeArgs));
+
+  if (types.length !== args.length) {
+    throw new ValidationError(`Expected ${types.length} arguments, got ${args.length}`, 'arguments');
+  }
+
+  return types.map((type, i) => coerceMoveArgument(type, args[i], `arguments[${i}]`));
+}
+
+/**
+ * Parse a concrete type argument (no generics, references or signer)
+ * @throws ValidationError naming the offending field
+ */
+export function parseTypeArgument(input: string, field = 'type_arguments'): MoveType {
+  let type: MoveType;
+  try {
+    type = parseMoveType(input);
+  } catch {
+    throw new ValidationError(`Invalid type argument: ${input}`, field);
+  }
+  if (!isConcrete(type)) {
+    throw new ValidationError(`Type argument must be a concrete type: ${input}`, field);
+  }
+  return type;
+}
+
+function isConcrete(type: MoveType): boolean {
+  switch (type.kind) {
+    case 'generic':
+    case 'reference':
+    case 'signer':
+      return false;
+    case 'vector':
+      return isConcrete(type.element);
+    case 'struct':
+      return type.typeArgs.every(isConcrete);
+    default:
+      return true;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return String(value);
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? value.slice(0, 40) + '…' : value);
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'bigint' ? `${value}n` : typeof value === 'object' ? 'object' : String(value);
+}
+
+/**
+ * Hex-encode bytes with a 0x prefix
+ */
+export function encodeHex(bytes: Uint8Array): string {
+  let hex = '0x';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Decode a 0x-prefixed (or bare) hex string
+ * @throws ValidationError if the string is not valid hex
+ */
+export function decodeHex(hex: string): Uint8Array {
+  const body = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (body.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(body)) {
+    throw new ValidationError(`Invalid hex string: ${hex}`);
+  }
+  const bytes = new Uint8Array(body.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(body.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
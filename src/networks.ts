@@ -0,0 +1,43 @@
+/**
+ * Known Movement networks
+ */
+
+import type { NetworkInfo } from './types';
+
+export const MOVEMENT_NETWORKS: Record<NetworkInfo['network'], NetworkInfo> = {
+  mainnet: {
+    chainId: 126,
+    network: 'mainnet',
+    rpcUrl: 'https://mainnet.movementnetwork.xyz/v1',
+    explorerUrl: 'https://explorer.movementnetwork.xyz',
+  },
+  testnet: {
+    chainId: 250,
+    network: 'testnet',
+    rpcUrl: 'https://testnet.movementnetwork.xyz/v1',
+    explorerUrl: 'https://explorer.movementnetwork.xyz',
+  },
+  devnet: {
+    chainId: 4,
+    network: 'devnet',
+    rpcUrl: 'http://localhost:8080/v1',
+    explorerUrl: 'https://explorer.movementnetwork.xyz',
+  },
+};
+
+/**
+ * Resolve the network name reported by the host (e.g. `sdk.network`) to its NetworkInfo
+ */
+export function getNetworkInfo(network: string | null | undefined): NetworkInfo | null {
+  if (!network) return null;
+  return MOVEMENT_NETWORKS[network.toLowerCase() as NetworkInfo['network']] ?? null;
+}
+
+/**
+ * Explorer link for a transaction hash
+ */
+export function getExplorerUrl(hash: string, network: NetworkInfo | string | null | undefined): string | null {
+  const info = typeof network === 'string' || network == null ? getNetworkInfo(network) : network;
+  if (!info) return null;
+  return `${info.explorerUrl}/txn/${hash}?network=${info.network}`;
+}
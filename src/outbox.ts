@@ -0,0 +1,358 @@
+/**
+ * Transaction outbox
+ * Persists transaction intents before they reach the wallet, so a payload
+ * survives the app being backgrounded or going offline, and resubmits
+ * pending intents once the SDK is ready again
+ */
+
+import type { MovementSDK, TransactionPayload } from './types';
+import { normalizeError, type MovementSDKError, type MovementSDKErrorCode } from './errors';
+import { encodeHex } from './move-types';
+import { randomBytes } from './crypto';
+
+/**
+ * `unknown`: the wallet may have signed and broadcast the transaction (the app
+ * was killed mid-prompt, or the host timed out or failed). It is never
+ * resubmitted automatically; check the account's transactions, then retry()
+ * or remove() it.
+ */
+export type OutboxStatus = 'queued' | 'awaiting_signature' | 'submitted' | 'failed' | 'unknown';
+
+export interface OutboxEntry {
+  /** Client-generated intent ID; enqueueing the same ID twice is a no-op */
+  id: string;
+  payload: TransactionPayload;
+  status: OutboxStatus;
+  /** Submission attempts so far */
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Set once submitted */
+  hash?: string;
+  /** Last failure */
+  error?: { code: MovementSDKErrorCode; message: string };
+}
+
+export interface OutboxStorage {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface OutboxOptions {
+  /** Where entries are persisted (default: host storage, then localStorage) */
+  storage?: OutboxStorage;
+  /** Storage key (default 'movement:outbox') */
+  storageKey?: string;
+  /** Attempts before a retryable failure is final (default 3) */
+  maxAttempts?: number;
+  /** Resubmit when the app returns to the foreground or comes back online (default true) */
+  autoResume?: boolean;
+}
+
+export type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const DEFAULT_STORAGE_KEY = 'movement:outbox';
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Failures raised before the host accepted the payload, so nothing can have been
+// signed; anything else (rejection, validation, policy) is final
+const RETRYABLE_CODES: MovementSDKErrorCode[] = ['NOT_CONNECTED', 'NOT_INSTALLED', 'RATE_LIMITED'];
+
+// Failures after the host accepted the payload: it may have been broadcast anyway
+const UNKNOWN_OUTCOME_CODES: MovementSDKErrorCode[] = ['TIMEOUT', 'HOST_ERROR'];
+
+/**
+ * A new random intent ID
+ */
+export function generateIntentId(): string {
+  return encodeHex(randomBytes(16)).slice(2);
+}
+
+/**
+ * Host device storage when available, otherwise localStorage, otherwise memory
+ */
+export function getOutboxStorage(sdk: MovementSDK): OutboxStorage {
+  if (sdk.storage) {
+    return sdk.storage;
+  }
+
+  if (typeof localStorage !== 'undefined') {
+    return {
+      get: async key => localStorage.getItem(key),
+      set: async (key, value) => localStorage.setItem(key, value),
+      remove: async key => localStorage.removeItem(key),
+    };
+  }
+
+  const memory = new Map<string, string>();
+  return {
+    get: async key => memory.get(key) ?? null,
+    set: async (key, value) => {
+      memory.set(key, value);
+    },
+    remove: async key => {
+      memory.delete(key);
+    },
+  };
+}
+
+// Payloads may carry bigints and byte arrays, which JSON cannot represent
+const serialize = (entries: OutboxEntry[]) =>
+  JSON.stringify(entries, (_, value) => {
+    if (typeof value === 'bigint') return value.toString();
+    if (value instanceof Uint8Array) return encodeHex(value);
+    return value;
+  });
+
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<OutboxListener>();
+  private storage: OutboxStorage;
+  private storageKey: string;
+  private maxAttempts: number;
+  private loading: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private sdk: MovementSDK, options: OutboxOptions = {}) {
+    this.storage = options.storage ?? getOutboxStorage(sdk);
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.loaded().catch(() => undefined);
+
+    if (options.autoResume !== false && typeof window !== 'undefined' && window.addEventListener) {
+      const doc = typeof document !== 'undefined' ? document : undefined;
+      const onResume = () => {
+        if (!doc || doc.visibilityState === 'visible') {
+          this.resume().catch(() => undefined);
+        }
+      };
+      window.addEventListener('online', onResume);
+      doc?.addEventListener('visibilitychange', onResume);
+      this.unsubscribers.push(() => {
+        window.removeEventListener('online', onResume);
+        doc?.removeEventListener('visibilitychange', onResume);
+      });
+    }
+  }
+
+  /**
+   * Load stored entries once. A failed read rejects and is tried again on the
+   * next call, so stored intents are never overwritten by an empty outbox.
+   */
+  private loaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch(error => {
+        this.loading = null;
+        throw normalizeError(error);
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const stored = await this.storage.get(this.storageKey);
+    let entries: OutboxEntry[] = [];
+    try {
+      entries = stored ? JSON.parse(stored) : [];
+    } catch {
+      // Unreadable, so there is nothing to keep
+    }
+
+    // The wallet never answered for these (e.g. the app was killed mid-prompt),
+    // so they may have been signed
+    this.entries = entries.map(entry =>
+      entry.status === 'awaiting_signature' ? { ...entry, status: 'unknown' } : entry
+    );
+    this.notify();
+  }
+
+  private async persist(): Promise<void> {
+    if (this.entries.length === 0) {
+      await this.storage.remove(this.storageKey);
+    } else {
+      await this.storage.set(this.storageKey, serialize(this.entries));
+    }
+  }
+
+  private async update(id: string, patch: Partial<OutboxEntry>): Promise<void> {
+    this.entries = this.entries.map(entry =>
+      entry.id === id ? { ...entry, ...patch, updatedAt: Date.now() } : entry
+    );
+    this.notify();
+    await this.persist();
+  }
+
+  /**
+   * All entries, oldest first. The array is replaced on every change.
+   */
+  getEntries(): OutboxEntry[] {
+    return this.entries;
+  }
+
+  getEntry(id: string): OutboxEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    for (const listener of Array.from(this.listeners)) {
+      listener(this.entries);
+    }
+  }
+
+  /**
+   * Save a transaction intent, then submit it. Resolves once the intent is
+   * persisted; follow progress through subscribe() or getEntry().
+   */
+  async enqueue(payload: TransactionPayload, options: { id?: string } = {}): Promise<OutboxEntry> {
+    await this.loaded();
+
+    const id = options.id ?? generateIntentId();
+    const existing = this.getEntry(id);
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const entry: OutboxEntry = { id, payload, status: 'queued', attempts: 0, createdAt: now, updatedAt: now };
+    this.entries = [...this.entries, entry];
+    this.notify();
+    await this.persist();
+
+    this.flush().catch(() => undefined);
+    return entry;
+  }
+
+  /**
+   * Submit queued entries, one at a time and in order. Does nothing until a
+   * wallet is connected.
+   */
+  flush(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    await this.loaded();
+
+    let entry: OutboxEntry | undefined;
+    while (!this.destroyed && this.sdk.isConnected && (entry = this.entries.find(item => item.status === 'queued'))) {
+      const attempts = entry.attempts + 1;
+      await this.update(entry.id, { status: 'awaiting_signature', attempts });
+
+      try {
+        const result = await this.sdk.sendTransaction(entry.payload);
+        await this.update(entry.id, result.success
+          ? { status: 'submitted', hash: result.hash, error: undefined }
+          : { status: 'failed', hash: result.hash, error: { code: 'TRANSACTION_FAILED', message: result.vmStatus ?? 'Transaction failed' } });
+      } catch (err) {
+        const error = normalizeError(err);
+        const retry = RETRYABLE_CODES.includes(error.code) && attempts < this.maxAttempts;
+        await this.update(entry.id, {
+          status: retry ? 'queued' : UNKNOWN_OUTCOME_CODES.includes(error.code) ? 'unknown' : 'failed',
+          error: { code: error.code, message: error.message },
+        });
+
+        // Leave the rest of the queue for the next resume, or until the rate limit resets
+        if (retry) {
+          this.scheduleRetry(error);
+          return;
+        }
+      }
+    }
+  }
+
+  // Nothing resumes the outbox when a rate limit resets, so wait for it
+  private scheduleRetry(error: MovementSDKError) {
+    if (this.destroyed || error.retryAfterMs === undefined) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush().catch(() => undefined);
+    }, error.retryAfterMs);
+  }
+
+  /**
+   * Wait for the SDK to be ready again, then submit pending entries
+   */
+  async resume(): Promise<void> {
+    if (this.destroyed) return;
+    await this.sdk.ready();
+    await this.flush();
+  }
+
+  /**
+   * Queue a failed entry, or one whose outcome is unknown, again with a fresh
+   * attempt budget. For an unknown outcome, only do this once you know the
+   * transaction was not executed.
+   */
+  async retry(id: string): Promise<void> {
+    await this.loaded();
+    const status = this.getEntry(id)?.status;
+    if (status !== 'failed' && status !== 'unknown') return;
+    await this.update(id, { status: 'queued', attempts: 0 });
+    this.flush().catch(() => undefined);
+  }
+
+  /**
+   * Drop an entry that is not waiting on the wallet
+   */
+  async remove(id: string): Promise<void> {
+    await this.loaded();
+    if (this.getEntry(id)?.status === 'awaiting_signature') return;
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.notify();
+    await this.persist();
+  }
+
+  /**
+   * Drop submitted and failed entries (entries with an unknown outcome stay)
+   */
+  async clear(): Promise<void> {
+    await this.loaded();
+    this.entries = this.entries.filter(entry => entry.status !== 'submitted' && entry.status !== 'failed');
+    this.notify();
+    await this.persist();
+  }
+
+  /**
+   * Stop submitting. A transaction already with the wallet is still recorded,
+   * but no further entries are sent.
+   */
+  destroy(): void {
+    this.destroyed = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Create an outbox and resubmit anything left pending by a previous session
+ */
+export function createOutbox(sdk: MovementSDK, options?: OutboxOptions): Outbox {
+  const outbox = new Outbox(sdk, options);
+  outbox.flush().catch(() => undefined);
+  return outbox;
+}
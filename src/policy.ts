@@ -0,0 +1,336 @@
+/**
+ * Spending policy
+ * Declarative allow/deny lists, per-function amount limits, cumulative spend
+ * caps and recipient allowlists, enforced before a transaction reaches the wallet
+ */
+
+import type { TransactionPayload } from './types';
+import { PolicyViolationError } from './errors';
+import { normalizeAddress, parseMoveInteger } from './move-types';
+
+type Amount = string | number | bigint;
+
+/**
+ * Where a function keeps the amount, asset and recipient of a transfer
+ */
+export interface FunctionSpendRule {
+  /** Index of the amount argument (a vector<u64> argument is summed) */
+  amount: number;
+  /**
+   * Asset being spent: a fixed coin type / metadata address, or the index of
+   * the type argument or argument that names it
+   */
+  asset?: string | { typeArgument: number } | { argument: number };
+  /** Index of the recipient argument (address or vector<address>) */
+  recipient?: number;
+  /** Maximum amount per call */
+  max?: Amount;
+}
+
+export interface SpendCap {
+  /** Maximum for a single transaction (or a whole batch) */
+  perTransaction?: Amount;
+  /** Maximum total for the lifetime of the SDK instance */
+  perSession?: Amount;
+  /** Maximum total within a rolling window */
+  perWindow?: { amount: Amount; windowMs: number };
+}
+
+export interface SpendingPolicy {
+  /**
+   * Only these targets may be called. Entries are an address ('0x1'), a module
+   * ('0x1::coin') or a function ('0x1::coin::transfer'). Empty allows everything.
+   */
+  allow?: string[];
+  /** These targets may never be called (same format as allow, checked first) */
+  deny?: string[];
+  /** Spend rules by function id; merged over the built-in framework rules */
+  functions?: Record<string, FunctionSpendRule>;
+  /** Caps by asset (coin type or fungible asset metadata address), '*' for any asset */
+  caps?: Record<string, SpendCap>;
+  /** Only these recipients may receive transfers. Empty allows everyone. */
+  recipients?: string[];
+  /**
+   * Allow transfers whose asset cannot be read while caps are set. They count
+   * against the '*' cap. Rejected by default.
+   */
+  allowUnknownAssets?: boolean;
+}
+
+/**
+ * An amount of one asset spent by a payload
+ */
+export interface PolicySpend {
+  /** Canonical asset, '*' when the payload does not say which */
+  asset: string;
+  amount: bigint;
+}
+
+export const MOVE_COIN_TYPE = '0x1::aptos_coin::AptosCoin';
+
+// Framework transfer functions tracked without any configuration
+export const DEFAULT_SPEND_RULES: Record<string, FunctionSpendRule> = {
+  '0x1::aptos_account::transfer': { amount: 1, recipient: 0, asset: MOVE_COIN_TYPE },
+  '0x1::aptos_account::batch_transfer': { amount: 1, recipient: 0, asset: MOVE_COIN_TYPE },
+  '0x1::aptos_account::transfer_coins': { amount: 1, recipient: 0, asset: { typeArgument: 0 } },
+  '0x1::aptos_account::batch_transfer_coins': { amount: 1, recipient: 0, asset: { typeArgument: 0 } },
+  '0x1::coin::transfer': { amount: 1, recipient: 0, asset: { typeArgument: 0 } },
+  '0x1::aptos_account::transfer_fungible_assets': { amount: 2, recipient: 1, asset: { argument: 0 } },
+  '0x1::primary_fungible_store::transfer': { amount: 2, recipient: 1, asset: { argument: 0 } },
+};
+
+/**
+ * Canonical form of an address, module, function or type id (addresses normalized)
+ */
+export function canonicalMoveId(id: string): string {
+  return id.replace(/0x[0-9a-fA-F]+/g, normalizeAddress);
+}
+
+function matches(target: string, pattern: string): boolean {
+  const canonicalPattern = canonicalMoveId(pattern);
+  return target === canonicalPattern || target.startsWith(canonicalPattern + '::');
+}
+
+/**
+ * What a transfer-like payload moves, read through its spend rule
+ */
+export interface TransferDetails {
+  /** Canonical coin type or fungible asset metadata address, null if unknown */
+  asset: string | null;
+  /** Total amount (vector amounts are summed), null if not an integer */
+  amount: bigint | null;
+  recipients: string[];
+}
+
+/**
+ * Read the asset, amount and recipients of a transfer. Uses the built-in rule
+ * for framework transfer functions unless a rule is given; null if there is none.
+ */
+export function readTransfer(
+  payload: TransactionPayload,
+  rule: FunctionSpendRule | undefined = DEFAULT_SPEND_RULES[canonicalMoveId(payload.function)]
+): TransferDetails | null {
+  if (!rule) return null;
+
+  let asset: unknown = rule.asset;
+  if (rule.asset && typeof rule.asset === 'object') {
+    asset = 'typeArgument' in rule.asset
+      ? payload.type_arguments[rule.asset.typeArgument]
+      : payload.arguments[rule.asset.argument];
+  }
+  if (asset && typeof asset === 'object' && 'inner' in asset) {
+    // Object<Metadata> passed in its JSON form
+    asset = (asset as { inner: unknown }).inner;
+  }
+
+  const recipient = rule.recipient === undefined ? [] : payload.arguments[rule.recipient];
+
+  return {
+    asset: typeof asset === 'string' ? canonicalMoveId(asset) : null,
+    amount: sumAmounts(payload.arguments[rule.amount]),
+    recipients: (Array.isArray(recipient) ? recipient : [recipient]).map(String),
+  };
+}
+
+function sumAmounts(value: unknown): bigint | null {
+  if (!Array.isArray(value)) return parseMoveInteger(value);
+  let total = 0n;
+  for (const item of value) {
+    const amount = parseMoveInteger(item);
+    if (amount === null) return null;
+    total += amount;
+  }
+  return total;
+}
+
+function assetField(rule: FunctionSpendRule): string {
+  if (rule.asset && typeof rule.asset === 'object') {
+    return 'typeArgument' in rule.asset ? `type_arguments[${rule.asset.typeArgument}]` : `arguments[${rule.asset.argument}]`;
+  }
+  return 'function';
+}
+
+function toAmount(value: Amount): bigint {
+  return BigInt(value);
+}
+
+interface SpendRecord extends PolicySpend {
+  at: number;
+}
+
+export class SpendingPolicyEngine {
+  private rules = new Map<string, FunctionSpendRule>();
+  private caps = new Map<string, SpendCap>();
+  private history: SpendRecord[] = [];
+  private sessionTotals = new Map<string, bigint>();
+
+  constructor(private policy: SpendingPolicy = {}, defaultCaps: Record<string, SpendCap> = {}) {
+    for (const [fn, rule] of Object.entries({ ...DEFAULT_SPEND_RULES, ...policy.functions })) {
+      this.rules.set(canonicalMoveId(fn), rule);
+    }
+    for (const [asset, cap] of Object.entries({ ...defaultCaps, ...policy.caps })) {
+      this.caps.set(asset === '*' ? asset : canonicalMoveId(asset), cap);
+    }
+  }
+
+  /**
+   * Check every payload (a batch is checked as a whole) and reserve what it
+   * spends against the session and window caps, so concurrent calls cannot
+   * exceed them together. Release the reservation if nothing was sent.
+   * @throws PolicyViolationError naming the rule that failed
+   */
+  check(payloads: TransactionPayload[]): PolicySpend[] {
+    const totals = new Map<string, bigint>();
+
+    payloads.forEach((payload, index) => {
+      const prefix = payloads.length > 1 ? `transactions[${index}].` : '';
+      for (const spend of this.checkPayload(payload, prefix)) {
+        totals.set(spend.asset, (totals.get(spend.asset) ?? 0n) + spend.amount);
+      }
+    });
+
+    const at = Date.now();
+    const spends: SpendRecord[] = Array.from(totals, ([asset, amount]) => ({ asset, amount, at }));
+    spends.forEach(spend => this.checkCaps(spend));
+
+    for (const spend of spends) {
+      this.history.push(spend);
+      this.sessionTotals.set(spend.asset, (this.sessionTotals.get(spend.asset) ?? 0n) + spend.amount);
+    }
+    this.prune(at);
+    return spends;
+  }
+
+  /**
+   * Undo the reservation made by check() (the transaction was rejected or failed)
+   */
+  release(spends: PolicySpend[]): void {
+    for (const spend of spends) {
+      const index = this.history.indexOf(spend as SpendRecord);
+      if (index !== -1) this.history.splice(index, 1);
+
+      const session = (this.sessionTotals.get(spend.asset) ?? 0n) - spend.amount;
+      this.sessionTotals.set(spend.asset, session > 0n ? session : 0n);
+    }
+  }
+
+  /**
+   * Amount of an asset spent this session and within its cap window
+   */
+  getSpent(asset: string): { session: bigint; window: bigint } {
+    const key = canonicalMoveId(asset);
+    const cap = this.caps.get(key) ?? this.caps.get('*');
+    return {
+      session: this.sessionTotals.get(key) ?? 0n,
+      window: cap?.perWindow ? this.windowTotal(key, cap.perWindow.windowMs) : 0n,
+    };
+  }
+
+  private checkPayload(payload: TransactionPayload, prefix: string): PolicySpend[] {
+    const target = canonicalMoveId(payload.function);
+    const field = `${prefix}function`;
+
+    const denied = this.policy.deny?.find(pattern => matches(target, pattern));
+    if (denied) {
+      throw new PolicyViolationError(`${payload.function} is denied by policy (${denied})`, 'deny', field);
+    }
+
+    const allow = this.policy.allow ?? [];
+    if (allow.length > 0 && !allow.some(pattern => matches(target, pattern))) {
+      throw new PolicyViolationError(`${payload.function} is not in the policy allowlist`, 'allow', field);
+    }
+
+    const rule = this.rules.get(target);
+    const transfer = readTransfer(payload, rule);
+    if (!rule || !transfer) return [];
+
+    const { amount, asset } = transfer;
+    const amountField = `${prefix}arguments[${rule.amount}]`;
+    if (amount === null) {
+      throw new PolicyViolationError(`Transfer amount must be an integer`, 'functions.amount', amountField);
+    }
+
+    if (rule.max !== undefined && amount > toAmount(rule.max)) {
+      throw new PolicyViolationError(
+        `Amount ${amount} exceeds the limit of ${rule.max} for ${payload.function}`,
+        'functions.max',
+        amountField
+      );
+    }
+
+    if (rule.recipient !== undefined) {
+      this.checkRecipients(transfer.recipients, `${prefix}arguments[${rule.recipient}]`);
+    }
+
+    if (asset) return [{ asset, amount }];
+
+    // An unreadable asset must not slip past the caps
+    if (this.caps.size > 0 && !this.policy.allowUnknownAssets) {
+      throw new PolicyViolationError(
+        `Cannot tell which asset ${payload.function} spends`,
+        'caps.asset',
+        `${prefix}${assetField(rule)}`
+      );
+    }
+    return [{ asset: '*', amount }];
+  }
+
+  private checkRecipients(recipients: string[], field: string) {
+    const allowed = this.policy.recipients ?? [];
+    if (allowed.length === 0) return;
+
+    const allowSet = new Set(allowed.map(canonicalMoveId));
+    for (const recipient of recipients) {
+      if (!allowSet.has(canonicalMoveId(recipient))) {
+        throw new PolicyViolationError(`Recipient ${recipient} is not in the policy allowlist`, 'recipients', field);
+      }
+    }
+  }
+
+  private checkCaps(spend: PolicySpend) {
+    const cap = this.caps.get(spend.asset) ?? this.caps.get('*');
+    if (!cap) return;
+
+    if (cap.perTransaction !== undefined && spend.amount > toAmount(cap.perTransaction)) {
+      throw new PolicyViolationError(
+        `Amount ${spend.amount} of ${spend.asset} exceeds the per-transaction cap of ${cap.perTransaction}`,
+        'caps.perTransaction'
+      );
+    }
+
+    if (cap.perSession !== undefined) {
+      const total = (this.sessionTotals.get(spend.asset) ?? 0n) + spend.amount;
+      if (total > toAmount(cap.perSession)) {
+        throw new PolicyViolationError(
+          `Spending ${spend.amount} of ${spend.asset} would exceed the session cap of ${cap.perSession}`,
+          'caps.perSession'
+        );
+      }
+    }
+
+    if (cap.perWindow) {
+      const total = this.windowTotal(spend.asset, cap.perWindow.windowMs) + spend.amount;
+      if (total > toAmount(cap.perWindow.amount)) {
+        throw new PolicyViolationError(
+          `Spending ${spend.amount} of ${spend.asset} would exceed the cap of ${cap.perWindow.amount} per ${cap.perWindow.windowMs}ms`,
+          'caps.perWindow'
+        );
+      }
+    }
+  }
+
+  private windowTotal(asset: string, windowMs: number): bigint {
+    const since = Date.now() - windowMs;
+    return this.history
+      .filter(record => record.asset === asset && record.at > since)
+      .reduce((total, record) => total + record.amount, 0n);
+  }
+
+  private prune(now: number) {
+    const longest = Math.max(0, ...Array.from(this.caps.values(), cap => cap.perWindow?.windowMs ?? 0));
+    this.history = this.history.filter(record => now - record.at < longest);
+  }
+}
+
+export const createSpendingPolicy = (policy?: SpendingPolicy, defaultCaps?: Record<string, SpendCap>) =>
+  new SpendingPolicyEngine(policy, defaultCaps);
@@ -0,0 +1,83 @@
+/**
+ * React context for Movement SDK
+ * One provider creates one secured SDK and shares its state with every hook
+ */
+
+import React, { createContext, useContext, useEffect, useState, useSyncExternalStore } from 'react';
+import type { ReactNode } from 'react';
+import type { SecurityConfig } from './security';
+import type { OutboxOptions } from './outbox';
+import type { AnalyticsClientOptions } from './analytics';
+import type { AutoTrackOptions } from './auto-track';
+import {
+  createMovementStore,
+  getDefaultMovementStore,
+  type MovementStore,
+  type MovementState,
+} from './store';
+
+const MovementContext = createContext<MovementStore | null>(null);
+
+export interface MovementProviderProps {
+  /** Security configuration applied to every SDK call in the app (read once on mount) */
+  config?: SecurityConfig;
+  /** ready() timeout in milliseconds (default 5000) */
+  timeout?: number;
+  /** Persist transaction intents and resubmit them after interruptions (read once on mount) */
+  outbox?: boolean | OutboxOptions;
+  /** Analytics sinks, super-properties and batching (read once on mount) */
+  analytics?: AnalyticsClientOptions;
+  /** Track screens, wallet events and MainButton clicks automatically (read once on mount) */
+  autoTrack?: boolean | AutoTrackOptions;
+  /** Rendered instead of children until the SDK is ready, e.g. an "open in Movement" screen */
+  fallback?: ReactNode;
+  children?: ReactNode;
+}
+
+/**
+ * Provide a single secured SDK instance to all Movement hooks.
+ *
+ * @example
+ * ```tsx
+ * <MovementProvider config={{ maxTransactionAmount: '100000000' }} fallback={<OpenInWallet />}>
+ *   <App />
+ * </MovementProvider>
+ * ```
+ */
+export function MovementProvider({ config, timeout, outbox, analytics, autoTrack, fallback, children }: MovementProviderProps) {
+  const [store] = useState(() => createMovementStore({ config, timeout, outbox, analytics, autoTrack }));
+  const { isReady } = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+
+  useEffect(() => {
+    store.init();
+    return () => store.destroy();
+  }, [store]);
+
+  return (
+    <MovementContext.Provider value={store}>
+      {fallback !== undefined && !isReady ? fallback : children}
+    </MovementContext.Provider>
+  );
+}
+
+/**
+ * The store from the nearest MovementProvider, or the shared default store
+ * (created with the default SecurityConfig) when there is none
+ */
+export function useMovementStore(): MovementStore {
+  return useContext(MovementContext) ?? getDefaultMovementStore();
+}
+
+/**
+ * Subscribe to shared SDK state
+ */
+export function useMovementState(): MovementState {
+  const store = useMovementStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+
+  useEffect(() => {
+    store.init();
+  }, [store]);
+
+  return state;
+}
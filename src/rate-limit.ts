@@ -0,0 +1,224 @@
+/**
+ * Rate limiting
+ * Per-method budgets with fixed-window, sliding-window or token-bucket
+ * accounting, and an optional queue that delays over-limit calls
+ */
+
+import type { RateLimitBudget } from './types';
+
+export type RateLimitStrategy = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  /** Calls allowed per window (token-bucket: bucket capacity) */
+  limit: number;
+  /** Window length in milliseconds (token-bucket: time to refill the whole bucket) */
+  windowMs: number;
+  strategy: RateLimitStrategy;
+  /** Reject over-limit calls, or queue them until budget frees up */
+  mode: 'reject' | 'queue';
+  /** Longest a queued call may wait before it is rejected after all */
+  maxQueueMs: number;
+}
+
+export type RateLimitListener = (budget: RateLimitBudget) => void;
+
+interface RateLimitState {
+  // fixed-window
+  count: number;
+  resetTime: number;
+  // sliding-window
+  timestamps: number[];
+  // token-bucket
+  tokens: number;
+  refilledAt: number;
+  // queue
+  queued: number;
+  tail: Promise<unknown>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class RateLimiter {
+  private states = new Map<string, RateLimitState>();
+  private listeners = new Set<RateLimitListener>();
+
+  constructor(
+    private defaults: RateLimitRule,
+    private rules: Record<string, Partial<RateLimitRule>> = {}
+  ) {}
+
+  getRule(method: string): RateLimitRule {
+    return { ...this.defaults, ...this.rules[method] };
+  }
+
+  private state(method: string): RateLimitState {
+    let state = this.states.get(method);
+    if (!state) {
+      state = {
+        count: 0,
+        resetTime: 0,
+        timestamps: [],
+        tokens: this.getRule(method).limit,
+        refilledAt: Date.now(),
+        queued: 0,
+        tail: Promise.resolve(),
+      };
+      this.states.set(method, state);
+    }
+    return state;
+  }
+
+  // Bring the state up to date with the current time
+  private advance(rule: RateLimitRule, state: RateLimitState, now: number) {
+    switch (rule.strategy) {
+      case 'fixed-window':
+        if (now >= state.resetTime) {
+          state.count = 0;
+          state.resetTime = now + rule.windowMs;
+        }
+        break;
+      case 'sliding-window':
+        state.timestamps = state.timestamps.filter(time => now - time < rule.windowMs);
+        break;
+      case 'token-bucket': {
+        const rate = rule.limit / rule.windowMs;
+        state.tokens = Math.min(rule.limit, state.tokens + (now - state.refilledAt) * rate);
+        state.refilledAt = now;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Take one call from the budget if any is left
+   */
+  tryAcquire(method: string): boolean {
+    const rule = this.getRule(method);
+    const state = this.state(method);
+    const now = Date.now();
+    this.advance(rule, state, now);
+
+    let allowed = false;
+    switch (rule.strategy) {
+      case 'fixed-window':
+        allowed = state.count < rule.limit;
+        if (allowed) state.count++;
+        break;
+      case 'sliding-window':
+        allowed = state.timestamps.length < rule.limit;
+        if (allowed) state.timestamps.push(now);
+        break;
+      case 'token-bucket':
+        allowed = state.tokens >= 1;
+        if (allowed) state.tokens -= 1;
+        break;
+    }
+
+    if (allowed) this.notify(method);
+    return allowed;
+  }
+
+  /**
+   * Take one call from the budget, waiting in line when the method is in queue
+   * mode. Resolves false if the call cannot be made (within maxQueueMs).
+   */
+  acquire(method: string): Promise<boolean> {
+    const rule = this.getRule(method);
+    if (rule.mode !== 'queue') {
+      return Promise.resolve(this.tryAcquire(method));
+    }
+
+    const state = this.state(method);
+    const deadline = Date.now() + rule.maxQueueMs;
+
+    const wait = async (): Promise<boolean> => {
+      while (!this.tryAcquire(method)) {
+        const retryAfter = this.getRetryAfter(method);
+        if (Date.now() + retryAfter > deadline) return false;
+        await sleep(Math.max(retryAfter, 1));
+      }
+      return true;
+    };
+
+    // Queued calls are served in order
+    state.queued++;
+    this.notify(method);
+    const result = state.tail.then(wait).finally(() => {
+      state.queued--;
+      this.notify(method);
+    });
+    state.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Milliseconds until the next call to a method is allowed
+   */
+  getRetryAfter(method: string): number {
+    const rule = this.getRule(method);
+    const state = this.state(method);
+    const now = Date.now();
+    this.advance(rule, state, now);
+
+    switch (rule.strategy) {
+      case 'fixed-window':
+        return state.count < rule.limit ? 0 : Math.max(0, state.resetTime - now);
+      case 'sliding-window':
+        return state.timestamps.length < rule.limit
+          ? 0
+          : Math.max(0, state.timestamps[state.timestamps.length - rule.limit] + rule.windowMs - now);
+      case 'token-bucket':
+        return state.tokens >= 1 ? 0 : Math.ceil((1 - state.tokens) * (rule.windowMs / rule.limit));
+    }
+  }
+
+  getBudget(method: string): RateLimitBudget {
+    const rule = this.getRule(method);
+    const state = this.state(method);
+    const now = Date.now();
+    const retryAfterMs = this.getRetryAfter(method);
+
+    let remaining = 0;
+    let resetInMs = 0;
+    switch (rule.strategy) {
+      case 'fixed-window':
+        remaining = rule.limit - state.count;
+        resetInMs = state.count > 0 ? Math.max(0, state.resetTime - now) : 0;
+        break;
+      case 'sliding-window':
+        remaining = rule.limit - state.timestamps.length;
+        resetInMs = state.timestamps.length > 0
+          ? Math.max(0, state.timestamps[state.timestamps.length - 1] + rule.windowMs - now)
+          : 0;
+        break;
+      case 'token-bucket':
+        remaining = Math.floor(state.tokens);
+        resetInMs = Math.ceil((rule.limit - state.tokens) * (rule.windowMs / rule.limit));
+        break;
+    }
+
+    return { method, limit: rule.limit, remaining, retryAfterMs, resetInMs, queued: state.queued };
+  }
+
+  /**
+   * Listen for budget changes (calls taken or queued). Budgets also recover with
+   * time; use resetInMs/retryAfterMs to schedule a re-read.
+   */
+  subscribe(listener: RateLimitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(method: string) {
+    if (this.listeners.size === 0) return;
+    const budget = this.getBudget(method);
+    for (const listener of Array.from(this.listeners)) {
+      listener(budget);
+    }
+  }
+}
+
+export const createRateLimiter = (defaults: RateLimitRule, rules?: Record<string, Partial<RateLimitRule>>) =>
+  new RateLimiter(defaults, rules);
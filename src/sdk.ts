@@ -11,19 +11,238 @@ import type {
   FeePayerTransactionPayload,
   BatchTransactionPayload,
   ScriptComposerPayload,
-  BatchTransactionResult,
   ViewPayload,
+  TransactionResult,
+  TransactionStatusCallback,
+  MovementSDKEvent,
+  MovementSDKEventMap,
+  MovementSDKEventListener,
+  RateLimitBudget,
+  EncryptionKey,
+  AppContext,
+  HapticOptions,
+  NotificationOptions,
+  ShareOptions,
+  PopupOptions,
+  PopupResult,
+  PopupButton,
+  Capabilities,
+  HostCapability,
+  RequireCapabilitiesOptions,
+  SecurityEvent,
+  SecurityEventFilter,
+  SignInInput,
+  SignInMessage,
+  SignInResult,
+  SimulationProvider,
 } from './types';
-import { createSecurityManager, type SecurityConfig } from './security';
+import { createSecurityManager, type SecurityConfig, type ValidationResult } from './security';
+import {
+  RateLimitError,
+  ValidationError,
+  ReplayError,
+  NotInstalledError,
+  NotConnectedError,
+  TimeoutError,
+  MovementSDKError,
+  UnsupportedError,
+  PolicyViolationError,
+  normalizeError,
+} from './errors';
+import {
+  adaptHostSDK,
+  detectHostBridge,
+  getHostEvents,
+  isHostInstalled,
+  type HostBridge,
+  type AdaptedHostSDK,
+  type HostBridgeInfo,
+} from './adapter';
+import type { TypedEventEmitter } from './events';
+import { trackTransaction } from './transaction';
+import { coerceMoveArguments } from './move-types';
+import type { PolicySpend } from './policy';
+import { withTransactionDescription } from './describe';
+import { createHostSimulationProvider, createRestSimulationProvider } from './simulation';
+import { formatSignInMessage } from './sign-in';
+import { getNetworkInfo } from './networks';
+import { deriveKeyFromSignature, getKeyDerivationMessage } from './encryption';
+
+const HOST_CAPABILITIES: HostCapability[] = [
+  'scanQRCode',
+  'simulateTransaction',
+  'onTransactionUpdate',
+  'haptic',
+  'notify',
+  'share',
+  'openUrl',
+  'close',
+  'storage',
+  'camera',
+  'location',
+  'biometric',
+  'clipboard',
+  'showPopup',
+  'showAlert',
+  'showConfirm',
+  'MainButton',
+  'SecondaryButton',
+  'BackButton',
+  'CloudStorage',
+  'analytics',
+];
+
+// Capabilities the host can switch off through AppContext.features
+const CAPABILITY_FEATURES: Partial<Record<HostCapability, keyof AppContext['features']>> = {
+  haptic: 'haptics',
+  notify: 'notifications',
+  camera: 'camera',
+  biometric: 'biometrics',
+  location: 'location',
+};
 
 // Secure SDK wrapper
-class SecureMovementSDK {
-  private sdk: MovementSDK;
+class SecureMovementSDK implements MovementSDK {
+  private bridge: HostBridge;
+  private bridgeInfo: HostBridgeInfo;
+  private sdk: AdaptedHostSDK;
   private security: ReturnType<typeof createSecurityManager>;
-
-  constructor(sdk: MovementSDK, config?: SecurityConfig) {
-    this.sdk = sdk;
+  private events: TypedEventEmitter<MovementSDKEventMap>;
+  private confirmed = new Set<string>();
+  private simulator: SimulationProvider | null = null;
+  private encryptionKeys = new Map<string, Promise<EncryptionKey>>();
+  private context: Promise<AppContext | null> | null = null;
+  private contextInfo: AppContext | null = null;
+  private contextLoaded = false;
+
+  constructor(sdk: HostBridge, config?: SecurityConfig) {
+    this.bridge = sdk;
+    this.bridgeInfo = detectHostBridge(sdk);
+    this.sdk = adaptHostSDK(sdk, this.bridgeInfo);
     this.security = createSecurityManager(config);
+    this.events = getHostEvents(sdk);
+  }
+
+  // Emit transactionConfirmed once per hash
+  private confirm(hash: string, sender: string | null) {
+    if (this.confirmed.has(hash)) return;
+    this.confirmed.add(hash);
+    if (this.confirmed.size > 500) {
+      this.confirmed.delete(this.confirmed.values().next().value as string);
+    }
+    this.events.emit('transactionConfirmed', { hash, sender });
+  }
+
+  // Report a submitted transaction, and follow it in the background while anyone
+  // listens for its outcome
+  private watch(result: TransactionResult, fn?: string): TransactionResult {
+    if (!result.success) {
+      this.events.emit('transactionFailed', { hash: result.hash, function: fn, code: 'TRANSACTION_FAILED' });
+      return result;
+    }
+    this.events.emit('transactionSubmitted', { hash: result.hash, function: fn });
+
+    if (this.events.listenerCount('transactionConfirmed') === 0 && this.events.listenerCount('transactionFailed') === 0) {
+      return result;
+    }
+
+    const sender = this.sdk.address ?? null;
+    trackTransaction(this.sdk, result.hash)
+      .then(status => {
+        if (status.status === 'success') {
+          this.confirm(result.hash, sender);
+        } else {
+          this.events.emit('transactionFailed', { hash: result.hash, function: fn, code: 'TRANSACTION_FAILED' });
+        }
+      })
+      .catch(() => undefined);
+
+    return result;
+  }
+
+  // Send through the host, reporting a rejection to transactionFailed listeners and
+  // returning its reserved spends to the caps
+  private async submit<T>(functions: Array<string | undefined>, call: () => Promise<T>, spends: PolicySpend[] = []): Promise<T> {
+    try {
+      return await this.host(call);
+    } catch (error) {
+      const { code } = normalizeError(error);
+      // After a timeout or host failure the transaction may have been sent anyway
+      if (code !== 'TIMEOUT' && code !== 'HOST_ERROR') {
+        this.security.releaseSpend(spends);
+      }
+      functions.forEach(fn => this.events.emit('transactionFailed', { function: fn, code }));
+      throw error;
+    }
+  }
+
+  /**
+   * Generation and version of the host bridge, re-detected on ready()
+   */
+  get hostInfo(): HostBridgeInfo {
+    return this.bridgeInfo;
+  }
+
+  // Run a host bridge call, normalizing rejections into MovementSDKError
+  private async host<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw normalizeError(error);
+    }
+  }
+
+  private rateLimited(identifier: string, message: string): RateLimitError {
+    const retryAfter = this.security.getRetryAfter(identifier);
+    this.security.logSecurityEvent({ type: 'rate_limit', details: message, metadata: { method: identifier, retryAfter } });
+    return new RateLimitError(message, retryAfter);
+  }
+
+  // Log a rejected transaction before it is thrown
+  private rejected<E extends MovementSDKError & { field?: string }>(error: E, payload: object): E {
+    this.security.logSecurityEvent({
+      type: 'invalid_transaction',
+      details: error.message,
+      metadata: { field: error.field, payload },
+    });
+    return error;
+  }
+
+  private invalid(validation: ValidationResult, payload: object): ValidationError {
+    return this.rejected(new ValidationError(validation.error || 'Unknown validation error', validation.field), payload);
+  }
+
+  /**
+   * Check the spending policy, logging the failed rule on rejection
+   */
+  private enforcePolicy(payloads: TransactionPayload[]): PolicySpend[] {
+    try {
+      return this.security.checkPolicy(payloads);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        this.security.logSecurityEvent({
+          type: 'invalid_transaction',
+          details: error.message,
+          metadata: { rule: error.rule, field: error.field, functions: payloads.map(payload => payload.function) },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fill in a readable title/description, coerce typed arguments to host JSON and
+   * drop the client-only parameter types.
+   * Runs after validateTransaction, which has already type-checked them.
+   */
+  private prepare<T extends TransactionPayload>(payload: T): T {
+    const described = withTransactionDescription(payload);
+    const { parameters, ...rest } = described;
+    if (!parameters) return described;
+    return {
+      ...rest,
+      arguments: coerceMoveArguments(parameters, payload.arguments, payload.type_arguments),
+    } as T;
   }
 
   get isConnected() {
@@ -43,228 +262,692 @@ class SecureMovementSDK {
   }
 
   async ready() {
-    return await this.sdk.ready();
+    const ready = await this.host(() => this.sdk.ready());
+
+    // Bridges may finish injecting members during ready(), so adapt again
+    this.bridgeInfo = detectHostBridge(this.bridge);
+    this.sdk = adaptHostSDK(this.bridge, this.bridgeInfo);
+
+    // Reload feature flags in the background; native calls wait for them
+    this.context = null;
+    this.loadContext();
+
+    // The network is known now, so the policy allows only its RPC origin
+    this.security.setupCSP(this.sdk.network);
+
+    return ready;
   }
 
   async connect() {
     // Rate limiting
-    if (!this.security.checkRateLimit('connect')) {
-      this.security.logSecurityEvent({
-        type: 'rate_limit',
-        details: 'Connection rate limit exceeded',
-      });
-      throw new Error('Too many connection attempts. Please try again later.');
+    if (!(await this.security.acquireRateLimit('connect'))) {
+      throw this.rateLimited('connect', 'Too many connection attempts. Please try again later.');
     }
 
-    return await this.sdk.connect();
+    const account = await this.host(() => this.sdk.connect());
+    this.events.emit('connected', { address: account.address });
+    return account;
   }
 
   async getAccount() {
-    return await this.sdk.getAccount();
+    return await this.host(() => this.sdk.getAccount());
   }
 
   async getBalance() {
-    return await this.sdk.getBalance();
+    return await this.host(() => this.sdk.getBalance());
   }
 
   async scanQRCode() {
     // Rate limiting
-    if (!this.security.checkRateLimit('scanQRCode')) {
-      this.security.logSecurityEvent({
-        type: 'rate_limit',
-        details: 'QR scanning rate limit exceeded',
-      });
-      throw new Error('Too many QR scan requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('scanQRCode'))) {
+      throw this.rateLimited('scanQRCode', 'Too many QR scan requests. Please try again later.');
     }
 
-    return await this.sdk.scanQRCode!();
+    const scanQRCode = this.sdk.scanQRCode;
+    if (!scanQRCode) {
+      throw new UnsupportedError('scanQRCode', this.bridgeInfo.version);
+    }
+
+    return await this.host(() => scanQRCode());
   }
 
   async sendTransaction(payload: TransactionPayload) {
     // Rate limiting
-    if (!this.security.checkRateLimit('sendTransaction')) {
-      this.security.logSecurityEvent({
-        type: 'rate_limit',
-        details: 'Transaction rate limit exceeded',
-      });
-      throw new Error('Too many transaction requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('sendTransaction'))) {
+      throw this.rateLimited('sendTransaction', 'Too many transaction requests. Please try again later.');
     }
 
     // Validate transaction
     const validation = this.security.validateTransaction(payload);
     if (!validation.valid) {
-      this.security.logSecurityEvent({
-        type: 'invalid_transaction',
-        details: validation.error || 'Unknown validation error',
-        metadata: payload,
-      });
-      throw new Error(validation.error);
+      throw this.invalid(validation, payload);
     }
 
-    return await this.sdk.sendTransaction(payload);
+    const spends = this.enforcePolicy([payload]);
+    const result = await this.submit([payload.function], () => this.sdk.sendTransaction(this.prepare(payload)), spends);
+    if (!result.success) this.security.releaseSpend(spends);
+    return this.watch(result, payload.function);
   }
 
-  async signMessage(payload: SignMessagePayload) {
+  /**
+   * Use a custom simulation provider (null restores the default: the host's
+   * simulation when available, otherwise the network's fullnode)
+   */
+  setSimulationProvider(provider: SimulationProvider | null) {
+    this.simulator = provider;
+  }
+
+  async simulateTransaction(payload: TransactionPayload) {
     // Rate limiting
-    if (!this.security.checkRateLimit('signMessage')) {
-      this.security.logSecurityEvent({
-        type: 'rate_limit',
-        details: 'Message signing rate limit exceeded',
-      });
-      throw new Error('Too many signing requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('simulateTransaction'))) {
+      throw this.rateLimited('simulateTransaction', 'Too many simulation requests. Please try again later.');
     }
 
-    // Generate nonce if not provided
-    if (!payload.nonce) {
-      payload.nonce = this.security.generateNonce();
-    } else {
-      // Validate nonce to prevent replay attacks
-      if (!this.security.validateNonce(payload.nonce)) {
-        this.security.logSecurityEvent({
-          type: 'replay_attack',
-          details: 'Invalid or reused nonce detected',
-          metadata: { nonce: payload.nonce },
-        });
-        throw new Error('Invalid nonce - possible replay attack');
-      }
+    const validation = this.security.validateTransaction(payload);
+    if (!validation.valid) {
+      throw this.invalid(validation, payload);
+    }
+
+    const provider = this.simulator
+      ?? (this.sdk.simulateTransaction ? createHostSimulationProvider(this.sdk) : createRestSimulationProvider());
+    const account = this.sdk.isConnected ? await this.host(() => this.sdk.getAccount()) : null;
+
+    return await this.host(() => provider.simulate(this.prepare(payload), {
+      sender: account?.address ?? this.sdk.address ?? null,
+      publicKey: account?.publicKey,
+      network: this.sdk.network,
+    }));
+  }
+
+  async signMessage(payload: SignMessagePayload) {
+    // Rate limiting
+    if (!(await this.security.acquireRateLimit('signMessage'))) {
+      throw this.rateLimited('signMessage', 'Too many signing requests. Please try again later.');
     }
 
+    // Generate nonce if not provided, and accept each nonce only once
+    payload.nonce = this.claimNonce(payload.nonce || undefined, 'Invalid or reused nonce detected');
+
     // Sanitize message
     const sanitizedMessage = this.security.sanitizeMessage(payload.message);
 
-    return await this.sdk.signMessage({
+    const result = await this.host(() => this.sdk.signMessage({
       ...payload,
       message: sanitizedMessage,
-    });
+    }));
+    this.events.emit('messageSigned', { address: this.sdk.address ?? null });
+    return result;
+  }
+
+  /**
+   * Claim a nonce for one signature. A generated nonce must be fresh; a supplied
+   * one (e.g. issued by your backend) is only checked for reuse.
+   * @throws ReplayError if the nonce was used before
+   */
+  private claimNonce(nonce: string | undefined, details: string): string {
+    const claimed = nonce ?? this.security.generateNonce();
+    const accepted = nonce === undefined ? this.security.validateNonce(claimed) : this.security.registerNonce(claimed);
+    if (!accepted) {
+      this.security.logSecurityEvent({
+        type: 'replay_attack',
+        details,
+        metadata: { nonce: claimed },
+      });
+      throw new ReplayError('Invalid nonce - possible replay attack');
+    }
+    return claimed;
+  }
+
+  /**
+   * Sign in with Movement: ask the user to sign a structured sign-in message
+   * for this domain. Send `message` and the result to your backend and check
+   * them with verifySignIn.
+   */
+  async signIn(input: SignInInput = {}): Promise<SignInResult> {
+    // Rate limiting (shares the message signing budget)
+    if (!(await this.security.acquireRateLimit('signMessage'))) {
+      throw this.rateLimited('signMessage', 'Too many signing requests. Please try again later.');
+    }
+
+    if (!this.sdk.isConnected) {
+      throw new NotConnectedError('Connect a wallet before signing in');
+    }
+    const account = await this.host(() => this.sdk.getAccount());
+
+    // Register the nonce so the message can only be signed once
+    if (input.nonce === '') {
+      throw new ValidationError('Sign-in nonce cannot be empty', 'nonce');
+    }
+    const nonce = this.claimNonce(input.nonce, 'Invalid or reused sign-in nonce detected');
+
+    const location = typeof window !== 'undefined' ? window.location : undefined;
+    const fields: SignInMessage = {
+      ...input,
+      domain: input.domain ?? location?.host ?? '',
+      address: account.address,
+      uri: input.uri ?? location?.href ?? '',
+      version: '1',
+      chainId: getNetworkInfo(this.sdk.network)?.chainId,
+      nonce,
+      issuedAt: input.issuedAt ?? new Date().toISOString(),
+    };
+    if (!fields.domain || !fields.uri) {
+      throw new ValidationError('Sign-in requires a domain and uri', fields.domain ? 'uri' : 'domain');
+    }
+    const message = formatSignInMessage(fields);
+
+    // Sent unsanitized: the message is multi-line by design and every field was checked
+    const result = await this.host(() => this.sdk.signMessage({ message, nonce }));
+    this.events.emit('messageSigned', { address: account.address });
+    return { ...result, message, fields, address: account.address };
+  }
+
+  /**
+   * Derive an AES-GCM key for client-side encryption from a deterministic
+   * signature over a fixed message. The user is asked to sign once per account
+   * and purpose; the same account always gets the same key in the same app.
+   */
+  async deriveEncryptionKey(purpose = 'storage'): Promise<EncryptionKey> {
+    if (!this.sdk.isConnected) {
+      throw new NotConnectedError('Connect a wallet before deriving an encryption key');
+    }
+    const address = this.sdk.address ?? (await this.host(() => this.sdk.getAccount())).address;
+    const app = await this.getAppIdentity();
+
+    const cacheKey = `${address}:${app}:${purpose}`;
+    let key = this.encryptionKeys.get(cacheKey);
+    if (!key) {
+      // Rate limiting (shares the message signing budget)
+      if (!(await this.security.acquireRateLimit('signMessage'))) {
+        throw this.rateLimited('signMessage', 'Too many signing requests. Please try again later.');
+      }
+
+      // Fixed nonce on purpose: the signature must be reproducible
+      const result = await this.host(() => this.sdk.signMessage(getKeyDerivationMessage(purpose, app)));
+      key = deriveKeyFromSignature(result.signature, purpose, app);
+      this.encryptionKeys.set(cacheKey, key);
+      key.catch(() => this.encryptionKeys.delete(cacheKey));
+    }
+    return await key;
+  }
+
+  // The app an encryption key belongs to: the app id the host reports, if any,
+  // and the page's host
+  private async getAppIdentity(): Promise<string> {
+    const appId = (await this.loadContext())?.app?.id;
+    const host = typeof window !== 'undefined' ? window.location?.host : undefined;
+    const identity = [appId, host].filter(Boolean).join('@');
+    if (!identity) {
+      throw new ValidationError('Cannot tell which app the encryption key is for', 'app');
+    }
+    return identity;
   }
 
   async sendMultiAgentTransaction(payload: MultiAgentTransactionPayload) {
     // Rate limiting
-    if (!this.security.checkRateLimit('sendMultiAgentTransaction')) {
-      throw new Error('Too many multi-agent transaction requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('sendMultiAgentTransaction'))) {
+      throw this.rateLimited('sendMultiAgentTransaction', 'Too many multi-agent transaction requests. Please try again later.');
     }
 
     // Validate base transaction
     const validation = this.security.validateTransaction(payload);
     if (!validation.valid) {
-      this.security.logSecurityEvent({
-        type: 'invalid_transaction',
-        details: validation.error || 'Multi-agent transaction validation failed',
-        metadata: payload,
-      });
-      throw new Error(validation.error);
+      throw this.invalid(validation, payload);
     }
 
     // Validate secondary signers
     if (!payload.secondarySigners || payload.secondarySigners.length === 0) {
-      throw new Error('Multi-agent transaction requires at least one secondary signer');
+      throw this.rejected(
+        new ValidationError('Multi-agent transaction requires at least one secondary signer', 'secondarySigners'),
+        payload
+      );
     }
 
-    for (const signer of payload.secondarySigners) {
+    for (const [index, signer] of payload.secondarySigners.entries()) {
       if (!this.security.isValidAddress(signer)) {
-        throw new Error(`Invalid secondary signer address: ${signer}`);
+        throw this.rejected(
+          new ValidationError(`Invalid secondary signer address: ${signer}`, `secondarySigners[${index}]`),
+          payload
+        );
       }
     }
 
-    return await this.sdk.sendMultiAgentTransaction!(payload);
+    const spends = this.enforcePolicy([payload]);
+    const result = await this.submit([payload.function], () => this.sdk.sendMultiAgentTransaction(this.prepare(payload)), spends);
+    if (!result.success) this.security.releaseSpend(spends);
+    return this.watch(result, payload.function);
   }
 
   async sendFeePayerTransaction(payload: FeePayerTransactionPayload) {
     // Rate limiting
-    if (!this.security.checkRateLimit('sendFeePayerTransaction')) {
-      throw new Error('Too many fee payer transaction requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('sendFeePayerTransaction'))) {
+      throw this.rateLimited('sendFeePayerTransaction', 'Too many fee payer transaction requests. Please try again later.');
     }
 
     // Validate base transaction
     const validation = this.security.validateTransaction(payload);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw this.invalid(validation, payload);
     }
 
     // Validate fee payer address
     if (!this.security.isValidAddress(payload.feePayer)) {
-      throw new Error(`Invalid fee payer address: ${payload.feePayer}`);
+      throw this.rejected(new ValidationError(`Invalid fee payer address: ${payload.feePayer}`, 'feePayer'), payload);
     }
 
-    return await this.sdk.sendFeePayerTransaction!(payload);
+    const spends = this.enforcePolicy([payload]);
+    const result = await this.submit([payload.function], () => this.sdk.sendFeePayerTransaction(this.prepare(payload)), spends);
+    if (!result.success) this.security.releaseSpend(spends);
+    return this.watch(result, payload.function);
   }
 
   async sendBatchTransactions(payload: BatchTransactionPayload) {
     // Rate limiting
-    if (!this.security.checkRateLimit('sendBatchTransactions')) {
-      throw new Error('Too many batch transaction requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('sendBatchTransactions'))) {
+      throw this.rateLimited('sendBatchTransactions', 'Too many batch transaction requests. Please try again later.');
     }
 
     // Validate all transactions in batch
-    for (const tx of payload.transactions) {
+    for (const [index, tx] of payload.transactions.entries()) {
       const validation = this.security.validateTransaction(tx);
       if (!validation.valid) {
-        throw new Error(`Batch transaction validation failed: ${validation.error}`);
+        throw this.rejected(new ValidationError(
+          `Batch transaction validation failed: ${validation.error}`,
+          `transactions[${index}]${validation.field ? '.' + validation.field : ''}`
+        ), payload);
       }
     }
 
-    return await this.sdk.sendBatchTransactions!(payload);
+    // Caps apply to the combined total of the batch
+    const spends = this.enforcePolicy(payload.transactions);
+    const functions = payload.transactions.map(tx => tx.function);
+    const batch = await this.submit(functions, () => this.sdk.sendBatchTransactions({
+      ...payload,
+      transactions: payload.transactions.map(tx => this.prepare(tx)),
+    }), spends);
+    // Partly failed batches keep the whole reservation
+    if (batch.results.every(result => !result.success)) this.security.releaseSpend(spends);
+    batch.results.forEach((result, index) => this.watch(result, functions[index]));
+    return batch;
   }
 
   async sendScriptTransaction(payload: ScriptComposerPayload) {
     // Rate limiting
-    if (!this.security.checkRateLimit('sendScriptTransaction')) {
-      throw new Error('Too many script transaction requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('sendScriptTransaction'))) {
+      throw this.rateLimited('sendScriptTransaction', 'Too many script transaction requests. Please try again later.');
     }
 
     // Validate script payload
     if (!payload.script || payload.script.length === 0) {
-      throw new Error('Script payload cannot be empty');
+      throw this.rejected(new ValidationError('Script payload cannot be empty', 'script'), payload);
     }
 
-    return await this.sdk.sendScriptTransaction!(payload);
+    return this.watch(await this.submit([undefined], () => this.sdk.sendScriptTransaction(payload)));
   }
 
   async getContext() {
-    return await this.sdk.getContext();
+    return await this.host(() => this.sdk.getContext());
+  }
+
+  async getTheme() {
+    return await this.host(() => this.sdk.getTheme());
   }
 
   async view(payload: ViewPayload) {
     // Rate limiting for view calls
-    if (!this.security.checkRateLimit('view')) {
-      this.security.logSecurityEvent({
-        type: 'rate_limit',
-        details: 'View function rate limit exceeded',
-      });
-      throw new Error('Too many view requests. Please try again later.');
+    if (!(await this.security.acquireRateLimit('view'))) {
+      throw this.rateLimited('view', 'Too many view requests. Please try again later.');
     }
 
-    return await this.sdk.view(payload);
+    return await this.host(() => this.sdk.view(payload));
   }
 
   async waitForTransaction(hash: string) {
-    return await this.sdk.waitForTransaction(hash);
+    const status = await this.host(() => this.sdk.waitForTransaction(hash));
+    if (status.status === 'success') {
+      this.confirm(hash, this.sdk.address ?? null);
+    }
+    return status;
+  }
+
+  /**
+   * Follow a transaction's status. Uses host push updates when available,
+   * otherwise polls waitForTransaction.
+   * @returns Unsubscribe function
+   */
+  onTransactionUpdate(hash: string, callback: TransactionStatusCallback): () => void {
+    const sender = this.sdk.address ?? null;
+    const onStatus: TransactionStatusCallback = status => {
+      if (status.status === 'success') {
+        this.confirm(hash, sender);
+      }
+      callback(status);
+    };
+
+    const onTransactionUpdate = this.sdk.onTransactionUpdate;
+    if (onTransactionUpdate) {
+      return onTransactionUpdate(hash, onStatus);
+    }
+
+    const controller = new AbortController();
+    trackTransaction(this.sdk, hash, { onStatus, signal: controller.signal }).catch(() => undefined);
+    return () => controller.abort();
+  }
+
+  /**
+   * Current rate limit budget for a method, e.g. to disable a button ahead of time
+   */
+  getRateLimit(method: string): RateLimitBudget {
+    return this.security.getRateLimitBudget(method);
+  }
+
+  /**
+   * Listen for rate limit budget changes
+   * @returns Unsubscribe function
+   */
+  onRateLimitChange(listener: (budget: RateLimitBudget) => void): () => void {
+    return this.security.onRateLimitChange(listener);
+  }
+
+  /**
+   * Security events kept in the audit log (oldest first), metadata redacted
+   */
+  getSecurityEvents(filter?: SecurityEventFilter): SecurityEvent[] {
+    return this.security.getAuditLog(filter);
+  }
+
+  /**
+   * The audit log as JSON, e.g. to attach to a support ticket
+   */
+  exportSecurityEvents(filter?: SecurityEventFilter): string {
+    return this.security.exportAuditLog(filter);
+  }
+
+  /**
+   * Subscribe to wallet events
+   * @returns Unsubscribe function
+   */
+  on<E extends MovementSDKEvent>(event: E, callback: MovementSDKEventListener<E>): () => void {
+    return this.sdk.on(event, callback);
+  }
+
+  // ==========================================================================
+  // Native host APIs
+  // Methods reject with UnsupportedError when the host lacks them; namespaces
+  // (camera, clipboard, ...) are undefined when the host has none.
+  // ==========================================================================
+
+  private unsupported(method: string): UnsupportedError {
+    return new UnsupportedError(method, this.bridgeInfo.version);
+  }
+
+  // App context (feature flags, platform); null until loaded or when the host has none
+  private loadContext(): Promise<AppContext | null> {
+    if (!this.context) {
+      this.context = this.sdk.getContext()
+        .then(context => (this.contextInfo = context ?? null))
+        .catch(() => null)
+        .finally(() => {
+          this.contextLoaded = true;
+        });
+    }
+    return this.context;
+  }
+
+  // Features are enabled unless the host says otherwise
+  private featureEnabled(feature: keyof AppContext['features']): boolean {
+    return this.contextInfo?.features?.[feature] !== false;
+  }
+
+  /**
+   * What this host supports: members present on the bridge, minus features
+   * disabled in AppContext.features, plus host and platform versions
+   */
+  async getCapabilities(): Promise<Capabilities> {
+    const context = await this.loadContext();
+
+    const supported = {} as Record<HostCapability, boolean>;
+    for (const capability of HOST_CAPABILITIES) {
+      const feature = CAPABILITY_FEATURES[capability];
+      supported[capability] = this.sdk[capability] != null && (!feature || this.featureEnabled(feature));
+    }
+
+    return {
+      supported,
+      features: context?.features ?? null,
+      host: { version: this.bridgeInfo.version, shape: this.bridgeInfo.shape },
+      platform: context?.platform ?? null,
+    };
   }
 
-  onTransactionUpdate(hash: string, callback: any) {
-    return this.sdk.onTransactionUpdate?.(hash, callback);
+  /**
+   * Check that the host supports every required feature. When it does not,
+   * show the standard "update your wallet" popup and resolve false.
+   */
+  async requireCapabilities(required: HostCapability[], options: RequireCapabilitiesOptions = {}): Promise<boolean> {
+    const { supported } = await this.getCapabilities();
+    const missing = required.filter(capability => !supported[capability]);
+    if (missing.length === 0) return true;
+
+    const buttons: PopupButton[] = options.updateUrl
+      ? [{ id: 'update', type: 'default', text: 'Update' }, { id: 'cancel', type: 'cancel', text: 'Not now' }]
+      : [{ id: 'ok', type: 'ok', text: 'OK' }];
+
+    try {
+      const { button_id } = await this.showPopup({
+        title: options.title ?? 'Update required',
+        message: options.message
+          ?? `This app needs features your wallet does not support yet (${missing.join(', ')}). Update Movement to continue.`,
+        buttons,
+      });
+      if (button_id === 'update' && options.updateUrl) {
+        await this.openUrl(options.updateUrl, 'external');
+      }
+    } catch {
+      // Hosts without popups still get the false result
+    }
+    return false;
+  }
+
+  /**
+   * Call a native host API: check the AppContext feature flag, apply the rate
+   * limit and normalize errors
+   */
+  private async native<T>(
+    method: string,
+    call: (() => Promise<T>) | undefined,
+    options: { feature?: keyof AppContext['features']; rateLimit?: string } = {}
+  ): Promise<T> {
+    if (!call) {
+      throw this.unsupported(method);
+    }
+
+    if (options.feature) {
+      await this.loadContext();
+      if (!this.featureEnabled(options.feature)) {
+        throw this.unsupported(method);
+      }
+    }
+
+    if (options.rateLimit && !(await this.security.acquireRateLimit(options.rateLimit))) {
+      throw this.rateLimited(options.rateLimit, `Too many ${method} requests. Please try again later.`);
+    }
+
+    return await this.host(call);
+  }
+
+  async haptic(options: HapticOptions): Promise<void> {
+    const haptic = this.sdk.haptic;
+    return await this.native('haptic', haptic && (() => haptic(options)), { feature: 'haptics' });
+  }
+
+  async notify(options: NotificationOptions): Promise<void> {
+    const notify = this.sdk.notify;
+    return await this.native('notify', notify && (() => notify(options)), { feature: 'notifications', rateLimit: 'notify' });
+  }
+
+  async share(options: ShareOptions): Promise<{ success: boolean }> {
+    const share = this.sdk.share;
+    return await this.native('share', share && (() => share(options)), { rateLimit: 'share' });
+  }
+
+  async openUrl(url: string, target?: 'external' | 'in-app'): Promise<void> {
+    // With allowedOrigins configured, only those origins can be opened
+    let origin: string;
+    try {
+      origin = new URL(url, typeof location !== 'undefined' ? location.href : undefined).origin;
+    } catch {
+      throw new ValidationError(`Invalid URL: ${url}`, 'url');
+    }
+    if (!this.security.validateOrigin(origin)) {
+      throw new ValidationError(`Origin not allowed: ${origin}`, 'url');
+    }
+
+    const openUrl = this.sdk.openUrl;
+    return await this.native('openUrl', openUrl && (() => openUrl(url, target)), { rateLimit: 'openUrl' });
+  }
+
+  async close(): Promise<void> {
+    return await this.native('close', this.sdk.close);
+  }
+
+  async showPopup(options: PopupOptions): Promise<PopupResult> {
+    const showPopup = this.sdk.showPopup;
+    return await this.native('showPopup', showPopup && (() => showPopup(options)), { rateLimit: 'popup' });
   }
 
-  // Pass through optional methods
-  async haptic(options: any) {
-    return this.sdk.haptic?.(options);
+  async showAlert(message: string): Promise<void> {
+    const showAlert = this.sdk.showAlert;
+    return await this.native('showAlert', showAlert && (() => showAlert(message)), { rateLimit: 'popup' });
   }
 
-  async notify(options: any) {
-    return this.sdk.notify?.(options);
+  async showConfirm(message: string, okText?: string, cancelText?: string): Promise<boolean> {
+    const showConfirm = this.sdk.showConfirm;
+    return await this.native(
+      'showConfirm',
+      showConfirm && (() => showConfirm(message, okText, cancelText)),
+      { rateLimit: 'popup' }
+    );
   }
 
-  openUrl(url: string, target?: 'external' | 'in-app') {
-    return this.sdk.openUrl?.(url, target);
+  get storage(): MovementSDK['storage'] {
+    const storage = this.sdk.storage;
+    if (!storage) return undefined;
+    return {
+      get: key => this.host(() => storage.get(key)),
+      set: (key, value) => this.host(() => storage.set(key, value)),
+      remove: key => this.host(() => storage.remove(key)),
+      clear: () => this.host(() => storage.clear()),
+      getAll: () => this.host(() => storage.getAll()),
+    };
   }
 
-  close() {
-    return this.sdk.close?.();
+  get CloudStorage(): MovementSDK['CloudStorage'] {
+    const cloud = this.sdk.CloudStorage;
+    if (!cloud) return undefined;
+    return {
+      setItem: (key, value) => this.host(() => cloud.setItem(key, value)),
+      getItem: key => this.host(() => cloud.getItem(key)),
+      removeItem: key => this.host(() => cloud.removeItem(key)),
+      getKeys: () => this.host(() => cloud.getKeys()),
+    };
   }
 
-  // Expose storage object with all methods including getAll
-  get storage() {
-    return this.sdk.storage;
+  get camera(): MovementSDK['camera'] {
+    const camera = this.sdk.camera;
+    if (!camera) return undefined;
+    const options = { feature: 'camera', rateLimit: 'camera' } as const;
+    return {
+      takePicture: cameraOptions => this.native('camera.takePicture', () => camera.takePicture(cameraOptions), options),
+      pickImage: cameraOptions => this.native('camera.pickImage', () => camera.pickImage(cameraOptions), options),
+    };
+  }
+
+  get location(): MovementSDK['location'] {
+    const location = this.sdk.location;
+    if (!location) return undefined;
+    return {
+      getCurrentPosition: () => this.native(
+        'location.getCurrentPosition',
+        () => location.getCurrentPosition(),
+        { feature: 'location', rateLimit: 'location' }
+      ),
+      watchPosition: callback => {
+        if (this.contextLoaded) {
+          if (!this.featureEnabled('location')) {
+            throw this.unsupported('location.watchPosition');
+          }
+          return location.watchPosition(callback);
+        }
+
+        // Fail closed: start watching once the feature flags are known, and
+        // never if the host disabled location
+        let stop: (() => void) | null = null;
+        let stopped = false;
+        this.loadContext().then(() => {
+          if (!stopped && this.featureEnabled('location')) {
+            stop = location.watchPosition(callback);
+          }
+        }).catch(() => undefined);
+        return () => {
+          stopped = true;
+          stop?.();
+        };
+      },
+    };
+  }
+
+  get biometric(): MovementSDK['biometric'] {
+    const biometric = this.sdk.biometric;
+    if (!biometric) return undefined;
+    return {
+      isAvailable: async () => {
+        await this.loadContext();
+        return this.featureEnabled('biometrics') && await this.host(() => biometric.isAvailable());
+      },
+      authenticate: options => this.native(
+        'biometric.authenticate',
+        () => biometric.authenticate(options),
+        { feature: 'biometrics', rateLimit: 'biometric' }
+      ),
+    };
+  }
+
+  get clipboard(): MovementSDK['clipboard'] {
+    const clipboard = this.sdk.clipboard;
+    if (!clipboard) return undefined;
+    return {
+      copy: text => this.host(() => clipboard.copy(text)),
+      // Reading the clipboard can leak whatever the user copied elsewhere
+      paste: () => this.native('clipboard.paste', () => clipboard.paste(), { rateLimit: 'clipboard.paste' }),
+    };
+  }
+
+  get MainButton(): MovementSDK['MainButton'] {
+    return this.sdk.MainButton;
+  }
+
+  get SecondaryButton(): MovementSDK['SecondaryButton'] {
+    return this.sdk.SecondaryButton;
+  }
+
+  get BackButton(): MovementSDK['BackButton'] {
+    return this.sdk.BackButton;
+  }
+
+  get analytics(): MovementSDK['analytics'] {
+    const analytics = this.sdk.analytics;
+    if (!analytics) return undefined;
+    return {
+      track: (eventName, properties) => this.host(() => analytics.track(eventName, properties)),
+      identify: (userId, traits) => this.host(() => analytics.identify(userId, traits)),
+      trackScreen: (screenName, properties) => this.host(() => analytics.trackScreen(screenName, properties)),
+      setUserProperties: properties => this.host(() => analytics.setUserProperties(properties)),
+      reset: () => this.host(() => analytics.reset()),
+      isEnabled: () => this.host(() => analytics.isEnabled()),
+      optOut: () => this.host(() => analytics.optOut()),
+      optIn: () => this.host(() => analytics.optIn()),
+    };
   }
 }
 
@@ -278,37 +961,42 @@ export function getMovementSDK(config?: SecurityConfig): MovementSDK | null {
   }
 
   // Wrap SDK with security layer
-  return new SecureMovementSDK(window.movementSDK, config) as any as MovementSDK;
+  return new SecureMovementSDK(window.movementSDK, config);
 }
 
 export function isInMovementApp(): boolean {
-  return typeof window !== 'undefined' && window.movementSDK?.isInstalled?.() === true;
+  return typeof window !== 'undefined' && isHostInstalled(window.movementSDK);
 }
 
 export async function waitForSDK(timeout = 5000, config?: SecurityConfig): Promise<MovementSDK> {
   if (typeof window === 'undefined') {
-    throw new Error('Window is not defined - not running in browser');
+    throw new NotInstalledError('Window is not defined - not running in browser');
   }
 
-  if (!window.movementSDK?.isInstalled?.()) {
-    throw new Error('Movement SDK not found - app must run inside Movement Everything wallet');
+  if (!isHostInstalled(window.movementSDK)) {
+    throw new NotInstalledError();
   }
 
+  const secureSDK = new SecureMovementSDK(window.movementSDK, config);
+
   // Wait for SDK to be ready
+  let timer: ReturnType<typeof setTimeout> | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error('SDK initialization timeout')), timeout);
+    timer = setTimeout(() => reject(new TimeoutError('SDK initialization timeout')), timeout);
   });
 
   try {
     await Promise.race([
-      window.movementSDK.ready(),
+      secureSDK.ready(),
       timeoutPromise
     ]);
 
-    const secureSDK = new SecureMovementSDK(window.movementSDK, config);
-    return secureSDK as any as MovementSDK;
+    return secureSDK;
   } catch (error) {
-    throw new Error('Failed to initialize Movement SDK: ' + (error as Error).message);
+    // Keeps the subclass (e.g. NotInstalledError) for instanceof checks
+    throw normalizeError(error);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
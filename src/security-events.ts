@@ -0,0 +1,206 @@
+/**
+ * Security event sinks
+ * Where logged security events go (console, a batched HTTP endpoint, the
+ * host's analytics), plus severities, filtering and payload redaction
+ */
+
+import type {
+  AnalyticsAPI,
+  SecurityEvent,
+  SecurityEventFilter,
+  SecurityEventType,
+  SecuritySeverity,
+} from './types';
+import { scrubPII } from './auto-track';
+
+export interface SecurityEventSink {
+  send: (event: SecurityEvent) => void | Promise<void>;
+  /** Skip less severe events (default: receive everything) */
+  minSeverity?: SecuritySeverity;
+}
+
+export interface HttpSecuritySinkOptions {
+  /** Receives `POST { events: SecurityEvent[] }` as JSON */
+  endpoint: string;
+  headers?: Record<string, string>;
+  /** Events per request (default 20) */
+  batchSize?: number;
+  /** Delay before a partial batch is sent, in milliseconds (default 5000) */
+  flushInterval?: number;
+  /** Oldest events are dropped while the endpoint is unreachable (default 500) */
+  maxBuffer?: number;
+  minSeverity?: SecuritySeverity;
+}
+
+export const SEVERITY_ORDER: Record<SecuritySeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export const DEFAULT_SEVERITIES: Record<SecurityEventType, SecuritySeverity> = {
+  rate_limit: 'info',
+  invalid_origin: 'warning',
+  invalid_transaction: 'warning',
+  suspicious_activity: 'warning',
+  csp_violation: 'warning',
+  replay_attack: 'critical',
+};
+
+// Metadata keys whose values are user data rather than diagnostics
+export const REDACTED_KEYS = [
+  'arguments',
+  'function_arguments',
+  'message',
+  'fullMessage',
+  'signature',
+  'publicKey',
+  'privateKey',
+  'secondarySigners',
+];
+
+const MAX_DEPTH = 6;
+
+const describe = (value: unknown): string =>
+  Array.isArray(value) ? `[redacted: ${value.length} items]`
+    : typeof value === 'string' ? `[redacted: ${value.length} chars]`
+      : '[redacted]';
+
+/**
+ * Copy of event metadata with sensitive values (see REDACTED_KEYS) replaced by
+ * a description of their size, and bigints/bytes made serializable
+ */
+export function redactSecurityMetadata(value: unknown, keys: string[] = REDACTED_KEYS, depth = 0): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) return `[${value.length} bytes]`;
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecurityMetadata(item, keys, depth + 1));
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    redacted[key] = keys.includes(key) && item !== undefined
+      ? describe(item)
+      : redactSecurityMetadata(item, keys, depth + 1);
+  }
+  return redacted;
+}
+
+/**
+ * Whether an event passes a filter
+ */
+export function matchesSecurityFilter(event: SecurityEvent, filter: SecurityEventFilter = {}): boolean {
+  const types = filter.type === undefined ? null : Array.isArray(filter.type) ? filter.type : [filter.type];
+  if (types && !types.includes(event.type)) return false;
+  if (filter.minSeverity && SEVERITY_ORDER[event.severity] < SEVERITY_ORDER[filter.minSeverity]) return false;
+  if (filter.since !== undefined && Date.parse(event.timestamp) < new Date(filter.since).getTime()) return false;
+  return true;
+}
+
+/**
+ * Log to the console (critical events as errors)
+ */
+export function createConsoleSecuritySink(minSeverity?: SecuritySeverity): SecurityEventSink {
+  return {
+    minSeverity,
+    send: event => {
+      if (event.severity === 'critical') {
+        console.error('[Security]', event);
+      } else {
+        console.warn('[Security]', event);
+      }
+    },
+  };
+}
+
+/**
+ * POST events to your endpoint in batches. Failed batches are kept and sent
+ * with the next one.
+ */
+export function createHttpSecuritySink(options: HttpSecuritySinkOptions): SecurityEventSink & { flush: () => Promise<void> } {
+  const { endpoint, headers, batchSize = 20, flushInterval = 5000, maxBuffer = 500 } = options;
+  let buffer: SecurityEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sending: Promise<void> | null = null;
+
+  const schedule = (delay: number) => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      flush().catch(() => undefined);
+    }, delay);
+  };
+
+  const send = async () => {
+    while (buffer.length > 0) {
+      const batch = buffer.slice(0, batchSize);
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ events: batch }),
+          // Lets the request finish when the page is being hidden or closed
+          keepalive: true,
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      } catch {
+        schedule(flushInterval);
+        return;
+      }
+      buffer = buffer.filter(event => !batch.includes(event));
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (!sending) {
+      sending = send().finally(() => {
+        sending = null;
+      });
+    }
+    return sending;
+  };
+
+  if (typeof document !== 'undefined' && document.addEventListener) {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush().catch(() => undefined);
+    });
+  }
+
+  return {
+    minSeverity: options.minSeverity,
+    send: event => {
+      buffer = [...buffer, event].slice(-maxBuffer);
+      if (buffer.length >= batchSize) {
+        flush().catch(() => undefined);
+      } else {
+        schedule(flushInterval);
+      }
+    },
+    flush,
+  };
+}
+
+/**
+ * Track events as 'Security Event' through analytics (metadata is not sent)
+ *
+ * @example
+ * ```ts
+ * securitySinks: [createAnalyticsSecuritySink(() => window.movementSDK?.analytics, 'warning')]
+ * ```
+ */
+export function createAnalyticsSecuritySink(
+  analytics: AnalyticsAPI | (() => AnalyticsAPI | undefined),
+  minSeverity?: SecuritySeverity
+): SecurityEventSink {
+  return {
+    minSeverity,
+    send: async event => {
+      const target = typeof analytics === 'function' ? analytics() : analytics;
+      await target?.track('Security Event', {
+        type: event.type,
+        severity: event.severity,
+        // Details can quote payload values
+        details: scrubPII(event.details),
+      });
+    },
+  };
+}
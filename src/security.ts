@@ -3,26 +3,94 @@
  * Provides validation, sanitization, and attack prevention
  */
 
+import { coerceMoveArguments, parseTypeArgument, encodeHex } from './move-types';
+import { randomBytes } from './crypto';
+import type { TransactionPayload, RateLimitBudget, SecurityEvent, SecurityEventFilter, SecurityEventType, SecuritySeverity } from './types';
+import { isMovementSDKError } from './errors';
+import { createRateLimiter, type RateLimitListener, type RateLimitRule, type RateLimitStrategy } from './rate-limit';
+import { createSpendingPolicy, MOVE_COIN_TYPE, type PolicySpend, type SpendingPolicy } from './policy';
+import {
+  buildCSP,
+  getContentSecurityPolicy,
+  missingCSPSources,
+  parseCSP,
+  requiredCSPSources,
+  serializeCSP,
+  toMetaCSP,
+  type CSPConfig,
+  type CSPDirectives,
+} from './csp';
+import {
+  createConsoleSecuritySink,
+  matchesSecurityFilter,
+  redactSecurityMetadata,
+  DEFAULT_SEVERITIES,
+  REDACTED_KEYS,
+  SEVERITY_ORDER,
+  type SecurityEventSink,
+} from './security-events';
+
 // Security configuration
 export interface SecurityConfig {
-  maxTransactionAmount?: string; // in octas
+  maxTransactionAmount?: string; // in octas, default per-transaction cap for MOVE
+  policy?: SpendingPolicy;
   allowedOrigins?: string[];
   rateLimitWindow?: number; // milliseconds
   maxRequestsPerWindow?: number;
+  rateLimitStrategy?: RateLimitStrategy; // default 'fixed-window'
+  rateLimitMode?: 'reject' | 'queue'; // queue delays over-limit calls instead of failing them
+  maxQueueMs?: number; // longest a queued call waits before it is rejected
+  rateLimits?: Record<string, Partial<RateLimitRule>>; // per-method overrides, e.g. { view: { limit: 120 } }
   enableCSP?: boolean;
+  csp?: CSPConfig; // sources, nonce/hashes and report-only mode for the injected policy
   strictMode?: boolean;
+  persistNonces?: boolean; // remember used nonces across reloads (localStorage), default true
+  onSecurityEvent?: (event: SecurityEvent) => void; // called for every logged security event
+  securitySinks?: SecurityEventSink[]; // where events are sent, default the console when strictMode is on
+  auditLogSize?: number; // events kept in memory for getAuditLog, default 200
+  redactKeys?: string[]; // metadata keys redacted in addition to REDACTED_KEYS
+}
+
+export interface SecurityEventInput {
+  type: SecurityEventType;
+  details: string;
+  /** Default depends on the type (see DEFAULT_SEVERITIES) */
+  severity?: SecuritySeverity;
+  metadata?: object;
 }
 
-// Rate limiting state
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
+// Result of payload validation
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+  field?: string; // offending payload field, e.g. 'arguments[0]'
 }
 
+const NONCE_MAX_AGE = 300000; // 5 minutes
+const NONCE_CLOCK_SKEW = 60000;
+const NONCE_PATTERN = /^(\d{1,15})-([0-9a-zA-Z]{8,128})$/;
+const USED_NONCES_KEY = 'movement:used-nonces';
+
+// Marks the <meta> policy in force: the one the SDK injected, or the app's
+// when it is kept as the only policy
+const CSP_META_ATTRIBUTE = 'data-movement-csp';
+
+// Reads are cheap and often fan out across components; device access is sensitive
+const DEFAULT_RATE_LIMITS: Record<string, Partial<RateLimitRule>> = {
+  view: { limit: 120 },
+  camera: { limit: 10 },
+  location: { limit: 10 },
+  biometric: { limit: 5 },
+  'clipboard.paste': { limit: 5 },
+};
+
 class SecurityManager {
   private config: Required<SecurityConfig>;
-  private rateLimitMap = new Map<string, RateLimitEntry>();
-  private nonceSet = new Set<string>();
+  private rateLimiter: ReturnType<typeof createRateLimiter>;
+  private usedNonces = new Map<string, number>(); // nonce -> issue timestamp
+  private policy: ReturnType<typeof createSpendingPolicy>;
+  private auditLog: SecurityEvent[] = [];
+  private cspApplied = false;
 
   constructor(config: SecurityConfig = {}) {
     this.config = {
@@ -30,98 +98,144 @@ class SecurityManager {
       allowedOrigins: [],
       rateLimitWindow: 60000, // 1 minute
       maxRequestsPerWindow: 30,
+      rateLimitStrategy: 'fixed-window',
+      rateLimitMode: 'reject',
+      maxQueueMs: 30000,
+      rateLimits: {},
       enableCSP: true,
+      csp: {},
       strictMode: true,
+      policy: {},
+      persistNonces: true,
+      onSecurityEvent: () => undefined,
+      auditLogSize: 200,
+      redactKeys: [],
       ...config,
+      securitySinks: config.securitySinks ?? (config.strictMode === false ? [] : [createConsoleSecuritySink()]),
     };
 
-    if (this.config.enableCSP && typeof document !== 'undefined') {
-      this.setupCSP();
-    }
+    this.loadNonces();
+
+    this.rateLimiter = createRateLimiter(
+      {
+        limit: this.config.maxRequestsPerWindow,
+        windowMs: this.config.rateLimitWindow,
+        strategy: this.config.rateLimitStrategy,
+        mode: this.config.rateLimitMode,
+        maxQueueMs: this.config.maxQueueMs,
+      },
+      { ...DEFAULT_RATE_LIMITS, ...this.config.rateLimits }
+    );
+
+    // maxTransactionAmount caps MOVE as a coin and as a fungible asset (0xa)
+    const moveCap = { perTransaction: this.config.maxTransactionAmount };
+    this.policy = createSpendingPolicy(this.config.policy, { [MOVE_COIN_TYPE]: moveCap, '0xa': moveCap });
   }
 
   /**
-   * Validate origin of request
+   * Validate origin of request (rejections are logged as invalid_origin)
    */
   validateOrigin(origin: string): boolean {
     if (this.config.allowedOrigins.length === 0) {
       return true; // No restrictions if list is empty
     }
 
-    return this.config.allowedOrigins.some(allowed => {
-      if (allowed === '*') return true;
-      if (allowed.includes('*')) {
-        const regex = new RegExp('^' + allowed.replace(/\*/g, '.*') + '$');
+    const allowed = this.config.allowedOrigins.some(pattern => {
+      if (pattern === '*') return true;
+      if (pattern.includes('*')) {
+        const regex = new RegExp('^' + pattern.replace(/\*/g, '.*') + '$');
         return regex.test(origin);
       }
-      return origin === allowed;
+      return origin === pattern;
     });
+
+    if (!allowed) {
+      this.logSecurityEvent({ type: 'invalid_origin', details: `Origin not allowed: ${origin}`, metadata: { origin } });
+    }
+    return allowed;
   }
 
   /**
-   * Rate limiting check
+   * Rate limiting check (never waits, whatever the mode)
    */
   checkRateLimit(identifier: string): boolean {
-    const now = Date.now();
-    const entry = this.rateLimitMap.get(identifier);
+    return this.rateLimiter.tryAcquire(identifier);
+  }
 
-    if (!entry || now >= entry.resetTime) {
-      this.rateLimitMap.set(identifier, {
-        count: 1,
-        resetTime: now + this.config.rateLimitWindow,
-      });
-      return true;
-    }
+  /**
+   * Rate limiting check honoring queue mode: over-limit calls wait for budget
+   * instead of failing. Resolves false if the call is still over the limit.
+   */
+  acquireRateLimit(identifier: string): Promise<boolean> {
+    return this.rateLimiter.acquire(identifier);
+  }
 
-    if (entry.count >= this.config.maxRequestsPerWindow) {
-      return false;
-    }
+  /**
+   * Milliseconds until the next call for an identifier is allowed
+   */
+  getRetryAfter(identifier: string): number {
+    return this.rateLimiter.getRetryAfter(identifier);
+  }
 
-    entry.count++;
-    return true;
+  /**
+   * Current rate limit budget for an identifier
+   */
+  getRateLimitBudget(identifier: string): RateLimitBudget {
+    return this.rateLimiter.getBudget(identifier);
   }
 
   /**
-   * Validate transaction payload
+   * Listen for rate limit budget changes
    */
-  validateTransaction(payload: any): { valid: boolean; error?: string } {
+  onRateLimitChange(listener: RateLimitListener): () => void {
+    return this.rateLimiter.subscribe(listener);
+  }
+
+  /**
+   * Validate transaction payload (checked at runtime too, for untyped callers)
+   */
+  validateTransaction(payload: TransactionPayload): ValidationResult {
     // Check required fields
     if (!payload.function || typeof payload.function !== 'string') {
-      return { valid: false, error: 'Invalid or missing transaction function' };
+      return { valid: false, error: 'Invalid or missing transaction function', field: 'function' };
     }
 
     if (!Array.isArray(payload.arguments)) {
-      return { valid: false, error: 'Transaction arguments must be an array' };
+      return { valid: false, error: 'Transaction arguments must be an array', field: 'arguments' };
     }
 
     if (!Array.isArray(payload.type_arguments)) {
-      return { valid: false, error: 'Transaction type_arguments must be an array' };
+      return { valid: false, error: 'Transaction type_arguments must be an array', field: 'type_arguments' };
     }
 
     // Validate function format (should be address::module::function)
     const functionPattern = /^0x[a-fA-F0-9]+::[a-zA-Z_][a-zA-Z0-9_]*::[a-zA-Z_][a-zA-Z0-9_]*$/;
     if (!functionPattern.test(payload.function)) {
-      return { valid: false, error: 'Invalid transaction function format' };
+      return { valid: false, error: 'Invalid transaction function format', field: 'function' };
     }
 
-    // Check for transfer functions and validate amount
-    if (payload.function.includes('::transfer')) {
-      const amountIndex = payload.arguments.length - 1;
-      const amount = payload.arguments[amountIndex];
-
-      if (typeof amount === 'string' && BigInt(amount) > BigInt(this.config.maxTransactionAmount)) {
-        return {
-          valid: false,
-          error: `Transaction amount exceeds maximum allowed (${this.config.maxTransactionAmount})`
-        };
+    // Type arguments must be concrete Move types
+    for (const [index, typeArg] of payload.type_arguments.entries()) {
+      const field = `type_arguments[${index}]`;
+      if (typeof typeArg !== 'string') {
+        return { valid: false, error: 'Type arguments must be strings', field };
       }
+      const result = this.check(() => parseTypeArgument(typeArg, field));
+      if (result) return result;
+    }
+
+    // Type-check arguments against the function's parameter types when known
+    const { parameters } = payload;
+    if (parameters) {
+      const result = this.check(() => coerceMoveArguments(parameters, payload.arguments, payload.type_arguments));
+      if (result) return result;
     }
 
     // Validate addresses in arguments
-    for (const arg of payload.arguments) {
+    for (const [index, arg] of payload.arguments.entries()) {
       if (typeof arg === 'string' && arg.startsWith('0x')) {
         if (!this.isValidAddress(arg)) {
-          return { valid: false, error: `Invalid address format: ${arg}` };
+          return { valid: false, error: `Invalid address format: ${arg}`, field: `arguments[${index}]` };
         }
       }
     }
@@ -129,6 +243,38 @@ class SecurityManager {
     return { valid: true };
   }
 
+  /**
+   * Enforce the spending policy on one transaction or a whole batch. What it
+   * spends counts towards the caps right away.
+   * @returns the reserved amounts, to pass to releaseSpend if nothing was sent
+   * @throws PolicyViolationError naming the rule that failed
+   */
+  checkPolicy(payloads: TransactionPayload[]): PolicySpend[] {
+    return this.policy.check(payloads);
+  }
+
+  /**
+   * Return reserved spends to the session and window caps
+   */
+  releaseSpend(spends: PolicySpend[]): void {
+    this.policy.release(spends);
+  }
+
+  /**
+   * Run a Move type check, turning its ValidationError into a result
+   */
+  private check(run: () => unknown): ValidationResult | null {
+    try {
+      run();
+      return null;
+    } catch (error) {
+      if (isMovementSDKError(error, 'VALIDATION_FAILED')) {
+        return { valid: false, error: error.message, field: error.field };
+      }
+      throw error;
+    }
+  }
+
   /**
    * Validate Aptos address format
    */
@@ -147,7 +293,8 @@ class SecurityManager {
    */
   sanitizeMessage(message: string): string {
     // Remove any null bytes or control characters
-    let sanitized = message.replace(/[\x00-\x1F\x7F-\x9F]/g, '');
+    let sanitized = message.replace(/\p{Cc}/gu, '');
+    const stripped = message.length - sanitized.length;
 
     // Limit message length
     const maxLength = 10000;
@@ -155,90 +302,214 @@ class SecurityManager {
       sanitized = sanitized.substring(0, maxLength);
     }
 
+    // Hidden characters can make the text shown to the user differ from what is signed
+    if (stripped > 0 || sanitized.length < message.length - stripped) {
+      this.logSecurityEvent({
+        type: 'suspicious_activity',
+        details: 'Message to sign contained control characters or exceeded the length limit',
+        metadata: { strippedCharacters: stripped, length: message.length },
+      });
+    }
+
     return sanitized;
   }
 
   /**
-   * Generate and validate nonce for message signing
+   * Generate a nonce for message signing: `<timestamp>-<128 random bits as hex>`
    */
   generateNonce(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2);
-    return `${timestamp}-${random}`;
+    return `${Date.now()}-${encodeHex(randomBytes(16)).slice(2)}`;
   }
 
+  /**
+   * Accept a nonce once, and only while it is fresh. Used nonces survive reloads
+   * when persistNonces is enabled.
+   */
   validateNonce(nonce: string): boolean {
-    if (this.nonceSet.has(nonce)) {
+    const match = NONCE_PATTERN.exec(nonce);
+    if (!match) {
+      return false; // Malformed nonce
+    }
+
+    // Check nonce age (5 minutes max, small allowance for clock skew)
+    const timestamp = Number(match[1]);
+    const age = Date.now() - timestamp;
+    if (age > NONCE_MAX_AGE || age < -NONCE_CLOCK_SKEW) {
+      return false;
+    }
+
+    if (this.usedNonces.has(nonce)) {
       return false; // Replay attack detected
     }
 
-    // Check nonce age (5 minutes max)
-    const [timestamp] = nonce.split('-');
-    const age = Date.now() - parseInt(timestamp);
-    if (age > 300000) {
-      return false; // Nonce too old
+    this.usedNonces.set(nonce, timestamp);
+    this.pruneNonces();
+    return true;
+  }
+
+  /**
+   * Accept a nonce issued elsewhere (e.g. by your backend) once, whatever its
+   * format. Only reuse is checked; its lifetime is the issuer's to enforce.
+   */
+  registerNonce(nonce: string): boolean {
+    if (this.usedNonces.has(nonce)) {
+      return false; // Replay attack detected
     }
 
-    this.nonceSet.add(nonce);
+    this.usedNonces.set(nonce, Date.now());
+    this.pruneNonces();
+    return true;
+  }
 
-    // Clean old nonces
-    if (this.nonceSet.size > 1000) {
-      const now = Date.now();
-      for (const oldNonce of this.nonceSet) {
-        const [ts] = oldNonce.split('-');
-        if (now - parseInt(ts) > 300000) {
-          this.nonceSet.delete(oldNonce);
-        }
+  // Drop expired nonces and persist the rest
+  private pruneNonces(): void {
+    const now = Date.now();
+    for (const [nonce, timestamp] of this.usedNonces) {
+      if (now - timestamp > NONCE_MAX_AGE) {
+        this.usedNonces.delete(nonce);
       }
     }
 
-    return true;
+    if (this.config.persistNonces && typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(USED_NONCES_KEY, JSON.stringify(Object.fromEntries(this.usedNonces)));
+      } catch {
+        // Storage full or unavailable; in-memory protection still applies
+      }
+    }
+  }
+
+  private loadNonces(): void {
+    if (!this.config.persistNonces || typeof localStorage === 'undefined') return;
+    try {
+      const stored = JSON.parse(localStorage.getItem(USED_NONCES_KEY) ?? '{}');
+      for (const [nonce, timestamp] of Object.entries(stored)) {
+        if (typeof timestamp === 'number') this.usedNonces.set(nonce, timestamp);
+      }
+    } catch {
+      // Corrupt entry; start over
+    }
   }
 
   /**
-   * Setup Content Security Policy
+   * Apply the Content Security Policy, once per document, and log its
+   * violations to this instance's audit log. Call it once the network is known;
+   * pass null to allow every known network's RPC origin.
    */
-  private setupCSP(): void {
-    const meta = document.createElement('meta');
-    meta.httpEquiv = 'Content-Security-Policy';
-    meta.content = [
-      "default-src 'self'",
-      "script-src 'self' 'unsafe-inline' 'unsafe-eval'",
-      "style-src 'self' 'unsafe-inline'",
-      "img-src 'self' data: https:",
-      "font-src 'self' data:",
-      "connect-src 'self' https://*.movementlabs.xyz https://*.aptoslabs.com",
-      "frame-ancestors 'self'",
-    ].join('; ');
+  setupCSP(network?: string | null): void {
+    if (!this.config.enableCSP || typeof document === 'undefined' || this.cspApplied) return;
+    this.cspApplied = true;
+    document.addEventListener('securitypolicyviolation', this.onCSPViolation);
+
+    const { csp } = this.config;
+    if (csp.reportOnly) {
+      // A <meta> policy cannot be report-only, so it has to come from the server
+      console.warn(
+        '[Security] csp.reportOnly is set, so no policy was injected. Serve this as a Content-Security-Policy-Report-Only header:',
+        getContentSecurityPolicy(csp, network)
+      );
+      return;
+    }
 
-    const existingCSP = document.querySelector('meta[http-equiv="Content-Security-Policy"]');
-    if (existingCSP) {
-      existingCSP.remove();
+    // The marker also covers other instances and a second copy of the SDK bundled into the page
+    if (document.querySelector(`meta[${CSP_META_ATTRIBUTE}]`)) return;
+
+    const existing = Array.from(document.querySelectorAll<HTMLMetaElement>('meta[http-equiv="Content-Security-Policy" i]'));
+    if (csp.merge !== false && existing.length > 0) {
+      // Browsers keep enforcing the app's policy and every policy added later,
+      // so a second one could only tighten it. Keep the app's as the only policy
+      // and point out the sources the SDK needs that it blocks.
+      existing[0].setAttribute(CSP_META_ATTRIBUTE, 'app');
+      const required = requiredCSPSources(csp, network);
+      const blocked = existing.reduce<CSPDirectives>(
+        (missing, meta) => ({ ...missing, ...missingCSPSources(parseCSP(meta.content), required) }),
+        {}
+      );
+      if (Object.keys(blocked).length > 0) {
+        console.warn(
+          "[Security] The app's Content-Security-Policy blocks sources the SDK needs. Add them to it:",
+          serializeCSP(blocked)
+        );
+      }
+      return;
     }
 
+    const meta = document.createElement('meta');
+    meta.httpEquiv = 'Content-Security-Policy';
+    meta.setAttribute(CSP_META_ATTRIBUTE, '');
+    meta.content = serializeCSP(toMetaCSP(buildCSP(csp, network)));
     document.head.appendChild(meta);
   }
 
+  private onCSPViolation = (event: SecurityPolicyViolationEvent) => {
+    this.logSecurityEvent({
+      type: 'csp_violation',
+      details: `${event.effectiveDirective} blocked ${event.blockedURI || 'inline code'}`,
+      metadata: {
+        directive: event.effectiveDirective,
+        blockedURI: event.blockedURI,
+        sourceFile: event.sourceFile,
+        lineNumber: event.lineNumber,
+        disposition: event.disposition,
+      },
+    });
+  };
+
   /**
-   * Log security events (for monitoring)
+   * Record a security event: redact its metadata, keep it in the audit log and
+   * pass it to onSecurityEvent and every sink
    */
-  logSecurityEvent(event: {
-    type: 'rate_limit' | 'invalid_origin' | 'invalid_transaction' | 'replay_attack' | 'suspicious_activity';
-    details: string;
-    metadata?: any;
-  }): void {
-    const logEntry = {
+  logSecurityEvent(input: SecurityEventInput): SecurityEvent {
+    const event: SecurityEvent = {
+      id: encodeHex(randomBytes(8)).slice(2),
+      type: input.type,
+      severity: input.severity ?? DEFAULT_SEVERITIES[input.type],
+      details: input.details,
       timestamp: new Date().toISOString(),
-      ...event,
     };
+    if (input.metadata !== undefined) {
+      event.metadata = redactSecurityMetadata(input.metadata, [...REDACTED_KEYS, ...this.config.redactKeys]) as Record<string, unknown>;
+    }
 
-    // In production, send to monitoring service
-    if (this.config.strictMode) {
-      console.warn('[Security]', logEntry);
+    this.auditLog.push(event);
+    if (this.auditLog.length > this.config.auditLogSize) {
+      this.auditLog.splice(0, this.auditLog.length - this.config.auditLogSize);
     }
 
-    // Could send to backend monitoring
-    // await fetch('/api/security-log', { method: 'POST', body: JSON.stringify(logEntry) });
+    // A failing sink must not turn a rejection into a different error
+    try {
+      this.config.onSecurityEvent(event);
+    } catch (error) {
+      console.warn('[Security] onSecurityEvent failed:', error);
+    }
+    for (const sink of this.config.securitySinks) {
+      if (sink.minSeverity && SEVERITY_ORDER[event.severity] < SEVERITY_ORDER[sink.minSeverity]) continue;
+      try {
+        Promise.resolve(sink.send(event)).catch(error => console.warn('[Security] Sink failed:', error));
+      } catch (error) {
+        console.warn('[Security] Sink failed:', error);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Logged events, oldest first (the last auditLogSize only)
+   */
+  getAuditLog(filter?: SecurityEventFilter): SecurityEvent[] {
+    return this.auditLog.filter(event => matchesSecurityFilter(event, filter));
+  }
+
+  /**
+   * The audit log as JSON, e.g. for a support ticket
+   */
+  exportAuditLog(filter?: SecurityEventFilter): string {
+    return JSON.stringify(this.getAuditLog(filter), null, 2);
+  }
+
+  clearAuditLog(): void {
+    this.auditLog = [];
   }
 }
 
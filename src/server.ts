@@ -0,0 +1,11 @@
+/**
+ * Server entry
+ * Signed message and sign-in verification for backends, without the browser
+ * SDK or React: `import { verifySignIn } from '@moveindustries/mini-app-sdk/server'`
+ */
+
+export * from './verify';
+export * from './sign-in';
+export * from './crypto';
+export * from './errors';
+export type { SignMessageResult, SignInInput, SignInMessage, SignInResult } from './types';
@@ -0,0 +1,168 @@
+/**
+ * Sign in with Movement
+ * SIWE-style structured sign-in messages, and server-side verification of the
+ * signed result (signature, derived address, expiry, domain and nonce)
+ */
+
+import type { SignInMessage, SignMessageResult } from './types';
+import { ValidationError } from './errors';
+import { normalizeAddress } from './move-types';
+import { verifySignedMessage } from './verify';
+
+export interface VerifySignInOptions {
+  /** Expected domain (rejects messages made for other sites) */
+  domain?: string;
+  /** Expected nonce, as issued by your backend */
+  nonce?: string;
+  /** Expected address */
+  address?: string;
+  /** Time to check expiry against (default now) */
+  now?: Date;
+}
+
+export interface SignInVerification {
+  valid: boolean;
+  error?: string;
+  /** Address derived from the public key (set when valid) */
+  address?: string;
+  fields?: SignInMessage;
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Movement account:';
+
+const FIELD_LABELS: Array<[keyof SignInMessage, string]> = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+];
+
+/**
+ * Format a sign-in message (EIP-4361 layout)
+ * @throws ValidationError if a field contains a line break
+ */
+export function formatSignInMessage(fields: SignInMessage): string {
+  for (const [key, value] of Object.entries(fields)) {
+    const values = Array.isArray(value) ? value : [value];
+    if (values.some(item => typeof item === 'string' && /[\r\n]/.test(item))) {
+      throw new ValidationError(`Sign-in ${key} must be a single line`, key);
+    }
+  }
+
+  const lines = [`${fields.domain}${HEADER_SUFFIX}`, fields.address, ''];
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+  for (const [key, label] of FIELD_LABELS) {
+    if (fields[key] !== undefined) {
+      lines.push(`${label}: ${fields[key]}`);
+    }
+  }
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse a sign-in message produced by formatSignInMessage
+ * @returns null if the text is not a sign-in message
+ */
+export function parseSignInMessage(message: string): SignInMessage | null {
+  const lines = message.split('\n');
+  if (!lines[0]?.endsWith(HEADER_SUFFIX) || !lines[1] || lines[2] !== '') return null;
+
+  const fields: Partial<SignInMessage> = {
+    domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+    address: lines[1],
+  };
+
+  let index = 3;
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    fields.statement = lines[index];
+    if (lines[index + 1] !== '') return null;
+    index += 2;
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line === 'Resources:') {
+      fields.resources = lines.slice(index + 1).map(resource => resource.replace(/^- /, ''));
+      break;
+    }
+    const entry = FIELD_LABELS.find(([, label]) => line.startsWith(`${label}: `));
+    if (!entry) return null;
+    const value = line.slice(entry[1].length + 2);
+    (fields as Record<string, unknown>)[entry[0]] = entry[0] === 'chainId' ? Number(value) : value;
+  }
+
+  if (!fields.uri || !fields.version || !fields.nonce || !fields.issuedAt) return null;
+  return fields as SignInMessage;
+}
+
+/**
+ * Verify a signed sign-in on your backend: checks the signature over the
+ * wallet's full message (see verifySignedMessage), that the public key derives
+ * the claimed address, and the time window, domain and nonce.
+ *
+ * The address check assumes the account's key was never rotated.
+ *
+ * @example
+ * ```ts
+ * const { valid, address, error } = await verifySignIn(body.message, body.result, {
+ *   domain: 'app.example.com',
+ *   nonce: session.nonce,
+ * });
+ * ```
+ */
+export async function verifySignIn(
+  message: string,
+  result: SignMessageResult,
+  options: VerifySignInOptions = {}
+): Promise<SignInVerification> {
+  const invalid = (error: string, fields?: SignInMessage): SignInVerification => ({ valid: false, error, fields });
+
+  const fields = parseSignInMessage(message);
+  if (!fields) return invalid('Not a sign-in message');
+
+  // Checks the wallet's envelope, the signature and that the key derives the sign-in address
+  const verification = await verifySignedMessage({
+    message,
+    nonce: fields.nonce,
+    result,
+    expectedAddress: fields.address,
+  });
+  if (!verification.valid) {
+    return invalid(verification.error ?? 'Invalid signature', fields);
+  }
+  const address = verification.address!;
+
+  if (options.address && normalizeAddress(options.address) !== normalizeAddress(fields.address)) {
+    return invalid('Unexpected address', fields);
+  }
+
+  const now = (options.now ?? new Date()).getTime();
+  const expiresAt = fields.expirationTime ? Date.parse(fields.expirationTime) : Infinity;
+  const notBefore = fields.notBefore ? Date.parse(fields.notBefore) : -Infinity;
+  if (Number.isNaN(expiresAt) || Number.isNaN(notBefore) || Number.isNaN(Date.parse(fields.issuedAt))) {
+    return invalid('Malformed timestamp', fields);
+  }
+  if (now >= expiresAt) {
+    return invalid('Sign-in has expired', fields);
+  }
+  if (now < notBefore) {
+    return invalid('Sign-in is not valid yet', fields);
+  }
+  if (options.domain && fields.domain !== options.domain) {
+    return invalid(`Sign-in is for ${fields.domain}, expected ${options.domain}`, fields);
+  }
+  if (options.nonce && fields.nonce !== options.nonce) {
+    return invalid('Nonce mismatch', fields);
+  }
+
+  return { valid: true, address, fields };
+}
@@ -0,0 +1,200 @@
+/**
+ * Transaction simulation
+ * Pluggable providers that estimate gas, balance changes and events before signing
+ */
+
+import type {
+  MovementSDK,
+  TransactionPayload,
+  SimulationResult,
+  SimulationEvent,
+  BalanceChange,
+  SimulationContext,
+  SimulationProvider,
+} from './types';
+import { HostError, ValidationError } from './errors';
+import { getNetworkInfo } from './networks';
+import { DEFAULT_SPEND_RULES, canonicalMoveId, readTransfer } from './policy';
+import { parseMoveInteger } from './move-types';
+
+// ============================================================================
+// Balance Changes
+// ============================================================================
+
+function addChange(changes: Map<string, BalanceChange>, address: string, asset: string | null, amount: bigint) {
+  const key = `${address}|${asset}`;
+  const current = BigInt(changes.get(key)?.amount ?? 0);
+  changes.set(key, { address, asset, amount: (current + amount).toString() });
+}
+
+/**
+ * Derive balance changes from coin and fungible asset withdraw/deposit events
+ */
+export function getBalanceChanges(events: Array<SimulationEvent & { guid?: { account_address?: string } }>): BalanceChange[] {
+  const changes = new Map<string, BalanceChange>();
+
+  for (const event of events) {
+    const type = canonicalMoveId(event.type);
+    // Fields of the withdraw/deposit events handled below
+    const data = (event.data ?? {}) as { amount?: unknown; account: string; coin_type: string; store: string };
+    const amount = parseMoveInteger(data.amount);
+    if (amount === null) continue;
+
+    if (type === '0x1::coin::CoinWithdraw' || type === '0x1::coin::CoinDeposit') {
+      const sign = type.endsWith('Withdraw') ? -1n : 1n;
+      addChange(changes, canonicalMoveId(data.account), canonicalMoveId(data.coin_type), sign * amount);
+    } else if (type === '0x1::fungible_asset::Withdraw' || type === '0x1::fungible_asset::Deposit') {
+      const sign = type.endsWith('Withdraw') ? -1n : 1n;
+      addChange(changes, canonicalMoveId(data.store), null, sign * amount);
+    } else if ((type === '0x1::coin::WithdrawEvent' || type === '0x1::coin::DepositEvent') && event.guid?.account_address) {
+      // Legacy handle events carry neither the coin type nor the account in their data
+      const sign = type === '0x1::coin::WithdrawEvent' ? -1n : 1n;
+      addChange(changes, canonicalMoveId(event.guid.account_address), null, sign * amount);
+    }
+  }
+
+  return Array.from(changes.values()).filter(change => change.amount !== '0');
+}
+
+function fee(gasUsed: string, gasUnitPrice: string): string {
+  return (BigInt(gasUsed) * BigInt(gasUnitPrice)).toString();
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Delegate to the host's own simulation
+ */
+export function createHostSimulationProvider(sdk: Pick<MovementSDK, 'simulateTransaction'>): SimulationProvider {
+  return {
+    simulate: async payload => {
+      if (!sdk.simulateTransaction) {
+        throw new HostError('Host does not support transaction simulation');
+      }
+      return sdk.simulateTransaction(payload);
+    },
+  };
+}
+
+export interface RestSimulationProviderOptions {
+  /** Fullnode REST URL (defaults to the rpcUrl of the host's network) */
+  nodeUrl?: string;
+  /** Maximum gas amount for the simulated transaction (default 200000) */
+  maxGasAmount?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Simulate on a fullnode via `/transactions/simulate` with an empty signature
+ */
+export function createRestSimulationProvider(options: RestSimulationProviderOptions = {}): SimulationProvider {
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await (options.fetch ?? fetch)(url, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new HostError(`Simulation request failed (${response.status}): ${body?.message ?? response.statusText}`, body);
+    }
+    return body;
+  };
+
+  return {
+    simulate: async (payload, context) => {
+      const nodeUrl = options.nodeUrl ?? getNetworkInfo(context.network)?.rpcUrl;
+      if (!nodeUrl) {
+        throw new HostError(`No node URL known for network ${context.network ?? 'unknown'}`);
+      }
+      if (!context.sender || !context.publicKey) {
+        throw new ValidationError('Simulation requires a connected account with a public key', 'sender');
+      }
+
+      const account = await request(`${nodeUrl}/accounts/${context.sender}`);
+      const [transaction] = await request(
+        `${nodeUrl}/transactions/simulate?estimate_gas_unit_price=true&estimate_max_gas_amount=true`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sender: context.sender,
+            sequence_number: account.sequence_number,
+            max_gas_amount: String(options.maxGasAmount ?? 200000),
+            gas_unit_price: '100',
+            expiration_timestamp_secs: String(Math.floor(Date.now() / 1000) + 600),
+            payload: {
+              type: 'entry_function_payload',
+              function: payload.function,
+              type_arguments: payload.type_arguments,
+              arguments: payload.arguments,
+            },
+            signature: {
+              type: 'ed25519_signature',
+              public_key: context.publicKey,
+              signature: '0x' + '00'.repeat(64),
+            },
+          }),
+        }
+      );
+
+      const events: SimulationEvent[] = transaction.events ?? [];
+      return {
+        success: transaction.success,
+        vmStatus: transaction.vm_status,
+        gasUsed: transaction.gas_used,
+        gasUnitPrice: transaction.gas_unit_price,
+        fee: fee(transaction.gas_used, transaction.gas_unit_price),
+        balanceChanges: getBalanceChanges(events),
+        events,
+      };
+    },
+  };
+}
+
+export interface StubSimulationOptions {
+  /** Gas units reported for every transaction (default '10') */
+  gasUsed?: string;
+  /** Gas unit price in octas (default '100') */
+  gasUnitPrice?: string;
+  /** Fail every simulation with this VM status */
+  failWith?: string;
+  events?: SimulationEvent[];
+  /** Override parts of the result per payload */
+  result?: (payload: TransactionPayload, context: SimulationContext) => Partial<SimulationResult> | undefined;
+}
+
+/**
+ * Local simulation for tests and development: framework transfers move their
+ * amount from the sender to the recipients, everything else changes nothing
+ */
+export function createStubSimulationProvider(options: StubSimulationOptions = {}): SimulationProvider {
+  return {
+    simulate: async (payload, context) => {
+      const gasUsed = options.gasUsed ?? '10';
+      const gasUnitPrice = options.gasUnitPrice ?? '100';
+      const changes = new Map<string, BalanceChange>();
+
+      const transfer = readTransfer(payload);
+      if (transfer && transfer.amount !== null && !options.failWith) {
+        const amounts = payload.arguments[DEFAULT_SPEND_RULES[canonicalMoveId(payload.function)].amount];
+        if (context.sender) {
+          addChange(changes, canonicalMoveId(context.sender), transfer.asset, -transfer.amount);
+        }
+        transfer.recipients.forEach((recipient, i) => {
+          const amount = Array.isArray(amounts) ? parseMoveInteger(amounts[i]) : transfer.amount;
+          addChange(changes, canonicalMoveId(recipient), transfer.asset, amount ?? 0n);
+        });
+      }
+
+      return {
+        success: !options.failWith,
+        vmStatus: options.failWith ?? 'Executed successfully',
+        gasUsed,
+        gasUnitPrice,
+        fee: fee(gasUsed, gasUnitPrice),
+        balanceChanges: Array.from(changes.values()).filter(change => change.amount !== '0'),
+        events: options.events ?? [],
+        ...options.result?.(payload, context),
+      };
+    },
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Typed storage
+ * Namespaced, schema-validated JSON values over the host's device `storage` or
+ * `CloudStorage`, with versioned migrations, quota accounting and batched I/O
+ */
+
+import type { MovementSDK } from './types';
+import { MovementSDKError, QuotaExceededError, ValidationError, normalizeError } from './errors';
+import { adaptHostSDK, isHostInstalled } from './adapter';
+
+/**
+ * Runtime validator for stored values: a type guard, or any object with a
+ * `parse` method that returns the value or throws (e.g. a zod schema)
+ */
+export type StorageSchema<T> = ((value: unknown) => value is T) | { parse: (value: unknown) => T };
+
+export type StorageBackendName = 'device' | 'cloud';
+
+export interface StoreOptions<T> {
+  /** Prefix that keeps this store's keys apart from others ('<namespace>:<key>') */
+  namespace: string;
+  schema?: StorageSchema<T>;
+  /** Device storage (default) or CloudStorage, which follows the user across devices */
+  backend?: StorageBackendName;
+  /** Version written with every value (default 1) */
+  version?: number;
+  /** Upgrade a value written by an older version; the result is validated and written back */
+  migrate?: (value: unknown, fromVersion: number) => T;
+  /** Items allowed in the backend (default 1024 for cloud, unlimited for device) */
+  quota?: number;
+  /** SDK providing the storage APIs (default: window.movementSDK) */
+  sdk?: Pick<MovementSDK, 'storage' | 'CloudStorage'>;
+}
+
+export interface StoredValueSnapshot<T> {
+  value: T | undefined;
+  isLoaded: boolean;
+  error: MovementSDKError | null;
+}
+
+// Raw string storage, normalized across device storage and CloudStorage
+interface StorageBackend {
+  getMany: (keys: string[]) => Promise<Map<string, string | null>>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+interface StoredEnvelope {
+  v: number;
+  d: unknown;
+}
+
+export const CLOUD_STORAGE_QUOTA = 1024;
+
+const EMPTY_SNAPSHOT: StoredValueSnapshot<never> = { value: undefined, isLoaded: false, error: null };
+
+function resolveBackend(name: StorageBackendName, sdk: StoreOptions<unknown>['sdk']): StorageBackend {
+  const host = sdk ?? (typeof window !== 'undefined' && isHostInstalled(window.movementSDK)
+    ? adaptHostSDK(window.movementSDK!)
+    : undefined);
+
+  if (name === 'cloud') {
+    const cloud = host?.CloudStorage;
+    if (!cloud) {
+      throw new MovementSDKError('UNSUPPORTED', 'CloudStorage is not available');
+    }
+    return {
+      getMany: async keys => new Map(await Promise.all(keys.map(async key => [key, await cloud.getItem(key)] as const))),
+      set: (key, value) => cloud.setItem(key, value),
+      remove: key => cloud.removeItem(key),
+      keys: () => cloud.getKeys(),
+    };
+  }
+
+  const storage = host?.storage;
+  if (!storage) {
+    throw new MovementSDKError('UNSUPPORTED', 'Device storage is not available');
+  }
+  return {
+    getMany: async keys => {
+      // One round trip for several keys
+      if (keys.length > 1) {
+        const all = new Map((await storage.getAll()).map(({ key, value }) => [key, value] as const));
+        return new Map(keys.map(key => [key, all.get(key) ?? null] as const));
+      }
+      return new Map(await Promise.all(keys.map(async key => [key, await storage.get(key)] as const)));
+    },
+    set: (key, value) => storage.set(key, value),
+    remove: key => storage.remove(key),
+    keys: async () => (await storage.getAll()).map(({ key }) => key),
+  };
+}
+
+// Browsers throw a DOMException named QuotaExceededError (NS_ERROR_DOM_QUOTA_REACHED
+// in older Firefox); hosts report the QUOTA_EXCEEDED code
+function isQuotaError(error: unknown): boolean {
+  if (error instanceof MovementSDKError) return error.code === 'QUOTA_EXCEEDED';
+  if (typeof error !== 'object' || error === null) return false;
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 'QUOTA_EXCEEDED';
+}
+
+function validate<T>(schema: StorageSchema<T> | undefined, value: unknown, key: string): T {
+  if (!schema) return value as T;
+
+  if (typeof schema === 'function') {
+    if (!schema(value)) {
+      throw new ValidationError(`Stored value for "${key}" does not match its schema`, key);
+    }
+    return value;
+  }
+
+  try {
+    return schema.parse(value);
+  } catch (error) {
+    const reason = error instanceof Error ? `: ${error.message}` : '';
+    throw new ValidationError(`Stored value for "${key}" does not match its schema${reason}`, key);
+  }
+}
+
+export class TypedStore<T> {
+  private backendInstance: StorageBackend | null = null;
+  private snapshots = new Map<string, StoredValueSnapshot<T>>();
+  private listeners = new Map<string, Set<() => void>>();
+  private version: number;
+  private quota: number;
+
+  // Batching: reads and writes issued in the same tick share one flush
+  private pendingReads = new Map<string, Array<{ resolve: (raw: string | null) => void; reject: (error: unknown) => void }>>();
+  private readFlush: Promise<void> | null = null;
+  private pendingWrites = new Map<string, { raw: string | null; waiting: Array<{ resolve: () => void; reject: (error: unknown) => void }> }>();
+  private writeFlush: Promise<void> | null = null;
+  // Last written snapshot of keys with writes in flight, restored if they fail
+  private rollbacks = new Map<string, { snapshot: StoredValueSnapshot<T>; pending: number }>();
+  private allKeys: Set<string> | null = null;
+  private loadingKeys: Promise<Set<string>> | null = null;
+
+  constructor(private options: StoreOptions<T>) {
+    if (!options.namespace || options.namespace.includes(':')) {
+      throw new ValidationError('Store namespace must be a non-empty string without ":"', 'namespace');
+    }
+    this.version = options.version ?? 1;
+    this.quota = options.quota ?? (options.backend === 'cloud' ? CLOUD_STORAGE_QUOTA : Infinity);
+  }
+
+  // Resolved on first use, so stores can be created before the SDK is injected
+  private get backend(): StorageBackend {
+    if (!this.backendInstance) {
+      this.backendInstance = resolveBackend(this.options.backend ?? 'device', this.options.sdk);
+    }
+    return this.backendInstance;
+  }
+
+  private storageKey(key: string): string {
+    return `${this.options.namespace}:${key}`;
+  }
+
+  private read(storageKey: string): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const waiting = this.pendingReads.get(storageKey) ?? [];
+      waiting.push({ resolve, reject });
+      this.pendingReads.set(storageKey, waiting);
+      if (!this.readFlush) {
+        this.readFlush = Promise.resolve().then(() => this.flushReads());
+      }
+    });
+  }
+
+  private async flushReads(): Promise<void> {
+    const batch = new Map(this.pendingReads);
+    this.pendingReads.clear();
+    this.readFlush = null;
+
+    try {
+      const values = await this.backend.getMany(Array.from(batch.keys()));
+      batch.forEach((waiting, storageKey) => waiting.forEach(({ resolve }) => resolve(values.get(storageKey) ?? null)));
+    } catch (error) {
+      batch.forEach(waiting => waiting.forEach(({ reject }) => reject(error)));
+    }
+  }
+
+  private write(storageKey: string, raw: string | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiting = this.pendingWrites.get(storageKey)?.waiting ?? [];
+      waiting.push({ resolve, reject });
+      this.pendingWrites.set(storageKey, { raw, waiting });
+      if (!this.writeFlush) {
+        this.writeFlush = Promise.resolve().then(() => this.flushWrites());
+      }
+    });
+  }
+
+  private async flushWrites(): Promise<void> {
+    const batch = Array.from(this.pendingWrites);
+    this.pendingWrites.clear();
+    this.writeFlush = null;
+
+    // Only the last write to each key in a tick reaches the backend; each key
+    // succeeds or fails on its own
+    await Promise.all(batch.map(async ([storageKey, { raw, waiting }]) => {
+      try {
+        await (raw === null ? this.backend.remove(storageKey) : this.backend.set(storageKey, raw));
+        waiting.forEach(({ resolve }) => resolve());
+      } catch (error) {
+        waiting.forEach(({ reject }) => reject(error));
+      }
+    }));
+  }
+
+  // Every key in the backend (all namespaces share the quota), loaded once
+  private async keySet(): Promise<Set<string>> {
+    if (this.allKeys) return this.allKeys;
+    if (!this.loadingKeys) {
+      this.loadingKeys = this.backend.keys().finally(() => {
+        this.loadingKeys = null;
+      }).then(keys => (this.allKeys = new Set(keys)));
+    }
+    return await this.loadingKeys;
+  }
+
+  private update(key: string, patch: Partial<StoredValueSnapshot<T>>) {
+    this.snapshots.set(key, { ...(this.snapshots.get(key) ?? EMPTY_SNAPSHOT), ...patch });
+    this.listeners.get(key)?.forEach(listener => listener());
+  }
+
+  private decode(key: string, raw: string | null): { value: T | undefined; migrated: boolean } {
+    if (raw === null) return { value: undefined, migrated: false };
+
+    let envelope: StoredEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch {
+      throw new ValidationError(`Stored value for "${key}" is not valid JSON`, key);
+    }
+    if (typeof envelope !== 'object' || envelope === null || typeof envelope.v !== 'number' || !('d' in envelope)) {
+      throw new ValidationError(`Stored value for "${key}" was not written by a typed store`, key);
+    }
+
+    if (envelope.v > this.version) {
+      throw new ValidationError(`Stored value for "${key}" was written by a newer version (${envelope.v})`, key);
+    }
+    if (envelope.v < this.version) {
+      if (!this.options.migrate) {
+        throw new ValidationError(`Stored value for "${key}" is version ${envelope.v} and no migrate() was given`, key);
+      }
+      return { value: validate(this.options.schema, this.options.migrate(envelope.d, envelope.v), key), migrated: true };
+    }
+
+    return { value: validate(this.options.schema, envelope.d, key), migrated: false };
+  }
+
+  /**
+   * Read a value (undefined when unset)
+   * @throws ValidationError if the stored value fails the schema or cannot be migrated
+   */
+  async get(key: string): Promise<T | undefined> {
+    try {
+      const { value, migrated } = this.decode(key, await this.read(this.storageKey(key)));
+      if (migrated && value !== undefined) {
+        await this.write(this.storageKey(key), JSON.stringify({ v: this.version, d: value }));
+      }
+      this.update(key, { value, isLoaded: true, error: null });
+      return value;
+    } catch (err) {
+      const error = normalizeError(err);
+      this.update(key, { isLoaded: true, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and write a value. The snapshot updates right away and is restored
+   * if the write fails.
+   * @throws ValidationError if the value fails the schema
+   * @throws QuotaExceededError if the backend has no room for a new key
+   */
+  async set(key: string, value: T): Promise<void> {
+    const valid = validate(this.options.schema, value, key);
+    const storageKey = this.storageKey(key);
+    let added = false;
+
+    if (Number.isFinite(this.quota)) {
+      const keys = await this.keySet().catch(err => {
+        throw normalizeError(err);
+      });
+      if (!keys.has(storageKey)) {
+        if (keys.size >= this.quota) {
+          throw new QuotaExceededError(
+            `Storage is full (${keys.size}/${this.quota} items); remove items before writing "${key}"`,
+            this.quota,
+            key
+          );
+        }
+        keys.add(storageKey);
+        added = true;
+      }
+    }
+
+    const rollback = this.rollbacks.get(key) ?? { snapshot: this.getSnapshot(key), pending: 0 };
+    rollback.pending++;
+    this.rollbacks.set(key, rollback);
+
+    const written: StoredValueSnapshot<T> = { value: valid, isLoaded: true, error: null };
+    this.update(key, written);
+    try {
+      await this.write(storageKey, JSON.stringify({ v: this.version, d: valid }));
+      rollback.snapshot = written;
+    } catch (err) {
+      if (added) this.allKeys?.delete(storageKey);
+      // Unless a later write has replaced it, show what is stored again
+      if (this.getSnapshot(key).value === valid) {
+        this.update(key, rollback.snapshot);
+      }
+
+      // Another store or device may have filled the backend since the keys were counted
+      if (isQuotaError(err)) {
+        throw new QuotaExceededError(`Storage is full; remove items before writing "${key}"`, this.quota, key);
+      }
+      throw normalizeError(err);
+    } finally {
+      if (--rollback.pending === 0) this.rollbacks.delete(key);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    const storageKey = this.storageKey(key);
+    this.allKeys?.delete(storageKey);
+    this.update(key, { value: undefined, isLoaded: true, error: null });
+    try {
+      await this.write(storageKey, null);
+    } catch (err) {
+      throw normalizeError(err);
+    }
+  }
+
+  /**
+   * Keys in this namespace (without the prefix)
+   */
+  async keys(): Promise<string[]> {
+    const prefix = `${this.options.namespace}:`;
+    try {
+      return (await this.backend.keys())
+        .filter(storageKey => storageKey.startsWith(prefix))
+        .map(storageKey => storageKey.slice(prefix.length));
+    } catch (err) {
+      throw normalizeError(err);
+    }
+  }
+
+  /**
+   * Remove every key in this namespace (other namespaces are untouched)
+   */
+  async clear(): Promise<void> {
+    const keys = await this.keys();
+    await Promise.all(keys.map(key => this.remove(key)));
+  }
+
+  /**
+   * Items counted against the quota, across all namespaces
+   */
+  async usage(): Promise<{ used: number; quota: number }> {
+    const keys = await this.keySet();
+    return { used: keys.size, quota: this.quota };
+  }
+
+  getSnapshot(key: string): StoredValueSnapshot<T> {
+    return this.snapshots.get(key) ?? EMPTY_SNAPSHOT;
+  }
+
+  /**
+   * Listen for changes to one key made through this store
+   */
+  subscribe(key: string, listener: () => void): () => void {
+    let listeners = this.listeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(key, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+}
+
+/**
+ * Create a typed store
+ *
+ * @example
+ * ```ts
+ * const settings = createStore<Settings>({
+ *   namespace: 'settings',
+ *   backend: 'cloud',
+ *   schema: isSettings,
+ *   version: 2,
+ *   migrate: (old, from) => ({ ...(old as SettingsV1), currency: 'USD' }),
+ * });
+ *
+ * await settings.set('main', { theme: 'dark', currency: 'EUR' });
+ * ```
+ */
+export const createStore = <T>(options: StoreOptions<T>) => new TypedStore<T>(options);
@@ -0,0 +1,265 @@
+/**
+ * Shared SDK state
+ * Owns one secured SDK instance and the connection, account and theme state
+ * derived from it, so every hook in an app sees the same values
+ */
+
+import type { MovementSDK, MovementAccount, ThemeInfo } from './types';
+import type { SecurityConfig } from './security';
+import { waitForSDK } from './sdk';
+import { MovementSDKError, NotInstalledError, isMovementSDKError, normalizeError } from './errors';
+import { createViewQueryClient, type ViewQueryClient } from './view';
+import { createOutbox, type Outbox, type OutboxOptions } from './outbox';
+import { createAnalyticsClient, type AnalyticsClient, type AnalyticsClientOptions } from './analytics';
+import { enableAutoTracking, type AutoTrackOptions } from './auto-track';
+
+export interface MovementState {
+  sdk: MovementSDK | null;
+  isReady: boolean;
+  isLoading: boolean;
+  isConnected: boolean;
+  address: string | null;
+  network: string | null;
+  account: MovementAccount | null;
+  theme: ThemeInfo | null;
+  /** View query cache shared by every useView() */
+  views: ViewQueryClient | null;
+  /** Transaction outbox (null unless enabled with the outbox option) */
+  outbox: Outbox | null;
+  /** Analytics client; buffers events until the SDK is ready */
+  analytics: AnalyticsClient;
+  error: MovementSDKError | null;
+}
+
+export interface MovementStoreOptions {
+  config?: SecurityConfig;
+  /** ready() timeout in milliseconds (default 5000) */
+  timeout?: number;
+  /** Persist transaction intents and resubmit them after interruptions (default off) */
+  outbox?: boolean | OutboxOptions;
+  /** Analytics sinks, super-properties and batching */
+  analytics?: AnalyticsClientOptions;
+  /** Track screens, wallet events and MainButton clicks automatically (default off) */
+  autoTrack?: boolean | AutoTrackOptions;
+}
+
+const INITIAL_STATE: Omit<MovementState, 'analytics'> = {
+  sdk: null,
+  isReady: false,
+  isLoading: true,
+  isConnected: false,
+  address: null,
+  network: null,
+  account: null,
+  theme: null,
+  views: null,
+  outbox: null,
+  error: null,
+};
+
+export class MovementStore {
+  private state: MovementState;
+  private listeners = new Set<() => void>();
+  private teardown: Array<() => void> = [];
+  private destroyed = false;
+  private initPromise: Promise<MovementSDK | null> | null = null;
+  private options: MovementStoreOptions;
+
+  constructor(options: MovementStoreOptions = {}) {
+    this.options = options;
+    this.state = { ...INITIAL_STATE, analytics: createAnalyticsClient(options.analytics) };
+  }
+
+  getState = (): MovementState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private setState(patch: Partial<MovementState>) {
+    this.state = { ...this.state, ...patch };
+    for (const listener of Array.from(this.listeners)) {
+      listener();
+    }
+  }
+
+  /**
+   * Create the secured SDK and load initial state. Safe to call repeatedly.
+   */
+  init(): Promise<MovementSDK | null> {
+    const restart = this.destroyed;
+    this.destroyed = false;
+    if (restart) {
+      // Set up again after destroy() (e.g. React StrictMode remount)
+      this.setState({ analytics: createAnalyticsClient(this.options.analytics) });
+    }
+
+    if (!this.initPromise) {
+      this.initPromise = this.initialize();
+    } else if (restart && !this.state.isLoading) {
+      // An initialize() still in flight attaches when it finishes
+      this.attach(this.state.sdk);
+    }
+    return this.initPromise;
+  }
+
+  private async initialize(): Promise<MovementSDK | null> {
+    if (typeof window === 'undefined') {
+      this.setState({ isLoading: false, error: new NotInstalledError('Window is not defined') });
+      return null;
+    }
+
+    try {
+      const sdk = await waitForSDK(this.options.timeout, this.options.config);
+
+      // Destroyed while waiting: init() attaches if the store is used again
+      if (!this.destroyed) this.attach(sdk);
+      this.setState({
+        sdk,
+        isReady: true,
+        isConnected: sdk.isConnected,
+        address: sdk.address || null,
+        network: sdk.network || null,
+      });
+
+      await Promise.all([
+        sdk.isConnected ? this.refreshAccount() : undefined,
+        this.refreshTheme(),
+      ]);
+
+      this.setState({ isLoading: false });
+      return sdk;
+    } catch (err) {
+      this.setState({ isLoading: false, error: normalizeError(err) });
+      if (!this.destroyed) this.attach(null);
+      return null;
+    }
+  }
+
+  // Create the view cache and outbox, and subscribe to the SDK and the window.
+  // destroy() undoes all of it.
+  private attach(sdk: MovementSDK | null) {
+    const { outbox, autoTrack } = this.options;
+    const teardown: Array<() => void> = [];
+
+    if (sdk) {
+      const views = createViewQueryClient(sdk);
+      const box = outbox ? createOutbox(sdk, outbox === true ? {} : outbox) : null;
+      this.setState({ views, outbox: box });
+      teardown.push(() => views.destroy(), () => box?.destroy(), ...this.listen(sdk));
+      this.state.analytics.attach(sdk).catch(() => undefined);
+    }
+
+    // Screens are still worth tracking (to custom sinks) without a wallet
+    if (autoTrack) {
+      teardown.push(enableAutoTracking(this.state.analytics, sdk, autoTrack === true ? {} : autoTrack));
+    }
+    this.teardown = teardown;
+  }
+
+  // Keep state current when the user switches or disconnects in the wallet
+  private listen(sdk: MovementSDK): Array<() => void> {
+    if (!sdk.on) return [];
+
+    return [
+      sdk.on('accountChanged', ({ address }) => {
+        this.setState({ isConnected: true, address });
+        this.refreshAccount();
+        this.state.outbox?.flush().catch(() => undefined);
+      }),
+      sdk.on('disconnected', () => {
+        this.setState({ isConnected: false, address: null, account: null });
+      }),
+      sdk.on('networkChanged', ({ network }) => {
+        this.setState({ network });
+      }),
+      sdk.on('balanceChanged', ({ address, balance }) => {
+        const { account } = this.state;
+        if (account?.address === address) {
+          this.setState({ account: { ...account, balance } });
+        }
+      }),
+      sdk.on('themeChanged', theme => {
+        this.setState({ theme });
+      }),
+    ];
+  }
+
+  /**
+   * Connect the wallet through the shared SDK
+   */
+  async connect(): Promise<MovementAccount> {
+    const sdk = this.state.sdk ?? await this.init();
+    if (!sdk) {
+      throw this.state.error ?? new NotInstalledError('SDK not available');
+    }
+
+    try {
+      const account = await sdk.connect();
+      this.setState({ isConnected: true, address: account.address, account, error: null });
+      this.state.outbox?.flush().catch(() => undefined);
+      return account;
+    } catch (err) {
+      const error = normalizeError(err);
+      this.setState({ error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reload the connected account (address, public key and balance)
+   */
+  async refreshAccount(): Promise<void> {
+    const { sdk } = this.state;
+    if (!sdk) return;
+
+    try {
+      const account = await sdk.getAccount();
+      this.setState({ account, isConnected: true, address: account.address });
+    } catch (err) {
+      this.setState({ error: normalizeError(err) });
+    }
+  }
+
+  private async refreshTheme(): Promise<void> {
+    const { sdk } = this.state;
+    if (!sdk?.getTheme) return;
+
+    try {
+      this.setState({ theme: await sdk.getTheme() });
+    } catch (err) {
+      // Older hosts have no theme API; that is not an SDK failure
+      if (!isMovementSDKError(err, 'UNSUPPORTED')) {
+        this.setState({ error: normalizeError(err) });
+      }
+    }
+  }
+
+  /**
+   * Tear down everything the store set up: wallet listeners, the view cache,
+   * the outbox, auto-tracking and analytics timers. init() sets it up again.
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.teardown.forEach(unsubscribe => unsubscribe());
+    this.teardown = [];
+    this.state.analytics.destroy();
+  }
+}
+
+export const createMovementStore = (options?: MovementStoreOptions) => new MovementStore(options);
+
+let defaultStore: MovementStore | null = null;
+
+/**
+ * Store used by hooks rendered outside a MovementProvider
+ */
+export function getDefaultMovementStore(): MovementStore {
+  if (!defaultStore) {
+    defaultStore = createMovementStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,7 @@
+/**
+ * Testing entry
+ * The in-memory mock host, kept out of the main bundle:
+ * `import { createMockMovementSDK } from '@moveindustries/mini-app-sdk/testing'`
+ */
+
+export * from './mock';
@@ -0,0 +1,102 @@
+/**
+ * Transaction tracking
+ * Follows a submitted transaction to a final status using host push updates,
+ * falling back to polling waitForTransaction
+ */
+
+import type { MovementSDK, TransactionStatus } from './types';
+import { MovementSDKError, TimeoutError, normalizeError } from './errors';
+
+export interface TrackTransactionOptions {
+  /** Called for every status update, including intermediate 'pending' ones */
+  onStatus?: (status: TransactionStatus) => void;
+  /** Stop waiting when aborted (rejects with the abort reason) */
+  signal?: AbortSignal;
+  /** Delay between waitForTransaction polls in milliseconds (default 2000) */
+  pollInterval?: number;
+  /** Give up after this many milliseconds (default 60000) */
+  timeout?: number;
+}
+
+const isFinal = (status: TransactionStatus) => status.status === 'success' || status.status === 'failed';
+
+/**
+ * Wait until a transaction is final.
+ * Resolves with the final status (including 'failed'); rejects on timeout,
+ * abort, or when the host cannot report the status at all.
+ */
+export function trackTransaction(
+  sdk: Pick<MovementSDK, 'waitForTransaction' | 'onTransactionUpdate'>,
+  hash: string,
+  options: TrackTransactionOptions = {}
+): Promise<TransactionStatus> {
+  const { onStatus, signal, pollInterval = 2000, timeout = 60000 } = options;
+
+  return new Promise<TransactionStatus>((resolve, reject) => {
+    let settled = false;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe: (() => void) | undefined;
+
+    const cleanup = () => {
+      settled = true;
+      clearTimeout(timeoutTimer);
+      clearTimeout(pollTimer);
+      unsubscribe?.();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const update = (status: TransactionStatus) => {
+      if (settled) return;
+      onStatus?.(status);
+      if (isFinal(status)) {
+        cleanup();
+        resolve(status);
+      }
+    };
+
+    const fail = (error: MovementSDKError) => {
+      if (settled) return;
+      cleanup();
+      reject(error);
+    };
+
+    const onAbort = () => {
+      if (settled) return;
+      cleanup();
+      reject(signal?.reason ?? new Error('Transaction tracking aborted'));
+    };
+
+    const timeoutTimer = setTimeout(
+      () => fail(new TimeoutError(`Timed out waiting for transaction ${hash}`)),
+      timeout
+    );
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    // Prefer host push updates (hosts without them leave onTransactionUpdate undefined)
+    unsubscribe = sdk.onTransactionUpdate?.(hash, update) as (() => void) | undefined;
+    if (unsubscribe) return;
+
+    // Fall back to polling until the host reports a final status
+    const poll = async () => {
+      try {
+        update(await sdk.waitForTransaction(hash));
+      } catch (err) {
+        const error = normalizeError(err);
+        // Not indexed yet or a transient failure; retry until the timeout
+        if (error.code === 'USER_REJECTED' || error.code === 'UNSUPPORTED') {
+          fail(error);
+          return;
+        }
+      }
+      if (!settled) {
+        pollTimer = setTimeout(poll, pollInterval);
+      }
+    };
+    poll();
+  });
+}
@@ -18,8 +18,11 @@ export interface NetworkInfo {
 export interface TransactionPayload {
   type?: string;
   function: string;
-  arguments: any[];
+  arguments: unknown[];
   type_arguments: string[];
+  // Move parameter types of the function (from its ABI); when present, arguments
+  // are type-checked and coerced before submission
+  parameters?: string[];
   // Optional me-app specific fields
   title?: string;
   description?: string;
@@ -48,14 +51,14 @@ export interface BatchTransactionPayload {
 export interface ScriptComposerPayload {
   script: string; // Move script bytecode or composition
   type_arguments?: string[];
-  arguments?: any[];
+  arguments?: unknown[];
 }
 
 // View Function Payload (read-only blockchain calls)
 export interface ViewPayload {
   function: string;
   type_arguments?: string[];
-  function_arguments?: any[];
+  function_arguments?: unknown[];
 }
 
 export interface TransactionResult {
@@ -65,6 +68,92 @@ export interface TransactionResult {
   vmStatus?: string;
 }
 
+export type SecurityEventType =
+  | 'rate_limit'
+  | 'invalid_origin'
+  | 'invalid_transaction'
+  | 'replay_attack'
+  | 'suspicious_activity'
+  | 'csp_violation';
+
+export type SecuritySeverity = 'info' | 'warning' | 'critical';
+
+export interface SecurityEvent {
+  id: string;
+  type: SecurityEventType;
+  severity: SecuritySeverity;
+  details: string;
+  /** Context, with transaction arguments, messages and keys redacted */
+  metadata?: Record<string, unknown>;
+  /** ISO 8601 */
+  timestamp: string;
+}
+
+export interface SecurityEventFilter {
+  type?: SecurityEventType | SecurityEventType[];
+  /** Only events at least this severe */
+  minSeverity?: SecuritySeverity;
+  /** Only events at or after this time */
+  since?: Date | number;
+}
+
+export interface RateLimitBudget {
+  method: string;
+  limit: number;
+  /** Calls that can be made right now */
+  remaining: number;
+  /** Milliseconds until the next call is allowed (0 if remaining > 0) */
+  retryAfterMs: number;
+  /** Milliseconds until the full budget is available again */
+  resetInMs: number;
+  /** Calls waiting in the queue */
+  queued: number;
+}
+
+export interface EncryptionKey {
+  key: CryptoKey;
+  /** Fingerprint stored with each value, to tell a different key from corrupted data */
+  id: string;
+}
+
+export interface BalanceChange {
+  /** Account (or fungible store for fungible asset events) whose balance changes */
+  address: string;
+  /** Coin type or fungible asset metadata address, null if the event doesn't say */
+  asset: string | null;
+  /** Signed amount in base units, e.g. '-100000000' */
+  amount: string;
+}
+
+export interface SimulationEvent {
+  type: string;
+  data: unknown;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string;
+  gasUsed: string;
+  gasUnitPrice: string;
+  /** gasUsed * gasUnitPrice in octas, paid by the sender (not part of balanceChanges) */
+  fee: string;
+  balanceChanges: BalanceChange[];
+  events: SimulationEvent[];
+}
+
+export interface SimulationContext {
+  /** Sending account */
+  sender: string | null;
+  /** Sender public key (needed by node simulation) */
+  publicKey?: string;
+  /** Network reported by the host */
+  network?: string;
+}
+
+export interface SimulationProvider {
+  simulate: (payload: TransactionPayload, context: SimulationContext) => Promise<SimulationResult>;
+}
+
 export interface BatchTransactionResult {
   results: TransactionResult[];
   successCount: number;
@@ -93,6 +182,43 @@ export interface SignMessageResult {
   fullMessage?: string;
 }
 
+export interface SignInInput {
+  /** Domain requesting the sign-in (defaults to location.host) */
+  domain?: string;
+  /** Human-readable statement shown to the user */
+  statement?: string;
+  /** URI the sign-in is for (defaults to location.href) */
+  uri?: string;
+  /** Any format, e.g. issued by your backend; each nonce is accepted once (defaults to a fresh secure nonce) */
+  nonce?: string;
+  /** ISO 8601 timestamp (defaults to now) */
+  issuedAt?: string;
+  /** ISO 8601 timestamp after which the sign-in is invalid */
+  expirationTime?: string;
+  /** ISO 8601 timestamp before which the sign-in is invalid */
+  notBefore?: string;
+  requestId?: string;
+  /** URIs the user grants access to */
+  resources?: string[];
+}
+
+export interface SignInMessage extends SignInInput {
+  domain: string;
+  address: string;
+  uri: string;
+  version: string;
+  chainId?: number;
+  nonce: string;
+  issuedAt: string;
+}
+
+export interface SignInResult extends SignMessageResult {
+  /** The sign-in message text that was signed (send it to your backend with the result) */
+  message: string;
+  fields: SignInMessage;
+  address: string;
+}
+
 export interface HapticOptions {
   type: 'impact' | 'notification' | 'selection';
   style?: 'light' | 'medium' | 'heavy' | 'success' | 'error';
@@ -101,7 +227,7 @@ export interface HapticOptions {
 export interface NotificationOptions {
   title: string;
   body: string;
-  data?: Record<string, any>;
+  data?: Record<string, unknown>;
   sound?: boolean;
   badge?: number;
 }
@@ -259,6 +385,74 @@ export interface AppContext {
   theme: ThemeInfo;
 }
 
+/**
+ * Optional host features that can be negotiated with getCapabilities()
+ */
+export type HostCapability =
+  | 'scanQRCode'
+  | 'simulateTransaction'
+  | 'onTransactionUpdate'
+  | 'haptic'
+  | 'notify'
+  | 'share'
+  | 'openUrl'
+  | 'close'
+  | 'storage'
+  | 'camera'
+  | 'location'
+  | 'biometric'
+  | 'clipboard'
+  | 'showPopup'
+  | 'showAlert'
+  | 'showConfirm'
+  | 'MainButton'
+  | 'SecondaryButton'
+  | 'BackButton'
+  | 'CloudStorage'
+  | 'analytics';
+
+export interface Capabilities {
+  /** Whether each feature can be used: present on the host and not disabled in AppContext.features */
+  supported: Record<HostCapability, boolean>;
+  /** AppContext.features as reported by the host (null when it reports no context) */
+  features: AppContext['features'] | null;
+  host: {
+    /** Version reported by the bridge, or 'legacy' / 'unknown' */
+    version: string;
+    shape: 'current' | 'legacy';
+  };
+  platform: AppContext['platform'] | null;
+}
+
+export interface RequireCapabilitiesOptions {
+  /** Popup title (default 'Update required') */
+  title?: string;
+  /** Popup message (default names the missing features) */
+  message?: string;
+  /** Offer an "Update" button that opens this URL */
+  updateUrl?: string;
+}
+
+// SDK Events
+export interface MovementSDKEventMap {
+  accountChanged: { address: string; publicKey?: string };
+  networkChanged: { network: string; chainId?: number };
+  disconnected: void;
+  balanceChanged: { address: string; balance: string };
+  themeChanged: ThemeInfo;
+  transactionConfirmed: { hash: string; sender: string | null };
+  // Emitted by the secured SDK for calls made through it
+  connected: { address: string };
+  transactionSubmitted: { hash: string; function?: string };
+  /** Rejected by the wallet or host (no hash) or failed on chain */
+  transactionFailed: { hash?: string; function?: string; code: string };
+  messageSigned: { address: string | null };
+}
+
+export type MovementSDKEvent = keyof MovementSDKEventMap;
+
+export type MovementSDKEventListener<E extends MovementSDKEvent> = (payload: MovementSDKEventMap[E]) => void;
+
 export interface MovementSDK {
   // Connection & Account
   isConnected: boolean;
@@ -284,8 +478,10 @@ export interface MovementSDK {
   sendBatchTransactions: (payload: BatchTransactionPayload) => Promise<BatchTransactionResult>;
   sendScriptTransaction: (payload: ScriptComposerPayload) => Promise<TransactionResult>;
 
+  simulateTransaction?: (payload: TransactionPayload) => Promise<SimulationResult>;
+
   // View Functions (read-only blockchain calls)
-  view: (payload: ViewPayload) => Promise<any[]>;
+  view: (payload: ViewPayload) => Promise<unknown[]>;
 
   // Signing Methods
   signMessage: (payload: SignMessagePayload) => Promise<SignMessageResult>;
@@ -369,6 +565,30 @@ export interface MovementSDK {
 
   // Analytics API (bridged to host app's Mixpanel)
   analytics?: AnalyticsAPI;
+
+  // Events (returns an unsubscribe function)
+  on?: <E extends MovementSDKEvent>(event: E, callback: MovementSDKEventListener<E>) => () => void;
+
+  // Client-side rate limit budgets (provided by the secured SDK, not the host)
+  getRateLimit?: (method: string) => RateLimitBudget;
+  onRateLimitChange?: (listener: (budget: RateLimitBudget) => void) => () => void;
+
+  // Sign in with Movement (provided by the secured SDK)
+  signIn?: (input?: SignInInput) => Promise<SignInResult>;
+
+  // Transaction simulation source (provided by the secured SDK; null restores the default)
+  setSimulationProvider?: (provider: SimulationProvider | null) => void;
+
+  // Wallet-derived encryption key for client-side encryption (provided by the secured SDK)
+  deriveEncryptionKey?: (purpose?: string) => Promise<EncryptionKey>;
+
+  // Security audit log (provided by the secured SDK)
+  getSecurityEvents?: (filter?: SecurityEventFilter) => SecurityEvent[];
+  exportSecurityEvents?: (filter?: SecurityEventFilter) => string;
+
+  // Capability negotiation (provided by the secured SDK)
+  getCapabilities?: () => Promise<Capabilities>;
+  requireCapabilities?: (required: HostCapability[], options?: RequireCapabilitiesOptions) => Promise<boolean>;
 }
 
 declare global {
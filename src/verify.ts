@@ -0,0 +1,129 @@
+/**
+ * Signed message verification
+ * Checks a signMessage result off-chain: rebuilds the wallet's full message,
+ * verifies the Ed25519 or MultiEd25519 signature and derives the signer's address.
+ * Runs in browsers and Node >= 20.
+ */
+
+import type { SignMessageResult } from './types';
+import { ValidationError } from './errors';
+import { normalizeAddress, decodeHex } from './move-types';
+import {
+  ED25519_SCHEME,
+  MULTI_ED25519_SCHEME,
+  deriveAddress,
+  verifyEd25519,
+  verifyMultiEd25519,
+} from './crypto';
+
+export type SignatureScheme = 'ed25519' | 'multi_ed25519';
+
+export interface VerifySignedMessageInput {
+  /** The message the app asked to sign */
+  message: string;
+  /** The nonce the app sent with it */
+  nonce: string;
+  result: SignMessageResult;
+  /** Reject signatures from any other account */
+  expectedAddress?: string;
+}
+
+export interface SignedMessageVerification {
+  valid: boolean;
+  error?: string;
+  /** Address derived from the public key (assumes the key was never rotated) */
+  address?: string;
+  scheme?: SignatureScheme;
+  /** The exact text that was signed */
+  fullMessage?: string;
+}
+
+export interface FullMessageFields {
+  message: string;
+  nonce: string;
+  address?: string;
+  application?: string;
+  chainId?: number;
+}
+
+/**
+ * Build the text wallets sign for signMessage:
+ * `APTOS`, then optional address / application / chainId lines, then message and nonce
+ */
+export function buildFullMessage(fields: FullMessageFields): string {
+  const lines = ['APTOS'];
+  if (fields.address !== undefined) lines.push(`address: ${fields.address}`);
+  if (fields.application !== undefined) lines.push(`application: ${fields.application}`);
+  if (fields.chainId !== undefined) lines.push(`chainId: ${fields.chainId}`);
+  lines.push(`message: ${fields.message}`, `nonce: ${fields.nonce}`);
+  return lines.join('\n');
+}
+
+/**
+ * Signature scheme of a public key, from its length
+ */
+export function getSignatureScheme(publicKey: string): SignatureScheme | null {
+  const length = decodeHex(publicKey).length;
+  if (length === 32) return 'ed25519';
+  if (length > 32 && (length - 1) % 32 === 0) return 'multi_ed25519';
+  return null;
+}
+
+const sameAddress = (a: string, b: string) => normalizeAddress(a) === normalizeAddress(b);
+
+/**
+ * Verify a signMessage result
+ *
+ * @example
+ * ```ts
+ * const { valid, address } = await verifySignedMessage({
+ *   message: 'Link my account',
+ *   nonce,
+ *   result,
+ *   expectedAddress: user.address,
+ * });
+ * ```
+ */
+export async function verifySignedMessage(input: VerifySignedMessageInput): Promise<SignedMessageVerification> {
+  const { message, nonce, result, expectedAddress } = input;
+
+  // The wallet may add address/application/chainId lines, but must end with ours
+  const fullMessage = result.fullMessage ?? buildFullMessage({ message, nonce });
+  const tail = `\nmessage: ${message}\nnonce: ${nonce}`;
+  if (!fullMessage.startsWith('APTOS\n') || !fullMessage.endsWith(tail)) {
+    return { valid: false, error: 'Signed message does not match the message and nonce', fullMessage };
+  }
+
+  let scheme: SignatureScheme | null;
+  let signatureValid: boolean;
+  try {
+    scheme = getSignatureScheme(result.publicKey);
+    if (!scheme) {
+      return { valid: false, error: 'Unsupported public key', fullMessage };
+    }
+    const verify = scheme === 'ed25519' ? verifyEd25519 : verifyMultiEd25519;
+    signatureValid = await verify(result.publicKey, fullMessage, result.signature);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { valid: false, error: 'Malformed public key or signature', fullMessage };
+    }
+    throw error;
+  }
+  if (!signatureValid) {
+    return { valid: false, error: 'Invalid signature', scheme, fullMessage };
+  }
+
+  const address = deriveAddress(result.publicKey, scheme === 'ed25519' ? ED25519_SCHEME : MULTI_ED25519_SCHEME);
+
+  // An address line added by the wallet must name the signer
+  const header = fullMessage.slice(0, fullMessage.length - tail.length);
+  const addressLine = /^address: (.*)$/m.exec(header);
+  if (addressLine && !sameAddress(addressLine[1], address)) {
+    return { valid: false, error: 'Signed message names a different address', address, scheme, fullMessage };
+  }
+  if (expectedAddress && !sameAddress(expectedAddress, address)) {
+    return { valid: false, error: 'Signer does not match the expected address', address, scheme, fullMessage };
+  }
+
+  return { valid: true, address, scheme, fullMessage };
+}
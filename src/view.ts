@@ -0,0 +1,224 @@
+/**
+ * View query cache
+ * Deduplicates and caches view() calls keyed by network, function, type
+ * arguments and function arguments, with stale-while-revalidate semantics
+ */
+
+import type { MovementSDK, ViewPayload } from './types';
+import { MovementSDKError, normalizeError } from './errors';
+
+export interface ViewQueryOptions {
+  /** How long a result stays fresh in milliseconds (default 10000) */
+  ttl?: number;
+  /** Mark stale and refetch after a transaction from the connected account is confirmed (default true) */
+  invalidateOnTransaction?: boolean;
+}
+
+export interface ViewQueryClientOptions {
+  /** Drop cached results that have had no subscribers for this many milliseconds (default 300000) */
+  gcTime?: number;
+}
+
+export interface ViewQuerySnapshot<T = unknown[]> {
+  data: T | undefined;
+  error: MovementSDKError | null;
+  /** Time of the last successful fetch (0 if never) */
+  updatedAt: number;
+  isFetching: boolean;
+  isStale: boolean;
+}
+
+interface ViewCacheEntry {
+  key: string;
+  payload: ViewPayload;
+  snapshot: ViewQuerySnapshot;
+  ttl: number;
+  invalidateOnTransaction: boolean;
+  promise: Promise<unknown[]> | null;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_TTL = 10000;
+const DEFAULT_GC_TIME = 300000;
+
+export const EMPTY_VIEW_SNAPSHOT: ViewQuerySnapshot = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isStale: true,
+};
+
+/**
+ * Stable cache key for a view payload on a network (bigints are stringified)
+ */
+export function getViewQueryKey(payload: ViewPayload, network?: string | null): string {
+  return JSON.stringify(
+    [network ?? null, payload.function, payload.type_arguments ?? [], payload.function_arguments ?? []],
+    (_, value) => (typeof value === 'bigint' ? value.toString() : value)
+  );
+}
+
+export class ViewQueryClient {
+  private entries = new Map<string, ViewCacheEntry>();
+  private unsubscribers: Array<() => void> = [];
+  private gcTime: number;
+
+  constructor(private sdk: MovementSDK, options: ViewQueryClientOptions = {}) {
+    this.gcTime = options.gcTime ?? DEFAULT_GC_TIME;
+    if (sdk.on) {
+      this.unsubscribers = [
+        sdk.on('transactionConfirmed', ({ sender }) => {
+          if (!sender || sender === sdk.address) {
+            this.invalidate(entry => entry.invalidateOnTransaction);
+          }
+        }),
+        // Cached results may belong to the previous account
+        sdk.on('accountChanged', () => this.invalidate()),
+        // Results from the previous network must never be served
+        sdk.on('networkChanged', () => this.clear()),
+      ];
+    }
+  }
+
+  private key(payload: ViewPayload): string {
+    return getViewQueryKey(payload, this.sdk.network);
+  }
+
+  private entry(payload: ViewPayload, options: ViewQueryOptions = {}): ViewCacheEntry {
+    const key = this.key(payload);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        payload,
+        snapshot: EMPTY_VIEW_SNAPSHOT,
+        ttl: options.ttl ?? DEFAULT_TTL,
+        invalidateOnTransaction: options.invalidateOnTransaction ?? true,
+        promise: null,
+        listeners: new Set(),
+        gcTimer: null,
+      };
+      this.entries.set(key, entry);
+      this.scheduleGC(entry);
+    } else {
+      if (options.ttl !== undefined) entry.ttl = options.ttl;
+      if (options.invalidateOnTransaction !== undefined) {
+        entry.invalidateOnTransaction = options.invalidateOnTransaction;
+      }
+    }
+    return entry;
+  }
+
+  // Drop the entry once it has gone unused for gcTime
+  private scheduleGC(entry: ViewCacheEntry) {
+    if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = null;
+      if (entry.listeners.size === 0 && this.entries.get(entry.key) === entry) {
+        this.entries.delete(entry.key);
+      }
+    }, this.gcTime);
+  }
+
+  private update(entry: ViewCacheEntry, patch: Partial<ViewQuerySnapshot>) {
+    entry.snapshot = { ...entry.snapshot, ...patch };
+    for (const listener of Array.from(entry.listeners)) {
+      listener();
+    }
+  }
+
+  private isFresh(entry: ViewCacheEntry): boolean {
+    return !entry.snapshot.isStale && Date.now() - entry.snapshot.updatedAt < entry.ttl;
+  }
+
+  getSnapshot(payload: ViewPayload): ViewQuerySnapshot {
+    return this.entries.get(this.key(payload))?.snapshot ?? EMPTY_VIEW_SNAPSHOT;
+  }
+
+  subscribe(payload: ViewPayload, listener: () => void, options?: ViewQueryOptions): () => void {
+    const entry = this.entry(payload, options);
+    entry.listeners.add(listener);
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) this.scheduleGC(entry);
+    };
+  }
+
+  /**
+   * Return the cached result while fresh, otherwise fetch. Concurrent calls for
+   * the same key share one request.
+   */
+  fetch(payload: ViewPayload, options: ViewQueryOptions & { force?: boolean } = {}): Promise<unknown[]> {
+    const entry = this.entry(payload, options);
+
+    if (entry.promise) {
+      return entry.promise;
+    }
+
+    const { data } = entry.snapshot;
+    if (!options.force && data !== undefined && this.isFresh(entry)) {
+      return Promise.resolve(data);
+    }
+
+    this.update(entry, { isFetching: true });
+
+    const promise: Promise<unknown[]> = this.sdk.view(payload)
+      .then(data => {
+        this.update(entry, { data, error: null, updatedAt: Date.now(), isFetching: false, isStale: false });
+        return data;
+      })
+      .catch(err => {
+        // Keep serving the last good data alongside the error
+        const error = normalizeError(err);
+        this.update(entry, { error, isFetching: false });
+        throw error;
+      })
+      .finally(() => {
+        entry.promise = null;
+      });
+    entry.promise = promise;
+
+    return promise;
+  }
+
+  /**
+   * Mark matching queries stale and refetch those currently in use
+   */
+  invalidate(filter?: (entry: { payload: ViewPayload; invalidateOnTransaction: boolean }) => boolean): void {
+    for (const entry of this.entries.values()) {
+      if (filter && !filter(entry)) continue;
+      this.update(entry, { isStale: true });
+      if (entry.listeners.size > 0) {
+        this.fetch(entry.payload).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Drop every cached result. Subscribers are notified and read an empty snapshot.
+   */
+  clear(): void {
+    const entries = Array.from(this.entries.values());
+    this.entries.clear();
+    for (const entry of entries) {
+      if (entry.gcTimer) clearTimeout(entry.gcTimer);
+      for (const listener of Array.from(entry.listeners)) {
+        listener();
+      }
+    }
+  }
+
+  destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.clear();
+  }
+}
+
+export const createViewQueryClient = (sdk: MovementSDK, options?: ViewQueryClientOptions) => new ViewQueryClient(sdk, options);